@@ -3,7 +3,25 @@
  *
  * These scopes are required for Google Drive functionality and are hardcoded
  * rather than externally configured since this server knows its own requirements.
+ * Scope profiles choose how much Drive access is requested.
  */
 
+const IDENTITY_SCOPE = 'openid https://www.googleapis.com/auth/userinfo.profile https://www.googleapis.com/auth/userinfo.email';
+
 // Google OAuth scopes required for Drive operations
-export const GOOGLE_SCOPE = 'openid https://www.googleapis.com/auth/userinfo.profile https://www.googleapis.com/auth/userinfo.email https://www.googleapis.com/auth/drive';
+export const GOOGLE_SCOPE = `${IDENTITY_SCOPE} https://www.googleapis.com/auth/drive`;
+
+// Scopes requested in read-only mode: Drive content and metadata can be read but not changed
+export const GOOGLE_READONLY_SCOPE = `${IDENTITY_SCOPE} https://www.googleapis.com/auth/drive.readonly`;
+
+// Scope profiles: full Drive access, read-only, metadata only (no content), or only files this app created or was given
+export const SCOPE_PROFILES = ['full', 'readonly', 'metadata-readonly', 'file-only'] as const;
+
+export type ScopeProfile = (typeof SCOPE_PROFILES)[number];
+
+export const GOOGLE_PROFILE_SCOPES: Record<ScopeProfile, string> = {
+  full: GOOGLE_SCOPE,
+  readonly: GOOGLE_READONLY_SCOPE,
+  'metadata-readonly': `${IDENTITY_SCOPE} https://www.googleapis.com/auth/drive.metadata.readonly`,
+  'file-only': `${IDENTITY_SCOPE} https://www.googleapis.com/auth/drive.file`,
+};
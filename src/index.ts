@@ -3,7 +3,7 @@ import { createHTTPServer } from './setup/http.ts';
 import { createStdioServer } from './setup/stdio.ts';
 import type { ServerConfig } from './types.ts';
 
-export { GOOGLE_SCOPE } from './constants.ts';
+export { GOOGLE_PROFILE_SCOPES, GOOGLE_READONLY_SCOPE, GOOGLE_SCOPE, SCOPE_PROFILES, type ScopeProfile } from './constants.ts';
 export * as mcp from './mcp/index.ts';
 export * as schemas from './schemas/index.ts';
 export * as setup from './setup/index.ts';
@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import type { drive_v3 } from 'googleapis';
+import type { Keyv } from 'keyv';
+import * as path from 'path';
+import { type BatchOptions, batchGetFiles } from './drive-batch.ts';
+
+/** Longest string argument kept verbatim (upload and update content is truncated) */
+export const MAX_AUDIT_STRING_LENGTH = 500;
+
+/** Entries kept by Keyv-backed audit logs; file logs grow until rotated externally */
+export const DEFAULT_MAX_AUDIT_ENTRIES = 10000;
+
+// Tools that change where items live; their items' parents are captured before and after the call
+export const RELOCATING_TOOLS = ['file-move', 'file-move-to-trash', 'file-restore', 'operation-undo'];
+
+/** Parents of an item before and after a relocating call */
+export interface AuditParents {
+  before?: string[];
+  after?: string[];
+}
+
+/** One mutating tool call */
+export interface AuditEntry {
+  id: string;
+  /** ISO 8601 time the call started */
+  timestamp: string;
+  accountId?: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  status: 'success' | 'error';
+  /** Structured tool result, including per-item successes and failures */
+  result?: unknown;
+  error?: { message: string; code?: number };
+  /** Before/after parents by item ID, for relocating tools */
+  parents?: Record<string, AuditParents>;
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  tool?: string;
+  accountId?: string;
+  status?: AuditEntry['status'];
+  /** Only entries at or after this ISO 8601 time */
+  since?: string;
+  limit?: number;
+}
+
+export interface AuditLog {
+  record(entry: AuditEntry): Promise<void>;
+  /** Matching entries, newest first */
+  query(query?: AuditQuery): Promise<AuditEntry[]>;
+}
+
+export function createAuditEntryId(): string {
+  return randomUUID();
+}
+
+/**
+ * Copy tool arguments for the log, truncating long strings such as file content
+ */
+export function sanitizeAuditArguments(value: unknown): unknown {
+  if (typeof value === 'string') return value.length > MAX_AUDIT_STRING_LENGTH ? `${value.slice(0, MAX_AUDIT_STRING_LENGTH)}… (${value.length} chars)` : value;
+  if (Array.isArray(value)) return value.map(sanitizeAuditArguments);
+  if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, sanitizeAuditArguments(v)]));
+  return value;
+}
+
+/**
+ * Item IDs a call acts on, from its fileId, fileIds or ids argument
+ * (operation-undo names none; its items come from the journaled operation)
+ */
+export function auditedItemIds(args: Record<string, unknown>): string[] {
+  const ids = [args.fileId, args.fileIds, args.ids].flatMap((value) => (Array.isArray(value) ? value : [value]));
+  return [...new Set(ids.filter((id): id is string => typeof id === 'string' && id.length > 0))];
+}
+
+/**
+ * Current parents of items, read through the batch endpoint. Items that cannot be read are left out.
+ */
+export async function captureParents(drive: drive_v3.Drive, fileIds: string[], options: BatchOptions = {}): Promise<Record<string, string[]>> {
+  if (fileIds.length === 0) return {};
+  const files = await batchGetFiles(drive, fileIds, 'id,parents', options);
+  const parents: Record<string, string[]> = {};
+  for (const [id, file] of files) {
+    if (!(file instanceof Error)) parents[id] = file.parents ?? [];
+  }
+  return parents;
+}
+
+function matchesQuery(entry: AuditEntry, { tool, accountId, status, since }: AuditQuery): boolean {
+  if (tool && entry.tool !== tool) return false;
+  if (accountId !== undefined && entry.accountId !== accountId) return false;
+  if (status && entry.status !== status) return false;
+  if (isBefore(entry, since)) return false;
+  return true;
+}
+
+// Entries are appended in time order, so a newest-first scan can stop at the first one before since
+function isBefore(entry: AuditEntry, since: string | undefined): boolean {
+  return since !== undefined && Date.parse(entry.timestamp) < Date.parse(since);
+}
+
+/** Bytes read per step when scanning a file audit log from its end */
+const READ_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Lines of a file from last to first, read in chunks from the end so queries
+ * stop at their limit without loading the whole (ever-growing) log
+ */
+async function* readLinesBackwards(filePath: string): AsyncGenerator<string> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    let position = (await handle.stat()).size;
+    let partial = Buffer.alloc(0);
+    while (position > 0) {
+      const length = Math.min(READ_CHUNK_BYTES, position);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      await handle.read(chunk, 0, length, position);
+      // Splitting bytes on \n is safe in UTF-8: it never occurs inside a multi-byte character
+      const buffer = Buffer.concat([chunk, partial]);
+      let end = buffer.length;
+      for (let i = buffer.length - 1; i >= 0; i--) {
+        if (buffer[i] !== 0x0a) continue;
+        yield buffer.subarray(i + 1, end).toString('utf8');
+        end = i;
+      }
+      partial = buffer.subarray(0, end);
+    }
+    if (partial.length > 0) yield partial.toString('utf8');
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Append entries as JSON lines to a file. Writes are queued so lines never interleave.
+ */
+export function createFileAuditLog(filePath: string): AuditLog {
+  let pending: Promise<void> = Promise.resolve();
+
+  return {
+    record(entry) {
+      const write = pending.then(async () => {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.appendFile(filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+      });
+      pending = write.catch(() => {});
+      return write;
+    },
+    async query(query = {}) {
+      await pending;
+      const entries: AuditEntry[] = [];
+      try {
+        for await (const line of readLinesBackwards(filePath)) {
+          if (!line.trim()) continue;
+          let entry: AuditEntry;
+          try {
+            entry = JSON.parse(line) as AuditEntry;
+          } catch {
+            continue;
+          }
+          if (isBefore(entry, query.since)) break;
+          if (!matchesQuery(entry, query)) continue;
+          entries.push(entry);
+          if (entries.length >= (query.limit ?? Infinity)) break;
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+      return entries;
+    },
+  };
+}
+
+const INDEX_KEY = 'audit-log:index';
+
+function entryKey(id: string): string {
+  return `audit-log:${id}`;
+}
+
+/**
+ * Keep the most recent entries in a Keyv store.
+ * Keyv stores are not reliably iterable, so entry IDs are tracked in an index entry, oldest first.
+ */
+export function createKeyvAuditLog(store: Keyv<unknown>, options: { maxEntries?: number } = {}): AuditLog {
+  const { maxEntries = DEFAULT_MAX_AUDIT_ENTRIES } = options;
+  let pending: Promise<void> = Promise.resolve();
+
+  async function readIndex(): Promise<string[]> {
+    const ids = await store.get(INDEX_KEY);
+    return Array.isArray(ids) ? (ids as string[]) : [];
+  }
+
+  return {
+    record(entry) {
+      const write = pending.then(async () => {
+        await store.set(entryKey(entry.id), entry);
+        const ids = [...(await readIndex()), entry.id];
+        const expired = ids.splice(0, Math.max(0, ids.length - maxEntries));
+        await store.set(INDEX_KEY, ids);
+        await Promise.all(expired.map((id) => store.delete(entryKey(id))));
+      });
+      pending = write.catch(() => {});
+      return write;
+    },
+    async query(query = {}) {
+      await pending;
+      const ids = await readIndex();
+      const entries: AuditEntry[] = [];
+      for (let i = ids.length - 1; i >= 0 && entries.length < (query.limit ?? Infinity); i--) {
+        const id = ids[i];
+        const entry = id ? ((await store.get(entryKey(id))) as AuditEntry | undefined) : undefined;
+        if (entry && isBefore(entry, query.since)) break;
+        if (entry && matchesQuery(entry, query)) entries.push(entry);
+      }
+      return entries;
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import type { Keyv } from 'keyv';
+
+/** Saved change feed position for an account (and optionally a shared drive) */
+export interface ChangeCursor {
+  pageToken: string;
+  savedAt: string;
+}
+
+export interface ChangeCursorStore {
+  get(accountId: string, driveId?: string | undefined): Promise<ChangeCursor | undefined>;
+  set(accountId: string, pageToken: string, options?: { driveId?: string | undefined; savedAt?: string | undefined }): Promise<ChangeCursor>;
+}
+
+/**
+ * Build the storage key for a change cursor.
+ * Follows the "{accountId}:{service}:{type}" layout of token keys but with a
+ * distinct type so token listing utilities ignore it.
+ */
+export function changeCursorKey(accountId: string, service: string, driveId?: string): string {
+  return `${accountId}:${service}:changes-cursor:${driveId ?? 'all'}`;
+}
+
+/**
+ * Persist change feed cursors per account in a Keyv store (the token store at runtime)
+ */
+export function createChangeCursorStore(store: Keyv<unknown>, service: string): ChangeCursorStore {
+  return {
+    async get(accountId, driveId) {
+      const value = (await store.get(changeCursorKey(accountId, service, driveId))) as Partial<ChangeCursor> | undefined;
+      if (!value || typeof value.pageToken !== 'string') return undefined;
+      return { pageToken: value.pageToken, savedAt: value.savedAt ?? new Date(0).toISOString() };
+    },
+    async set(accountId, pageToken, { driveId, savedAt } = {}) {
+      const cursor: ChangeCursor = { pageToken, savedAt: savedAt ?? new Date().toISOString() };
+      await store.set(changeCursorKey(accountId, service, driveId), cursor);
+      return cursor;
+    },
+  };
+}
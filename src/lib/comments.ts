@@ -0,0 +1,46 @@
+import type { drive_v3 } from 'googleapis';
+import type { DriveComment, DriveCommentReply } from '../schemas/index.ts';
+
+export const REPLY_API_FIELDS = 'id,content,author(displayName,emailAddress,me),createdTime,modifiedTime,action,deleted';
+
+export const COMMENT_API_FIELDS = `id,content,author(displayName,emailAddress,me),createdTime,modifiedTime,resolved,quotedFileContent,anchor,deleted,replies(${REPLY_API_FIELDS})`;
+
+function toAuthor(u: drive_v3.Schema$User): NonNullable<DriveComment['author']> {
+  const author: NonNullable<DriveComment['author']> = {};
+  if (u.displayName) author.displayName = u.displayName;
+  if (u.emailAddress) author.emailAddress = u.emailAddress;
+  if (u.me != null) author.me = u.me;
+  return author;
+}
+
+/**
+ * Convert a raw Drive API reply into the DriveCommentReplySchema shape
+ */
+export function toDriveCommentReply(r: drive_v3.Schema$Reply): DriveCommentReply {
+  const result: DriveCommentReply = { id: r.id ?? 'unknown' };
+  if (r.content) result.content = r.content;
+  if (r.author) result.author = toAuthor(r.author);
+  if (r.createdTime) result.createdTime = r.createdTime;
+  if (r.modifiedTime) result.modifiedTime = r.modifiedTime;
+  if (r.action) result.action = r.action;
+  if (r.deleted) result.deleted = r.deleted;
+  return result;
+}
+
+/**
+ * Convert a raw Drive API comment into the DriveCommentSchema shape.
+ * Deleted replies are dropped since their content is no longer available.
+ */
+export function toDriveComment(c: drive_v3.Schema$Comment): DriveComment {
+  const result: DriveComment = { id: c.id ?? 'unknown' };
+  if (c.content) result.content = c.content;
+  if (c.author) result.author = toAuthor(c.author);
+  if (c.createdTime) result.createdTime = c.createdTime;
+  if (c.modifiedTime) result.modifiedTime = c.modifiedTime;
+  result.resolved = c.resolved ?? false;
+  if (c.quotedFileContent?.value) result.quotedContent = c.quotedFileContent.value;
+  if (c.anchor) result.anchor = c.anchor;
+  const replies = (c.replies ?? []).filter((r) => !r.deleted);
+  if (replies.length > 0) result.replies = replies.map(toDriveCommentReply);
+  return result;
+}
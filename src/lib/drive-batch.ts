@@ -0,0 +1,221 @@
+import { randomUUID } from 'crypto';
+import type { drive_v3 } from 'googleapis';
+import type { Logger } from '../types.ts';
+import { backoffDelay, DEFAULT_RETRY_OPTIONS, isIdempotentRequest, isRateLimitedResponse, isRetryableResponse, type RetryOptions } from './rate-limit.ts';
+
+/** Drive accepts at most this many sub-requests per batch call */
+export const MAX_BATCH_REQUESTS = 100;
+
+const DEFAULT_ROOT_URL = 'https://www.googleapis.com/';
+
+/** One sub-request of a Drive batch call */
+export interface BatchRequest {
+  method: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  /** Path below the root URL, e.g. /drive/v3/files/{fileId} */
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+}
+
+/** One sub-response of a Drive batch call, in request order */
+export interface BatchResponse {
+  status: number;
+  body: unknown;
+}
+
+/** The part of an auth client (OAuth2Client, JWT) used to send batch calls */
+export interface BatchClient {
+  request<T>(options: { url: string; method: 'POST'; headers: Record<string, string>; data: string; responseType: 'text' }): Promise<{ data: T; headers: Headers }>;
+}
+
+export interface BatchOptions {
+  /** Backoff for retrying rate-limited (and idempotent 5xx) sub-requests */
+  retry?: Partial<RetryOptions>;
+  logger?: Logger;
+}
+
+const CRLF = '\r\n';
+
+function requestLine(request: BatchRequest): string {
+  const query = Object.entries(request.query ?? {})
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return `${request.method} ${request.path}${query ? `?${query}` : ''} HTTP/1.1`;
+}
+
+/**
+ * Encode sub-requests as a multipart/mixed batch body.
+ * Each part carries Content-ID <item-N> so responses can be matched back to requests.
+ */
+export function encodeBatchBody(requests: BatchRequest[], boundary: string): string {
+  const parts = requests.map((request, index) => {
+    const lines = [`--${boundary}`, 'Content-Type: application/http', `Content-ID: <item-${index}>`, '', requestLine(request)];
+    if (request.body !== undefined) {
+      lines.push('Content-Type: application/json; charset=UTF-8', '', JSON.stringify(request.body));
+    } else {
+      lines.push('');
+    }
+    return lines.join(CRLF);
+  });
+  return `${parts.join(CRLF)}${CRLF}--${boundary}--${CRLF}`;
+}
+
+function splitHead(text: string): { head: string; body: string } {
+  const match = /\r?\n\r?\n/.exec(text);
+  if (!match) return { head: text, body: '' };
+  return { head: text.slice(0, match.index), body: text.slice(match.index + match[0].length) };
+}
+
+function headerValue(head: string, name: string): string | undefined {
+  const pattern = new RegExp(`^${name}:\\s*(.*)$`, 'im');
+  return pattern.exec(head)?.[1]?.trim();
+}
+
+/**
+ * Decode a multipart/mixed batch response into sub-responses ordered like the requests.
+ * Parts without a recognizable Content-ID keep their position in the body.
+ */
+export function decodeBatchBody(body: string, contentType: string): BatchResponse[] {
+  const boundary = /boundary="?([^";]+)"?/i.exec(contentType)?.[1];
+  if (!boundary) throw new Error(`Batch response has no multipart boundary: ${contentType}`);
+
+  const parts = body
+    .split(`--${boundary}`)
+    .slice(1)
+    .filter((part) => !part.startsWith('--'));
+
+  const indexed: Array<{ index: number; response: BatchResponse }> = parts.map((part, position) => {
+    const outer = splitHead(part.replace(/^\r?\n/, ''));
+    const contentId = headerValue(outer.head, 'Content-ID');
+    const idMatch = contentId ? /item-(\d+)/.exec(contentId) : null;
+    const inner = splitHead(outer.body);
+    const statusLine = inner.head.split(/\r?\n/)[0] ?? '';
+    const status = Number(/^HTTP\/[\d.]+\s+(\d{3})/.exec(statusLine)?.[1] ?? 0);
+    const text = inner.body.replace(/\r?\n$/, '');
+    let parsed: unknown = text;
+    if (/json/i.test(headerValue(inner.head, 'Content-Type') ?? '') && text.trim()) {
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        parsed = text;
+      }
+    }
+    return { index: idMatch ? Number(idMatch[1]) : position, response: { status, body: parsed } };
+  });
+
+  return indexed.sort((a, b) => a.index - b.index).map((x) => x.response);
+}
+
+/**
+ * Convert a failed sub-response into an Error carrying the Drive error message and code
+ */
+export function batchResponseError(response: BatchResponse): Error & { code?: number } {
+  const body = response.body as { error?: { message?: string; code?: number } } | string | undefined;
+  const message = typeof body === 'object' && body?.error?.message ? body.error.message : typeof body === 'string' && body ? body : `Request failed with status ${response.status}`;
+  return Object.assign(new Error(message), { code: response.status });
+}
+
+/**
+ * The auth client and batch URL behind a googleapis Drive instance.
+ * Returns undefined when the instance has no auth client able to send requests.
+ */
+export function getBatchClient(drive: drive_v3.Drive): { client: BatchClient; url: string } | undefined {
+  const options = drive.context?._options;
+  const auth = options?.auth as unknown as Partial<BatchClient> | string | undefined;
+  if (!auth || typeof auth === 'string' || typeof auth.request !== 'function') return undefined;
+  const rootUrl = options.rootUrl ?? DEFAULT_ROOT_URL;
+  return { client: auth as BatchClient, url: `${rootUrl.replace(/\/?$/, '/')}batch/drive/v3` };
+}
+
+async function sendBatch(batch: { client: BatchClient; url: string }, requests: BatchRequest[]): Promise<BatchResponse[]> {
+  const responses: BatchResponse[] = [];
+  for (let start = 0; start < requests.length; start += MAX_BATCH_REQUESTS) {
+    const chunk = requests.slice(start, start + MAX_BATCH_REQUESTS);
+    const boundary = `batch_${randomUUID()}`;
+    const response = await batch.client.request<string>({
+      url: batch.url,
+      method: 'POST',
+      headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+      data: encodeBatchBody(chunk, boundary),
+      responseType: 'text',
+    });
+    const decoded = decodeBatchBody(response.data, response.headers.get('content-type') ?? '');
+    if (decoded.length !== chunk.length) throw new Error(`Batch returned ${decoded.length} responses for ${chunk.length} requests`);
+    responses.push(...decoded);
+  }
+  return responses;
+}
+
+/**
+ * Send sub-requests through the Drive batch endpoint, MAX_BATCH_REQUESTS per call.
+ * Calls run one after another; sub-responses come back in request order.
+ * Rate-limited sub-requests are re-sent on their own with backoff, as are 5xx sub-requests
+ * when idempotent (a failed PATCH or POST may still have been applied).
+ */
+export async function executeDriveBatch(drive: drive_v3.Drive, requests: BatchRequest[], options: BatchOptions = {}): Promise<BatchResponse[]> {
+  const batch = getBatchClient(drive);
+  if (!batch) throw new Error('Batch requests need an auth client');
+  const retry: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+  const sleep = retry.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  const responses: BatchResponse[] = new Array(requests.length);
+  let pending = requests.map((_, index) => index);
+  let retriedItems = 0;
+  for (let attempt = 0; pending.length > 0; attempt++) {
+    if (attempt > 0) {
+      const delayMs = backoffDelay(attempt - 1, retry);
+      options.logger?.warn('Drive batch sub-requests rate limited, retrying', { count: pending.length, retry: attempt, delayMs });
+      retriedItems += pending.length;
+      await sleep(delayMs);
+    }
+    const sent = await sendBatch(
+      batch,
+      pending.map((index) => requests[index] as BatchRequest)
+    );
+    const retryable: number[] = [];
+    sent.forEach((response, position) => {
+      const index = pending[position] as number;
+      responses[index] = response;
+      const isRetryable = isIdempotentRequest((requests[index] as BatchRequest).method) ? isRetryableResponse : isRateLimitedResponse;
+      if (attempt < retry.maxRetries && isRetryable(response.status, response.body)) retryable.push(index);
+    });
+    pending = retryable;
+  }
+  if (retriedItems > 0) options.logger?.info('Drive batch completed after retries', { requests: requests.length, retriedItems });
+  return responses;
+}
+
+/**
+ * Fetch metadata for many files, batching when the Drive instance has an auth client
+ * and falling back to one files.get per ID otherwise. Failures are returned as Errors.
+ */
+export async function batchGetFiles(drive: drive_v3.Drive, fileIds: string[], fields: string, options: BatchOptions = {}): Promise<Map<string, drive_v3.Schema$File | Error>> {
+  const results = new Map<string, drive_v3.Schema$File | Error>();
+  if (fileIds.length === 0) return results;
+
+  if (!getBatchClient(drive)) {
+    await Promise.all(
+      fileIds.map(async (fileId) => {
+        try {
+          const response = await drive.files.get({ fileId, fields, supportsAllDrives: true });
+          results.set(fileId, response.data);
+        } catch (e) {
+          results.set(fileId, e instanceof Error ? e : new Error(String(e)));
+        }
+      })
+    );
+    return results;
+  }
+
+  const responses = await executeDriveBatch(
+    drive,
+    fileIds.map((fileId) => ({ method: 'GET' as const, path: `/drive/v3/files/${encodeURIComponent(fileId)}`, query: { fields, supportsAllDrives: true } })),
+    options
+  );
+  responses.forEach((response, index) => {
+    const fileId = fileIds[index] as string;
+    results.set(fileId, response.status >= 200 && response.status < 300 ? (response.body as drive_v3.Schema$File) : batchResponseError(response));
+  });
+  return results;
+}
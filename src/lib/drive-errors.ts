@@ -0,0 +1,91 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { DriveErrorBranch, DriveErrorKind } from '../schemas/index.ts';
+import { errorStatus, isRetryableResponse } from './rate-limit.ts';
+
+/**
+ * MCP error codes for Drive failures, in the JSON-RPC server error range.
+ * Invalid requests use the standard InvalidParams code.
+ */
+export const DriveErrorCode = {
+  Unauthenticated: -32010,
+  PermissionDenied: -32011,
+  NotFound: -32012,
+  RateLimited: -32013,
+  Unavailable: -32014,
+  InsufficientScope: -32015,
+} as const;
+
+const MCP_ERROR_CODES: Record<DriveErrorKind, number> = {
+  invalid_request: ErrorCode.InvalidParams,
+  unauthenticated: DriveErrorCode.Unauthenticated,
+  insufficient_scope: DriveErrorCode.InsufficientScope,
+  permission_denied: DriveErrorCode.PermissionDenied,
+  not_found: DriveErrorCode.NotFound,
+  rate_limited: DriveErrorCode.RateLimited,
+  unavailable: DriveErrorCode.Unavailable,
+  unknown: ErrorCode.InternalError,
+};
+
+export interface DriveErrorInfo {
+  kind: DriveErrorKind;
+  message: string;
+  /** HTTP status of the Drive response */
+  status?: number;
+  /** First Drive error reason, e.g. insufficientFilePermissions */
+  reason?: string;
+  /** Whether the same call may succeed later */
+  retryable: boolean;
+}
+
+interface DriveErrorBody {
+  error?: { message?: string; errors?: Array<{ reason?: string; message?: string }>; details?: Array<{ reason?: string }> };
+}
+
+// Reasons Drive gives when the token's scopes do not cover the call (file access problems use insufficientFilePermissions)
+const INSUFFICIENT_SCOPE_REASONS = ['insufficientPermissions', 'ACCESS_TOKEN_SCOPE_INSUFFICIENT'];
+
+/**
+ * Classify a googleapis/gaxios error (or a batch sub-response error) by HTTP status and reason
+ */
+export function classifyDriveError(error: unknown): DriveErrorInfo {
+  const message = error instanceof Error ? error.message : String(error);
+  const status = errorStatus(error);
+  const body = (error as { response?: { data?: unknown } } | undefined)?.response?.data as DriveErrorBody | undefined;
+  const reason = body?.error?.errors?.[0]?.reason;
+  const info = { message, ...(status !== undefined && { status }), ...(reason && { reason }) };
+
+  if (status === undefined) return { ...info, kind: 'unknown', retryable: false };
+  if (isRetryableResponse(status, body)) return { ...info, kind: status >= 500 ? 'unavailable' : 'rate_limited', retryable: true };
+  if (status === 400) return { ...info, kind: 'invalid_request', retryable: false };
+  if (status === 401) return { ...info, kind: 'unauthenticated', retryable: false };
+  if (status === 403) {
+    const reasons = [reason, ...(body?.error?.details ?? []).map((detail) => detail.reason)];
+    const kind = reasons.some((r) => r && INSUFFICIENT_SCOPE_REASONS.includes(r)) ? 'insufficient_scope' : 'permission_denied';
+    return { ...info, kind, retryable: false };
+  }
+  if (status === 404) return { ...info, kind: 'not_found', retryable: false };
+  return { ...info, kind: 'unknown', retryable: false };
+}
+
+/**
+ * MCP error for a failed Drive call: "<context>: <message>" with the MCP code for
+ * its kind, and the classification in data. McpErrors pass through unchanged.
+ */
+export function toMcpError(error: unknown, context: string): McpError {
+  if (error instanceof McpError) return error;
+  const { kind, message, status, reason, retryable } = classifyDriveError(error);
+  return new McpError(MCP_ERROR_CODES[kind], `${context}: ${message}`, {
+    kind,
+    ...(status !== undefined && { status }),
+    ...(reason && { reason }),
+    retryable,
+    stack: error instanceof Error ? error.stack : undefined,
+  });
+}
+
+/**
+ * Output branch for tools that report classified Drive failures as results
+ */
+export function toErrorBranch(info: DriveErrorInfo): DriveErrorBranch {
+  return { type: 'error', ...info };
+}
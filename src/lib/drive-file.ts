@@ -0,0 +1,132 @@
+import type { drive_v3 } from 'googleapis';
+import type { DriveFile, DriveScope } from '../schemas/index.ts';
+import type { Logger } from '../types.ts';
+import { batchGetFiles } from './drive-batch.ts';
+import { toListScope } from './drive-scope.ts';
+import { type AccountMetadataCache, ITEM_METADATA_API_FIELDS, toItemMetadata } from './metadata-cache.ts';
+
+/** Drive API field mask matching DriveFileSchema items returned by search tools */
+export const DRIVE_FILE_API_FIELDS = 'id,name,mimeType,webViewLink,modifiedTime,parents,shared,starred,owners,driveId';
+
+/**
+ * Collect unique parent IDs (excluding "root") from a list of Drive files
+ */
+export function collectParentIds(files: drive_v3.Schema$File[]): string[] {
+  const parentIds = new Set<string>();
+  for (const f of files) {
+    for (const parentId of f?.parents ?? []) {
+      if (parentId && parentId !== 'root') parentIds.add(parentId);
+    }
+  }
+  return Array.from(parentIds);
+}
+
+/**
+ * Fetch display names for parent folders, falling back to the ID on failure.
+ * Names already in the metadata cache are not fetched again; the rest are
+ * fetched through the Drive batch endpoint.
+ */
+export async function fetchParentNames(drive: drive_v3.Drive, parentIds: string[], logger: Logger, cache?: AccountMetadataCache): Promise<Map<string, string>> {
+  const parentNameMap = new Map<string, string>();
+  const missing: string[] = [];
+  for (const parentId of parentIds) {
+    const cached = await cache?.get(parentId);
+    if (cached) parentNameMap.set(parentId, cached.name);
+    else missing.push(parentId);
+  }
+  if (missing.length === 0) return parentNameMap;
+
+  logger.info('Fetching parent names', { count: missing.length });
+  let fetched: Map<string, drive_v3.Schema$File | Error>;
+  try {
+    fetched = await batchGetFiles(drive, missing, ITEM_METADATA_API_FIELDS, { logger });
+  } catch (e) {
+    logger.info('Failed to fetch parent names', { count: missing.length, error: e });
+    fetched = new Map();
+  }
+
+  for (const parentId of missing) {
+    const file = fetched.get(parentId);
+    if (!file || file instanceof Error) {
+      logger.info('Failed to fetch parent name', { parentId, error: file });
+      parentNameMap.set(parentId, parentId); // Fallback to ID
+      continue;
+    }
+    const item = toItemMetadata(file, parentId);
+    await cache?.set(item);
+    parentNameMap.set(parentId, item.name);
+  }
+  return parentNameMap;
+}
+
+/**
+ * Convert a raw Drive API file into the DriveFileSchema shape.
+ * Only properties with actual values are included.
+ */
+export function toDriveFile(f: drive_v3.Schema$File, parentNameMap: Map<string, string> = new Map()): DriveFile {
+  const id = f?.id ? String(f.id) : 'unknown';
+  const name = f?.name || id;
+  const result: DriveFile = { id, name };
+
+  if (f?.mimeType) result.mimeType = f.mimeType;
+  if (f?.webViewLink) result.webViewLink = f.webViewLink;
+  if (f?.webContentLink) result.webContentLink = f.webContentLink;
+  if (f?.modifiedTime) result.modifiedTime = f.modifiedTime;
+  if (f?.createdTime) result.createdTime = f.createdTime;
+  if (f?.size) result.size = f.size;
+  if (f?.version) result.version = f.version;
+
+  if (f?.parents && f.parents.length > 0) {
+    result.parents = f.parents.map((parentId) => {
+      if (parentId === 'root') {
+        return { id: 'root', name: 'My Drive' };
+      }
+      return { id: parentId, name: parentNameMap.get(parentId) || parentId };
+    });
+  }
+
+  if (f?.shared != null) result.shared = f.shared;
+  if (f?.starred != null) result.starred = f.starred;
+  if (f?.trashed != null) result.trashed = f.trashed;
+  if (f?.driveId) result.driveId = f.driveId;
+
+  if (f?.owners && f.owners.length > 0) {
+    result.owners = f.owners.map((o) => {
+      const owner: NonNullable<DriveFile['owners']>[number] = {};
+      if (o?.displayName) owner.displayName = o.displayName;
+      if (o?.emailAddress) owner.emailAddress = o.emailAddress;
+      if (o?.kind) owner.kind = o.kind;
+      if (o?.me != null) owner.me = o.me;
+      if (o?.permissionId) owner.permissionId = o.permissionId;
+      if (o?.photoLink) owner.photoLink = o.photoLink;
+      return owner;
+    });
+  }
+
+  return result;
+}
+
+export interface FolderListing {
+  items: DriveFile[];
+  nextPageToken?: string;
+}
+
+/**
+ * List one page of a folder's children, folders first, with parent names resolved
+ */
+export async function listFolderItems(drive: drive_v3.Drive, options: DriveScope & { folderId: string; pageSize: number; pageToken?: string | undefined }, logger: Logger, cache?: AccountMetadataCache): Promise<FolderListing> {
+  const { folderId, pageSize, pageToken, driveId, corpora } = options;
+  const response = await drive.files.list({
+    ...toListScope({ driveId, corpora }),
+    q: `'${folderId}' in parents and trashed = false`,
+    pageSize: Math.min(1000, pageSize),
+    fields: `files(${DRIVE_FILE_API_FIELDS}),nextPageToken`,
+    orderBy: 'folder,name', // Folders first, then by name
+    ...(pageToken && pageToken.trim().length > 0 && { pageToken }),
+  });
+
+  const files = response.data.files ?? [];
+  const parentNameMap = await fetchParentNames(drive, collectParentIds(files), logger, cache);
+  const nextPageToken = response.data.nextPageToken && response.data.nextPageToken.trim().length > 0 ? response.data.nextPageToken : undefined;
+  return { items: files.map((f) => toDriveFile(f, parentNameMap)), ...(nextPageToken && { nextPageToken }) };
+}
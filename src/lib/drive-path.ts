@@ -0,0 +1,218 @@
+import type { drive_v3 } from 'googleapis';
+import { FOLDER_MIME_TYPE } from './file-content.ts';
+
+/** Drive item a human-readable path resolved to */
+export interface ResolvedDrivePath {
+  id: string;
+  name: string;
+  mimeType: string;
+  driveId?: string;
+}
+
+const MY_DRIVE = 'My Drive';
+
+/**
+ * Split a slash-separated Drive path into name segments, taken literally (no URI decoding).
+ * A leading "My Drive" segment is dropped since paths start at My Drive by default.
+ */
+export function splitDrivePath(path: string): string[] {
+  const segments = path
+    .split('/')
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+  return segments[0] === MY_DRIVE ? segments.slice(1) : segments;
+}
+
+function quote(value: string): string {
+  // Escape backslashes and single quotes for Drive query syntax
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+// Matches fetched per path segment; more than one means the name is ambiguous
+const MATCH_PAGE_SIZE = 10;
+
+function ambiguousError(path: string, name: string, ids: Array<string | null | undefined>): Error {
+  return new Error(`Ambiguous path "${path}": ${ids.length} items named "${name}" (${ids.join(', ')}). Use an ID instead`);
+}
+
+async function findChild(drive: drive_v3.Drive, parentId: string, name: string, options: { path: string; driveId?: string | undefined; folderOnly: boolean }): Promise<drive_v3.Schema$File | undefined> {
+  const { path, driveId, folderOnly } = options;
+  const response = await drive.files.list({
+    q: `${quote(parentId)} in parents and name = ${quote(name)} and trashed = false${folderOnly ? ` and mimeType = '${FOLDER_MIME_TYPE}'` : ''}`,
+    fields: 'files(id,name,mimeType,driveId)',
+    pageSize: MATCH_PAGE_SIZE,
+    supportsAllDrives: true,
+    includeItemsFromAllDrives: true,
+    ...(driveId ? { corpora: 'drive', driveId } : { corpora: 'user' }),
+  });
+  const files = response.data.files ?? [];
+  if (files.length > 1)
+    throw ambiguousError(
+      path,
+      name,
+      files.map((f) => f.id)
+    );
+  return files[0];
+}
+
+async function findSharedDrive(drive: drive_v3.Drive, path: string, name: string): Promise<drive_v3.Schema$Drive | undefined> {
+  const response = await drive.drives.list({ q: `name = ${quote(name)}`, fields: 'drives(id,name)', pageSize: MATCH_PAGE_SIZE });
+  const drives = response.data.drives ?? [];
+  if (drives.length > 1)
+    throw ambiguousError(
+      path,
+      name,
+      drives.map((d) => d.id)
+    );
+  return drives[0];
+}
+
+async function createFolder(drive: drive_v3.Drive, parentId: string, name: string): Promise<drive_v3.Schema$File> {
+  const response = await drive.files.create({
+    requestBody: { name, mimeType: FOLDER_MIME_TYPE, parents: [parentId] },
+    fields: 'id,name,mimeType,parents,driveId',
+    supportsAllDrives: true,
+  });
+  return response.data;
+}
+
+/** How far a path exists: the deepest item found and the names below it that were not */
+export interface DrivePathWalk {
+  item: ResolvedDrivePath;
+  /** Names of the segments not found, outermost first (empty when the whole path exists) */
+  missing: string[];
+}
+
+/**
+ * Walk a path like "Work/Projects/Plan.md" from My Drive as far as it exists.
+ * When the first segment is not in My Drive it is matched against shared drive names.
+ * Only the last segment may be a file, unless foldersOnly is set.
+ * Throws when a segment matches more than one item.
+ */
+export async function walkDrivePath(drive: drive_v3.Drive, path: string, options: { foldersOnly?: boolean } = {}): Promise<DrivePathWalk> {
+  const { foldersOnly = false } = options;
+  const segments = splitDrivePath(path);
+  let current: ResolvedDrivePath = { id: 'root', name: MY_DRIVE, mimeType: FOLDER_MIME_TYPE };
+
+  for (const [index, name] of segments.entries()) {
+    const folderOnly = foldersOnly || index < segments.length - 1;
+    const child = await findChild(drive, current.id, name, { path, driveId: current.driveId, folderOnly });
+
+    if (!child?.id && index === 0) {
+      const sharedDrive = await findSharedDrive(drive, path, name);
+      if (sharedDrive?.id) {
+        current = { id: sharedDrive.id, name: sharedDrive.name || name, mimeType: FOLDER_MIME_TYPE, driveId: sharedDrive.id };
+        continue;
+      }
+    }
+
+    if (!child?.id) return { item: current, missing: segments.slice(index) };
+
+    const driveId = child.driveId || current.driveId;
+    current = { id: child.id, name: child.name || name, mimeType: child.mimeType || 'application/octet-stream', ...(driveId && { driveId }) };
+  }
+
+  return { item: current, missing: [] };
+}
+
+/**
+ * Resolve a folder path, creating missing folders like mkdir -p.
+ * Every segment is treated as a folder; created holds the new folders as Drive
+ * returned them (with parents), outermost first. Pass options.created to collect them
+ * as they are made, so a caller still knows which folders exist when a later step throws.
+ */
+export async function createDrivePath(drive: drive_v3.Drive, path: string, options: { created?: drive_v3.Schema$File[] } = {}): Promise<{ folder: ResolvedDrivePath; created: drive_v3.Schema$File[] }> {
+  const { created = [] } = options;
+  const { item, missing } = await walkDrivePath(drive, path, { foldersOnly: true });
+  let current = item;
+  for (const name of missing) {
+    const folder = await createFolder(drive, current.id, name);
+    if (!folder.id) throw new Error(`Failed to create folder "${name}" in ${path}`);
+    created.push(folder);
+    const driveId = folder.driveId || current.driveId;
+    current = { id: folder.id, name: folder.name || name, mimeType: FOLDER_MIME_TYPE, ...(driveId && { driveId }) };
+  }
+  return { folder: current, created };
+}
+
+/**
+ * Resolve a path like "Work/Projects/Plan.md" to a Drive item (see walkDrivePath).
+ * Returns undefined when a segment cannot be found, unless createMissing is set,
+ * in which case missing folders are created (see createDrivePath).
+ */
+export async function resolveDrivePath(drive: drive_v3.Drive, path: string, options: { createMissing?: boolean } = {}): Promise<ResolvedDrivePath | undefined> {
+  if (options.createMissing) return (await createDrivePath(drive, path)).folder;
+  const { item, missing } = await walkDrivePath(drive, path);
+  return missing.length === 0 ? item : undefined;
+}
+
+/** Prefix marking a tool argument as a path rather than an ID, e.g. "path:/Work/Projects" */
+export const PATH_PREFIX = 'path:';
+
+/** Tool arguments that accept the path: form in place of an ID */
+export const PATH_ARGUMENT_KEYS = ['fileId', 'fileIds', 'folderId', 'parentId', 'destinationFolderId', 'ids'] as const;
+
+/** Tool arguments holding arrays of objects whose ID arguments accept the path: form (e.g. file-update-metadata updates) */
+export const NESTED_PATH_ARGUMENT_KEYS = ['updates'] as const;
+
+export function isPathReference(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(PATH_PREFIX);
+}
+
+function nestedArguments(args: Record<string, unknown>, key: (typeof NESTED_PATH_ARGUMENT_KEYS)[number]): Record<string, unknown>[] {
+  const value = args[key];
+  return Array.isArray(value) ? value.filter((entry): entry is Record<string, unknown> => typeof entry === 'object' && entry !== null) : [];
+}
+
+/**
+ * Whether any ID argument (or element of an ID array, or ID in a nested update) uses the path: form
+ */
+export function hasPathArguments(args: Record<string, unknown>): boolean {
+  const direct = PATH_ARGUMENT_KEYS.some((key) => {
+    const value = args[key];
+    return Array.isArray(value) ? value.some(isPathReference) : isPathReference(value);
+  });
+  return direct || NESTED_PATH_ARGUMENT_KEYS.some((key) => nestedArguments(args, key).some(hasPathArguments));
+}
+
+/**
+ * Replace path: references in ID arguments with the IDs they resolve to.
+ * Throws when a path cannot be found or is ambiguous.
+ */
+export async function resolvePathArguments<T extends Record<string, unknown>>(drive: drive_v3.Drive, args: T): Promise<T> {
+  const resolved = new Map<string, string>();
+  const resolveRef = async (value: unknown): Promise<unknown> => {
+    if (!isPathReference(value)) return value;
+    const path = value.slice(PATH_PREFIX.length);
+    const cached = resolved.get(path);
+    if (cached) return cached;
+    const item = await resolveDrivePath(drive, path);
+    if (!item) throw new Error(`Path not found: ${path}`);
+    resolved.set(path, item.id);
+    return item.id;
+  };
+  const resolveIds = async (source: Record<string, unknown>): Promise<Record<string, unknown>> => {
+    const result: Record<string, unknown> = { ...source };
+    for (const key of PATH_ARGUMENT_KEYS) {
+      const value = source[key];
+      if (Array.isArray(value)) {
+        const ids: unknown[] = [];
+        for (const v of value) ids.push(await resolveRef(v));
+        result[key] = ids;
+      } else if (value !== undefined) {
+        result[key] = await resolveRef(value);
+      }
+    }
+    return result;
+  };
+
+  const result = await resolveIds(args);
+  for (const key of NESTED_PATH_ARGUMENT_KEYS) {
+    const value = args[key];
+    if (!Array.isArray(value)) continue;
+    const entries: unknown[] = [];
+    for (const entry of value) entries.push(typeof entry === 'object' && entry !== null ? await resolveIds(entry as Record<string, unknown>) : entry);
+    result[key] = entries;
+  }
+  return result as T;
+}
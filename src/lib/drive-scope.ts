@@ -0,0 +1,21 @@
+import type { DriveScope } from '../schemas/index.ts';
+
+/** files.list parameters that make shared drive items visible */
+export interface DriveListScope {
+  supportsAllDrives: true;
+  includeItemsFromAllDrives: true;
+  corpora: string;
+  driveId?: string;
+}
+
+/**
+ * Build files.list scope parameters from tool input.
+ * A driveId restricts the listing to that shared drive; otherwise corpora
+ * defaults to allDrives so shared drive items are included.
+ */
+export function toListScope({ driveId, corpora }: DriveScope = {}): DriveListScope {
+  if (driveId) {
+    return { supportsAllDrives: true, includeItemsFromAllDrives: true, corpora: 'drive', driveId };
+  }
+  return { supportsAllDrives: true, includeItemsFromAllDrives: true, corpora: corpora ?? 'allDrives' };
+}
@@ -0,0 +1,115 @@
+import type { drive_v3 } from 'googleapis';
+import type { DryRunBranch, PlannedChange } from '../schemas/index.ts';
+import type { Logger } from '../types.ts';
+import { FOLDER_MIME_TYPE } from './file-content.ts';
+import { resolveFolderPath } from './folder-path.ts';
+import type { AccountMetadataCache } from './metadata-cache.ts';
+
+/** Drive API field mask dry runs read to plan changes and check permissions */
+export const DRY_RUN_API_FIELDS = 'id,name,mimeType,parents,driveId,trashed,capabilities(canTrash,canMoveItemWithinDrive,canMoveItemOutOfDrive,canAddChildren)';
+
+/** Display path of a folder and the IDs from its root down to it */
+export interface FolderLocation {
+  path: string;
+  ancestorIds: string[];
+}
+
+/**
+ * Resolve folder paths for display, once per folder per dry run.
+ * Shared drive paths start with the drive name, as in path: references.
+ */
+export function createPathResolver(drive: drive_v3.Drive, logger: Logger, cache?: AccountMetadataCache): (folderId: string) => Promise<FolderLocation> {
+  const resolved = new Map<string, Promise<FolderLocation>>();
+  return (folderId) => {
+    let location = resolved.get(folderId);
+    if (!location) {
+      location = resolveFolderPath(drive, folderId, logger, cache).then(({ path, segments, driveName }) => ({
+        path: driveName ? `/${driveName}${path === '/' ? '' : path}` : path,
+        ancestorIds: segments.map((segment) => segment.id),
+      }));
+      resolved.set(folderId, location);
+    }
+    return location;
+  };
+}
+
+export function childPath(folderPath: string, name: string): string {
+  return `${folderPath.replace(/\/$/, '')}/${name}`;
+}
+
+/**
+ * Planned change for an item that could not be read
+ */
+export function unreadableChange(fileId: string, error?: Error): PlannedChange {
+  return { fileId, name: fileId, problems: [`Not found or not accessible${error ? `: ${error.message}` : ''}`] };
+}
+
+/**
+ * Reasons moving an item into a destination folder would fail.
+ * A missing destination means it could not be read.
+ */
+export function moveProblems(item: drive_v3.Schema$File, destination: drive_v3.Schema$File | undefined, destinationAncestorIds: string[] = []): string[] {
+  const problems: string[] = [];
+  if (item.trashed) problems.push('Item is in trash');
+  if (!destination) return [...problems, 'Destination folder not found or not accessible'];
+  if (destination.trashed) problems.push('Destination folder is in trash');
+  if (destination.mimeType !== FOLDER_MIME_TYPE) problems.push('Destination is not a folder');
+  if (destination.capabilities?.canAddChildren === false) problems.push('No permission to add items to the destination folder');
+  if (item.id && (item.id === destination.id || destinationAncestorIds.includes(item.id))) problems.push('Cannot move a folder into itself or one of its subfolders');
+  const crossDrive = (item.driveId ?? undefined) !== (destination.driveId ?? undefined);
+  if (crossDrive && item.capabilities?.canMoveItemOutOfDrive === false) problems.push('No permission to move the item out of its drive');
+  if (!crossDrive && item.capabilities?.canMoveItemWithinDrive === false) problems.push('No permission to move the item');
+  return problems;
+}
+
+/**
+ * Reasons trashing an item would fail
+ */
+export function trashProblems(item: drive_v3.Schema$File): string[] {
+  const problems: string[] = [];
+  if (item.trashed) problems.push('Already in trash');
+  if (item.capabilities?.canTrash === false) problems.push('No permission to trash the item');
+  return problems;
+}
+
+/**
+ * Reasons creating an item in a parent folder would fail.
+ * A missing parent means it could not be read.
+ */
+export function createProblems(parent: drive_v3.Schema$File | undefined): string[] {
+  if (!parent) return ['Parent folder not found or not accessible'];
+  const problems: string[] = [];
+  if (parent.trashed) problems.push('Parent folder is in trash');
+  if (parent.mimeType !== FOLDER_MIME_TYPE) problems.push('Parent is not a folder');
+  if (parent.capabilities?.canAddChildren === false) problems.push('No permission to add items to the parent folder');
+  return problems;
+}
+
+/**
+ * Planned changes for creating nested folders in one parent, outermost first:
+ * missing createParents folders, then the requested folder. Problems with the
+ * parent block the first folder, and with it every folder inside it.
+ */
+export function nestedCreateChanges(parentPath: string | undefined, names: string[], parentProblems: string[]): PlannedChange[] {
+  let path = parentPath;
+  return names.map((name, index) => {
+    path = path === undefined ? undefined : childPath(path, name);
+    const problems = parentProblems.length === 0 ? [] : index === 0 ? parentProblems : [`Parent folder "${names[index - 1]}" would not be created`];
+    return { name, ...(path && { destinationPath: path }), ...(problems.length > 0 && { problems }) };
+  });
+}
+
+/**
+ * Build the dry_run result branch, e.g. 'Move 800 items to "/Archive"' becomes
+ * 'Move 800 items to "/Archive": 798 ready, 2 blocked. Nothing was changed (dry run)'
+ */
+export function toDryRunBranch(action: string, changes: PlannedChange[]): DryRunBranch {
+  const totalBlocked = changes.filter((change) => change.problems && change.problems.length > 0).length;
+  return {
+    type: 'dry_run',
+    operationSummary: `${action}: ${changes.length - totalBlocked} ready, ${totalBlocked} blocked. Nothing was changed (dry run)`,
+    changes,
+    totalRequested: changes.length,
+    totalBlocked,
+  };
+}
@@ -0,0 +1,143 @@
+import type { drive_v3 } from 'googleapis';
+
+export const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+export const EXPORT_FORMATS = ['markdown', 'csv', 'text'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Export targets for Google-native files, keyed by source MIME type.
+ * The first format listed for each type is its default.
+ */
+const GOOGLE_EXPORTS: Record<string, Partial<Record<ExportFormat, string>>> = {
+  'application/vnd.google-apps.document': { markdown: 'text/markdown', text: 'text/plain' },
+  'application/vnd.google-apps.spreadsheet': { csv: 'text/csv', text: 'text/tab-separated-values' },
+  'application/vnd.google-apps.presentation': { text: 'text/plain' },
+  'application/vnd.google-apps.drawing': { text: 'image/svg+xml' },
+  'application/vnd.google-apps.script': { text: 'application/vnd.google-apps.script+json' },
+};
+
+const TEXT_MIME_TYPES = new Set(['application/json', 'application/xml', 'application/javascript', 'application/x-javascript', 'application/typescript', 'application/x-yaml', 'application/yaml', 'application/x-sh', 'application/sql', 'application/csv', 'image/svg+xml']);
+
+export function isGoogleNativeMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('application/vnd.google-apps.');
+}
+
+/**
+ * Whether content of this MIME type can be returned as UTF-8 text (vs base64)
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  const base = mimeType.split(';')[0]?.trim().toLowerCase() ?? '';
+  return base.startsWith('text/') || TEXT_MIME_TYPES.has(base) || base.endsWith('+json') || base.endsWith('+xml');
+}
+
+/**
+ * Resolve the export MIME type for a Google-native file.
+ * Returns undefined when the file type (or requested format) cannot be exported.
+ */
+export function resolveExportMimeType(mimeType: string, format?: ExportFormat): string | undefined {
+  const exports = GOOGLE_EXPORTS[mimeType];
+  if (!exports) return undefined;
+  if (format) return exports[format];
+  const defaultFormat = Object.keys(exports)[0] as ExportFormat | undefined;
+  return defaultFormat ? exports[defaultFormat] : undefined;
+}
+
+/**
+ * List export formats supported for a Google-native MIME type
+ */
+export function supportedExportFormats(mimeType: string): ExportFormat[] {
+  return Object.keys(GOOGLE_EXPORTS[mimeType] ?? {}) as ExportFormat[];
+}
+
+export interface FileContent {
+  data: Buffer;
+  /** MIME type of the returned bytes (export type for Google-native files) */
+  mimeType: string;
+  exported: boolean;
+}
+
+/** Largest text file downloaded whole to page through by characters (binary files are read by byte range) */
+export const MAX_TEXT_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+/** Byte range of a download: start inclusive, end exclusive */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Download file bytes, exporting Google-native files to a readable format.
+ * A range limits the download of other files to those bytes; exports are always whole
+ * (Drive caps them at 10 MB).
+ * Throws if a Google-native file has no export for the requested format.
+ */
+export async function fetchFileContent(drive: drive_v3.Drive, file: { id: string; mimeType: string }, format?: ExportFormat, options: { range?: ByteRange } = {}): Promise<FileContent> {
+  if (isGoogleNativeMimeType(file.mimeType)) {
+    const exportMimeType = resolveExportMimeType(file.mimeType, format);
+    if (!exportMimeType) {
+      const supported = supportedExportFormats(file.mimeType);
+      throw new Error(supported.length > 0 ? `Format "${format}" is not supported for ${file.mimeType} (supported: ${supported.join(', ')})` : `Export is not supported for ${file.mimeType}`);
+    }
+    const response = await drive.files.export({ fileId: file.id, mimeType: exportMimeType }, { responseType: 'arraybuffer' });
+    return { data: Buffer.from(response.data as ArrayBuffer), mimeType: exportMimeType, exported: true };
+  }
+
+  const { range } = options;
+  const response = await drive.files.get({ fileId: file.id, alt: 'media', supportsAllDrives: true }, { responseType: 'arraybuffer', ...(range && { headers: { Range: `bytes=${range.start}-${range.end - 1}` } }) });
+  const data = Buffer.from(response.data as ArrayBuffer);
+  // A 200 instead of 206 means the range was ignored and the whole file came back
+  return { data: range && response.status !== 206 ? data.subarray(range.start, range.end) : data, mimeType: file.mimeType, exported: false };
+}
+
+export interface ContentSlice {
+  encoding: 'utf8' | 'base64';
+  content: string;
+  offset: number;
+  length: number;
+  totalLength: number;
+  truncated: boolean;
+  nextOffset?: number;
+}
+
+/**
+ * Slice content for paging through large files.
+ * Text content is measured in characters; binary content in bytes (returned as base64).
+ */
+export function sliceContent(data: Buffer, mimeType: string, { offset = 0, maxLength }: { offset?: number; maxLength: number }): ContentSlice {
+  const isText = isTextMimeType(mimeType);
+  const source = isText ? data.toString('utf8') : data;
+  const totalLength = source.length;
+  const start = Math.min(offset, totalLength);
+  const end = Math.min(start + maxLength, totalLength);
+  const content = isText ? (source as string).slice(start, end) : (source as Buffer).subarray(start, end).toString('base64');
+  const truncated = end < totalLength;
+
+  return {
+    encoding: isText ? 'utf8' : 'base64',
+    content,
+    offset: start,
+    length: end - start,
+    totalLength,
+    truncated,
+    ...(truncated && { nextOffset: end }),
+  };
+}
+
+/**
+ * Describe bytes downloaded with a range starting at offset as a base64 slice of a totalLength-byte file
+ */
+export function byteRangeSlice(data: Buffer, offset: number, totalLength: number): ContentSlice {
+  const end = offset + data.length;
+  const truncated = end < totalLength;
+  return {
+    encoding: 'base64',
+    content: data.toString('base64'),
+    offset,
+    length: data.length,
+    totalLength,
+    truncated,
+    ...(truncated && { nextOffset: end }),
+  };
+}
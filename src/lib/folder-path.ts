@@ -0,0 +1,81 @@
+import type { drive_v3 } from 'googleapis';
+import type { Logger } from '../types.ts';
+import { type AccountMetadataCache, getItemMetadata } from './metadata-cache.ts';
+
+/**
+ * Resolves the full path for a folder by walking up the parent chain.
+ * Returns both the path string and structured segments with IDs and names.
+ * For shared drives the root segment is the shared drive itself.
+ */
+export async function resolveFolderPath(drive: drive_v3.Drive, folderId: string, logger: Logger, cache?: AccountMetadataCache): Promise<{ path: string; segments: Array<{ id: string; name: string }>; driveId?: string; driveName?: string }> {
+  // Handle root specially
+  if (folderId === 'root') {
+    return {
+      path: '/',
+      segments: [{ id: 'root', name: 'My Drive' }],
+    };
+  }
+
+  const segments: Array<{ id: string; name: string }> = [];
+  let currentId = folderId;
+  let driveId: string | undefined;
+  const visited = new Set<string>();
+
+  // Walk up the parent chain
+  while (currentId && currentId !== 'root') {
+    // Prevent infinite loops
+    if (visited.has(currentId)) {
+      logger.info('Circular folder reference detected', {
+        folderId: currentId,
+      });
+      break;
+    }
+    visited.add(currentId);
+
+    // Fetch folder metadata (cached across calls)
+    try {
+      const folder = await getItemMetadata(drive, currentId, cache);
+      if (folder.driveId) driveId = folder.driveId;
+
+      // Add to segments at beginning (we're walking from child to root)
+      segments.unshift({ id: folder.id, name: folder.name });
+
+      // Move to parent
+      currentId = folder.parents?.[0] ?? '';
+    } catch (e) {
+      logger.info('Failed to resolve folder path', {
+        folderId: currentId,
+        error: e,
+      });
+      break;
+    }
+  }
+
+  // Add root if we reached it
+  if (currentId === 'root') {
+    segments.unshift({ id: 'root', name: 'My Drive' });
+  }
+
+  // Shared drive root folder has the drive's ID - name it after the drive
+  let driveName: string | undefined;
+  if (driveId) {
+    try {
+      const response = await drive.drives.get({ driveId, fields: 'id,name' });
+      driveName = response.data.name ?? driveId;
+    } catch (e) {
+      logger.info('Failed to fetch shared drive name', { driveId, error: e });
+      driveName = segments[0]?.id === driveId ? segments[0].name : driveId;
+    }
+    if (segments[0]?.id === driveId) {
+      segments[0] = { id: driveId, name: driveName };
+    } else {
+      segments.unshift({ id: driveId, name: driveName });
+    }
+  }
+
+  // Build path string
+  const pathParts = segments.slice(1).map((seg) => seg.name); // Skip root
+  const path = pathParts.length > 0 ? `/${pathParts.join('/')}` : '/';
+
+  return { path, segments, ...(driveId && { driveId }), ...(driveName && { driveName }) };
+}
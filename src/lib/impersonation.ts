@@ -0,0 +1,67 @@
+import { google } from 'googleapis';
+
+type JWT = InstanceType<typeof google.auth.JWT>;
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+/**
+ * Whether a user may be impersonated per call. Allowlist entries are exact
+ * emails or domains (example.com or @example.com); matching ignores case.
+ */
+export function isImpersonationAllowed(email: string, allowlist: string[]): boolean {
+  const normalized = email.trim().toLowerCase();
+  const domain = normalized.split('@')[1];
+  return allowlist.some((entry) => {
+    const allowed = entry.trim().toLowerCase();
+    if (allowed.includes('@') && !allowed.startsWith('@')) return allowed === normalized;
+    return domain === allowed.replace(/^@/, '');
+  });
+}
+
+export interface ImpersonationOptions {
+  /** Service account key file with domain-wide delegation */
+  keyFile: string;
+  /** Scopes authorized for the service account's client ID in the Workspace admin console */
+  scopes: string[];
+  /** User to act as when a call does not pass asUser */
+  defaultUser?: string;
+  /** Emails and domains that calls may impersonate with asUser */
+  allowlist?: string[];
+}
+
+export interface Impersonation {
+  defaultUser?: string;
+  /** Whether calls may pass asUser */
+  perCall: boolean;
+  /**
+   * Auth client acting as the user. Users passed per call must match the allowlist;
+   * the configured default user is always allowed.
+   */
+  authFor(user: string, options?: { perCall?: boolean }): JWT;
+}
+
+/**
+ * Domain-wide delegation: one JWT client per impersonated user, reused across calls
+ * so access tokens are cached per user
+ */
+export function createImpersonation({ keyFile, scopes, defaultUser, allowlist = [] }: ImpersonationOptions): Impersonation {
+  const clients = new Map<string, JWT>();
+
+  return {
+    ...(defaultUser && { defaultUser }),
+    perCall: allowlist.length > 0,
+    authFor(user, { perCall = false } = {}) {
+      const subject = user.trim().toLowerCase();
+      if (!EMAIL_PATTERN.test(subject)) throw new Error(`Cannot impersonate "${user}": not an email address`);
+      if (perCall && subject !== defaultUser?.toLowerCase() && !isImpersonationAllowed(subject, allowlist)) {
+        throw new Error(`Impersonating ${user} is not allowed. Allowed users and domains: ${allowlist.length > 0 ? allowlist.join(', ') : 'none'}`);
+      }
+      let client = clients.get(subject);
+      if (!client) {
+        client = new google.auth.JWT({ keyFile, scopes, subject });
+        clients.set(subject, client);
+      }
+      return client;
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import type { drive_v3 } from 'googleapis';
+import type { Keyv } from 'keyv';
+
+/** Default lifetime of cached item metadata */
+export const DEFAULT_METADATA_TTL_SECONDS = 300;
+
+/** Name and parent chain link of a Drive item, as cached between tool calls */
+export interface ItemMetadata {
+  id: string;
+  name: string;
+  parents?: string[];
+  driveId?: string;
+}
+
+/** Metadata cache scoped to one account */
+export interface AccountMetadataCache {
+  get(fileId: string): Promise<ItemMetadata | undefined>;
+  set(item: ItemMetadata): Promise<void>;
+  invalidate(fileIds: string[]): Promise<void>;
+}
+
+export interface MetadataCache {
+  forAccount(accountId: string): AccountMetadataCache;
+}
+
+/** Drive API field mask for cached item metadata */
+export const ITEM_METADATA_API_FIELDS = 'id,name,parents,driveId';
+
+/**
+ * Build the storage key for cached item metadata, following the
+ * "{accountId}:{service}:{type}" layout used for change cursors
+ */
+export function metadataCacheKey(accountId: string, service: string, fileId: string): string {
+  return `${accountId}:${service}:metadata:${fileId}`;
+}
+
+/**
+ * TTL-based item metadata cache shared by all tool calls.
+ * Backed by an in-memory Keyv unless a persistent store is configured.
+ */
+export function createMetadataCache(store: Keyv<unknown>, options: { service: string; ttlSeconds?: number }): MetadataCache {
+  const { service, ttlSeconds = DEFAULT_METADATA_TTL_SECONDS } = options;
+  return {
+    forAccount(accountId) {
+      return {
+        async get(fileId) {
+          const value = (await store.get(metadataCacheKey(accountId, service, fileId))) as ItemMetadata | undefined;
+          return value && typeof value.name === 'string' ? value : undefined;
+        },
+        async set(item) {
+          await store.set(metadataCacheKey(accountId, service, item.id), item, ttlSeconds * 1000);
+        },
+        async invalidate(fileIds) {
+          await Promise.all(fileIds.map((fileId) => store.delete(metadataCacheKey(accountId, service, fileId))));
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Convert a Drive API file into cacheable metadata
+ */
+export function toItemMetadata(f: drive_v3.Schema$File, fallbackId: string): ItemMetadata {
+  const id = f.id || fallbackId;
+  return {
+    id,
+    name: f.name || id,
+    ...(f.parents && f.parents.length > 0 && { parents: f.parents }),
+    ...(f.driveId && { driveId: f.driveId }),
+  };
+}
+
+/**
+ * Read an item's name, parents and drive, from the cache when present
+ */
+export async function getItemMetadata(drive: drive_v3.Drive, fileId: string, cache?: AccountMetadataCache): Promise<ItemMetadata> {
+  const cached = await cache?.get(fileId);
+  if (cached) return cached;
+
+  const response = await drive.files.get({ fileId, fields: ITEM_METADATA_API_FIELDS, supportsAllDrives: true });
+  const item = toItemMetadata(response.data, fileId);
+  await cache?.set(item);
+  return item;
+}
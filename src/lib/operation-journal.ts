@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import type { drive_v3 } from 'googleapis';
+import type { Keyv } from 'keyv';
+import type { Logger } from '../types.ts';
+import type { BatchRequest } from './drive-batch.ts';
+
+export const OPERATION_KINDS = ['move', 'trash', 'rename', 'create'] as const;
+
+export type OperationKind = (typeof OPERATION_KINDS)[number];
+
+/** Drive purges trash after 30 days, so operations are kept that long */
+export const DEFAULT_OPERATION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** Drive API field mask undo reads to check whether items changed since the operation */
+export const UNDO_CHECK_API_FIELDS = 'id,name,parents,trashed,mimeType';
+
+/** An item a journaled operation changed, with what undo needs to check and restore it */
+export interface OperationItem {
+  fileId: string;
+  /** Parents before a move */
+  oldParents?: string[];
+  /** Parents after a move, or of a created item */
+  newParents?: string[];
+  /** Names before and after a rename */
+  oldName?: string;
+  newName?: string;
+}
+
+/** One reversible tool call */
+export interface Operation {
+  id: string;
+  kind: OperationKind;
+  tool: string;
+  /** ISO 8601 time the operation was recorded */
+  timestamp: string;
+  items: OperationItem[];
+  /** When operation-undo reversed it */
+  undoneAt?: string;
+}
+
+/** Operation journal scoped to one account */
+export interface AccountOperationJournal {
+  record(kind: OperationKind, tool: string, items: OperationItem[]): Promise<Operation>;
+  get(id: string): Promise<Operation | undefined>;
+  markUndone(operation: Operation): Promise<void>;
+}
+
+export interface OperationJournal {
+  forAccount(accountId: string): AccountOperationJournal;
+}
+
+/**
+ * Build the storage key for a journaled operation, following the
+ * "{accountId}:{service}:{type}" layout used for change cursors
+ */
+export function operationKey(accountId: string, service: string, id: string): string {
+  return `${accountId}:${service}:operation:${id}`;
+}
+
+/**
+ * Journal of reversible operations, kept per account for ttlSeconds.
+ * Keys include the account so one account cannot undo another's operations.
+ */
+export function createOperationJournal(store: Keyv<unknown>, options: { service: string; ttlSeconds?: number }): OperationJournal {
+  const { service, ttlSeconds = DEFAULT_OPERATION_TTL_SECONDS } = options;
+  return {
+    forAccount(accountId) {
+      return {
+        async record(kind, tool, items) {
+          const operation: Operation = { id: randomUUID(), kind, tool, timestamp: new Date().toISOString(), items };
+          await store.set(operationKey(accountId, service, operation.id), operation, ttlSeconds * 1000);
+          return operation;
+        },
+        async get(id) {
+          const value = (await store.get(operationKey(accountId, service, id))) as Operation | undefined;
+          return value && Array.isArray(value.items) ? value : undefined;
+        },
+        async markUndone(operation) {
+          await store.set(operationKey(accountId, service, operation.id), { ...operation, undoneAt: new Date().toISOString() }, ttlSeconds * 1000);
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Journal an operation for the tool's result. Nothing is recorded without items;
+ * journal failures are logged and do not fail the tool call.
+ */
+export async function recordOperation(journal: AccountOperationJournal | undefined, kind: OperationKind, tool: string, items: OperationItem[], logger: Logger): Promise<string | undefined> {
+  if (!journal || items.length === 0) return undefined;
+  try {
+    return (await journal.record(kind, tool, items)).id;
+  } catch (error) {
+    logger.warn('Failed to journal operation', { kind, tool, error: error instanceof Error ? error.message : String(error) });
+    return undefined;
+  }
+}
+
+/** How to reverse one item, or why it cannot be reversed */
+export type UndoStep = { fileId: string; request: BatchRequest } | { fileId: string; conflict: string };
+
+function sameParents(a: string[] = [], b: string[] = []): boolean {
+  return a.length === b.length && a.every((id) => b.includes(id));
+}
+
+function patch(fileId: string, query: BatchRequest['query'], body: drive_v3.Schema$File): BatchRequest {
+  return { method: 'PATCH', path: `/drive/v3/files/${encodeURIComponent(fileId)}`, query: { ...query, fields: 'id', supportsAllDrives: true }, body };
+}
+
+/**
+ * Plan the reversal of one item. Undo only touches items still in the state the
+ * operation left them in; anything changed since is reported as a conflict.
+ * hasChildren marks created folders that are no longer empty.
+ */
+export function planUndoItem(kind: OperationKind, item: OperationItem, current: drive_v3.Schema$File, options: { hasChildren?: boolean } = {}): UndoStep {
+  const { fileId } = item;
+  const parents = current.parents ?? [];
+  switch (kind) {
+    case 'move':
+      if (current.trashed) return { fileId, conflict: 'Trashed since the move' };
+      if (!sameParents(parents, item.newParents)) return { fileId, conflict: `Moved since the move (now in ${parents.join(', ') || 'no folder'})` };
+      if (!item.oldParents || item.oldParents.length === 0) return { fileId, conflict: 'No previous parent to move back to' };
+      return { fileId, request: patch(fileId, { addParents: item.oldParents.join(','), removeParents: parents.join(',') }, {}) };
+    case 'trash':
+      if (!current.trashed) return { fileId, conflict: 'Restored since it was trashed' };
+      return { fileId, request: patch(fileId, {}, { trashed: false }) };
+    case 'rename':
+      if (current.trashed) return { fileId, conflict: 'Trashed since the rename' };
+      if (current.name !== item.newName) return { fileId, conflict: `Renamed since the rename (now "${current.name}")` };
+      if (!item.oldName) return { fileId, conflict: 'No previous name to restore' };
+      return { fileId, request: patch(fileId, {}, { name: item.oldName }) };
+    case 'create':
+      if (current.trashed) return { fileId, conflict: 'Already trashed' };
+      if (item.newParents && !sameParents(parents, item.newParents)) return { fileId, conflict: 'Moved since it was created' };
+      if (options.hasChildren) return { fileId, conflict: 'No longer empty' };
+      return { fileId, request: patch(fileId, {}, { trashed: true }) };
+  }
+}
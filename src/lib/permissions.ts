@@ -0,0 +1,76 @@
+import type { drive_v3 } from 'googleapis';
+import type { DrivePermission, PermissionFailure } from '../schemas/index.ts';
+
+export const PERMISSION_API_FIELDS = 'id,type,role,emailAddress,domain,displayName,expirationTime,allowFileDiscovery,deleted';
+
+/**
+ * Convert a raw Drive API permission into the DrivePermissionSchema shape
+ */
+export function toDrivePermission(p: drive_v3.Schema$Permission): DrivePermission {
+  const result: DrivePermission = {
+    id: p.id ?? 'unknown',
+    type: p.type ?? 'unknown',
+    role: p.role ?? 'unknown',
+  };
+  if (p.emailAddress) result.emailAddress = p.emailAddress;
+  if (p.domain) result.domain = p.domain;
+  if (p.displayName) result.displayName = p.displayName;
+  if (p.expirationTime) result.expirationTime = p.expirationTime;
+  if (p.allowFileDiscovery != null) result.allowFileDiscovery = p.allowFileDiscovery;
+  if (p.deleted != null) result.deleted = p.deleted;
+  return result;
+}
+
+/**
+ * List all permissions on a file (follows pagination)
+ */
+export async function listPermissions(drive: drive_v3.Drive, fileId: string): Promise<drive_v3.Schema$Permission[]> {
+  const permissions: drive_v3.Schema$Permission[] = [];
+  let pageToken: string | undefined;
+  do {
+    const response = await drive.permissions.list({
+      fileId,
+      pageSize: 100,
+      fields: `permissions(${PERMISSION_API_FIELDS}),nextPageToken`,
+      supportsAllDrives: true,
+      ...(pageToken && { pageToken }),
+    });
+    permissions.push(...(response.data.permissions ?? []));
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (pageToken);
+  return permissions;
+}
+
+/**
+ * Find a permission on a file by ID or grantee email address.
+ * Throws if no matching permission exists.
+ */
+export async function findPermission(drive: drive_v3.Drive, fileId: string, target: { permissionId?: string | undefined; emailAddress?: string | undefined }): Promise<drive_v3.Schema$Permission> {
+  if (target.permissionId) {
+    const response = await drive.permissions.get({
+      fileId,
+      permissionId: target.permissionId,
+      fields: PERMISSION_API_FIELDS,
+      supportsAllDrives: true,
+    });
+    return response.data;
+  }
+
+  const email = target.emailAddress?.toLowerCase();
+  const permission = (await listPermissions(drive, fileId)).find((p) => p.emailAddress?.toLowerCase() === email);
+  if (!permission) throw new Error(`No permission found for ${target.emailAddress}`);
+  return permission;
+}
+
+/**
+ * Build a per-file failure entry from a Drive API error
+ */
+export function toPermissionFailure(fileId: string, e: unknown): PermissionFailure {
+  const error = e as { message?: string; code?: number | string } | undefined;
+  const message = error?.message ? error.message : String(e);
+  return {
+    fileId,
+    error: message,
+    ...(error?.code && { code: String(error.code) }),
+  };
+}
@@ -0,0 +1,232 @@
+import type { Logger } from '../types.ts';
+
+/** Default number of Drive requests in flight per account */
+export const DEFAULT_MAX_CONCURRENCY = 10;
+
+/** Default number of retries for a rate-limited or failed request */
+export const DEFAULT_MAX_RETRIES = 5;
+
+/** Longest Retry-After we wait for; longer waits fail the request instead */
+export const MAX_RETRY_AFTER_MS = 60_000;
+
+/** 403 reasons Drive uses for quota errors (other 403s are permission errors) */
+const RATE_LIMIT_REASONS = ['userRateLimitExceeded', 'rateLimitExceeded', 'sharingRateLimitExceeded'];
+
+export interface RetryOptions {
+  maxRetries: number;
+  /** Delay before the first retry; doubles on each attempt */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Injected for tests */
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = { maxRetries: DEFAULT_MAX_RETRIES, baseDelayMs: 500, maxDelayMs: 32_000 };
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+interface ErrorLike {
+  status?: number;
+  code?: number | string;
+  response?: { status?: number; headers?: unknown; data?: unknown };
+}
+
+function errorReasons(body: unknown): string[] {
+  const errors = (body as { error?: { errors?: Array<{ reason?: string }> } } | undefined)?.error?.errors;
+  return Array.isArray(errors) ? errors.map((e) => e.reason).filter((r): r is string => typeof r === 'string') : [];
+}
+
+/**
+ * Whether Drive rejected a request before acting on it: 429 and 403 with a rate-limit reason
+ */
+export function isRateLimitedResponse(status: number, body?: unknown): boolean {
+  if (status === 429) return true;
+  return status === 403 && errorReasons(body).some((reason) => RATE_LIMIT_REASONS.includes(reason));
+}
+
+/**
+ * Whether a Drive status and error body are worth retrying:
+ * 429, 5xx, and 403 with a rate-limit reason
+ */
+export function isRetryableResponse(status: number, body?: unknown): boolean {
+  return status >= 500 || isRateLimitedResponse(status, body);
+}
+
+/**
+ * HTTP status of a thrown googleapis/gaxios error, if any
+ */
+export function errorStatus(error: unknown): number | undefined {
+  const e = error as ErrorLike | undefined;
+  const status = e?.response?.status ?? e?.status ?? (typeof e?.code === 'number' ? e.code : undefined);
+  return typeof status === 'number' && Number.isFinite(status) ? status : undefined;
+}
+
+export function isRetryableError(error: unknown): boolean {
+  const status = errorStatus(error);
+  return status !== undefined && isRetryableResponse(status, (error as ErrorLike).response?.data);
+}
+
+export function isRateLimitedError(error: unknown): boolean {
+  const status = errorStatus(error);
+  return status !== undefined && isRateLimitedResponse(status, (error as ErrorLike).response?.data);
+}
+
+// Methods safe to repeat after a 5xx, which may come after the request took effect
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'DELETE', 'OPTIONS'];
+
+/**
+ * Whether a request can be re-sent after a server error. POST and PATCH could create
+ * duplicates or reapply changes, and PUT is only used for resumable upload chunks,
+ * which upload.ts resumes from the server's upload status instead.
+ */
+export function isIdempotentRequest(method: unknown): boolean {
+  return IDEMPOTENT_METHODS.includes(typeof method === 'string' ? method.toUpperCase() : 'GET');
+}
+
+/**
+ * Parse a Retry-After value (delay seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Retry-After of a thrown error's response; headers are a Headers object or a plain record
+ */
+export function retryAfterMs(error: unknown): number | undefined {
+  const headers = (error as ErrorLike | undefined)?.response?.headers;
+  if (!headers) return undefined;
+  const value = typeof (headers as Headers).get === 'function' ? (headers as Headers).get('retry-after') : (headers as Record<string, string | undefined>)['retry-after'];
+  return parseRetryAfter(value);
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): Retry-After when given,
+ * otherwise exponential backoff with full jitter
+ */
+export function backoffDelay(attempt: number, options: RetryOptions, retryAfter?: number): number {
+  if (retryAfter !== undefined) return retryAfter;
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round((options.random ?? Math.random)() * ceiling);
+}
+
+/**
+ * Run fn, retrying retryable errors (isRetryableError unless isRetryable is given) with backoff.
+ * onRetry is called before each wait with the retry number (1-based) and delay.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions & { isRetryable?: (error: unknown) => boolean; onRetry?: (retry: number, delayMs: number, error: unknown) => void }): Promise<{ value: T; retries: number }> {
+  const isRetryable = options.isRetryable ?? isRetryableError;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return { value: await fn(), retries: attempt };
+    } catch (error) {
+      const retryAfter = retryAfterMs(error);
+      if (attempt >= options.maxRetries || !isRetryable(error) || (retryAfter ?? 0) > MAX_RETRY_AFTER_MS) throw error;
+      const delayMs = backoffDelay(attempt, options, retryAfter);
+      options.onRetry?.(attempt + 1, delayMs, error);
+      await (options.sleep ?? sleep)(delayMs);
+    }
+  }
+}
+
+export interface ConcurrencyLimiter {
+  run<T>(fn: () => Promise<T>): Promise<T>;
+  readonly active: number;
+  readonly pending: number;
+}
+
+/**
+ * Limit how many calls of fn run at once; extra calls wait in FIFO order
+ */
+export function createConcurrencyLimiter(maxConcurrency: number): ConcurrencyLimiter {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const release = () => {
+    active--;
+    const next = queue.shift();
+    if (next) next();
+  };
+
+  return {
+    async run<T>(fn: () => Promise<T>): Promise<T> {
+      if (active >= maxConcurrency) await new Promise<void>((resolve) => queue.push(resolve));
+      active++;
+      try {
+        return await fn();
+      } finally {
+        release();
+      }
+    },
+    get active() {
+      return active;
+    },
+    get pending() {
+      return queue.length;
+    },
+  };
+}
+
+/** The request method googleapis calls on an auth client */
+type RequestFn = (options: Record<string, unknown>) => Promise<unknown>;
+
+export interface DriveRateLimiter {
+  /**
+   * Wrap an auth client so its requests share the account's concurrency limit
+   * and are retried with backoff. Other auth client methods pass through.
+   */
+  wrapAuth<T extends object>(accountId: string, auth: T, logger: Logger): T;
+}
+
+/**
+ * Per-account request throttling for the auth clients handed to googleapis.
+ * gaxios' own retry is turned off so this is the single retry policy: every request
+ * is retried on 429 and 403 rate-limit errors, and only idempotent requests on 5xx.
+ */
+export function createDriveRateLimiter({ maxConcurrency = DEFAULT_MAX_CONCURRENCY, ...retry }: Partial<RetryOptions> & { maxConcurrency?: number } = {}): DriveRateLimiter {
+  const retryOptions: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...retry };
+  const limiters = new Map<string, ConcurrencyLimiter>();
+
+  const limiterFor = (accountId: string) => {
+    let limiter = limiters.get(accountId);
+    if (!limiter) {
+      limiter = createConcurrencyLimiter(maxConcurrency);
+      limiters.set(accountId, limiter);
+    }
+    return limiter;
+  };
+
+  return {
+    wrapAuth<T extends object>(accountId: string, auth: T, logger: Logger): T {
+      const request = (auth as { request?: RequestFn }).request;
+      if (typeof request !== 'function') return auth;
+      const limiter = limiterFor(accountId);
+
+      const throttled: RequestFn = async (options) => {
+        const { value, retries } = await withRetry(() => limiter.run(() => request.call(auth, { ...options, retry: false })), {
+          ...retryOptions,
+          isRetryable: isIdempotentRequest(options?.method) ? isRetryableError : isRateLimitedError,
+          onRetry: (retry, delayMs, error) => {
+            logger.warn('Drive request rate limited, retrying', { url: options.url, method: options.method, status: errorStatus(error), retry, delayMs });
+          },
+        });
+        if (retries > 0) logger.info('Drive request succeeded after retries', { url: options.url, method: options.method, retries });
+        return value;
+      };
+
+      // Bind pass-through methods to the real client so private fields keep working
+      return new Proxy(auth, {
+        get(target, prop) {
+          if (prop === 'request') return throttled;
+          const value = Reflect.get(target, prop, target);
+          return typeof value === 'function' ? value.bind(target) : value;
+        },
+      });
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import type { drive_v3 } from 'googleapis';
+import type { DriveFile } from '../schemas/index.ts';
+import type { Logger } from '../types.ts';
+import { listFolderItems } from './drive-file.ts';
+import { FOLDER_MIME_TYPE, fetchFileContent, isGoogleNativeMimeType, isTextMimeType, resolveExportMimeType } from './file-content.ts';
+
+/** One entry of a resources/read result */
+export type ResourceContent = { uri: string; mimeType?: string; text: string } | { uri: string; mimeType?: string; blob: string };
+
+// Larger files are returned as metadata only; use the file-read tool to page through them
+const MAX_CONTENT_BYTES = 10 * 1024 * 1024;
+
+// Folder resources list at most this many children; use folder-contents to page further
+export const MAX_FOLDER_RESOURCE_ITEMS = 1000;
+
+const FILE_METADATA_FIELDS = 'id,name,mimeType,size,modifiedTime,owners,webViewLink,driveId';
+
+/**
+ * Resource contents for a file: text for text files and Google-native exports,
+ * a base64 blob for binaries, and JSON metadata for folders, non-exportable
+ * Google files and files over the size limit.
+ */
+export async function readFileResource(drive: drive_v3.Drive, uri: string, fileId: string): Promise<ResourceContent> {
+  const resp = await drive.files.get({
+    fileId,
+    fields: FILE_METADATA_FIELDS,
+    supportsAllDrives: true,
+  });
+  const data = resp.data;
+  const mimeType = data.mimeType ?? 'application/octet-stream';
+
+  const tooLarge = !isGoogleNativeMimeType(mimeType) && Number(data.size ?? 0) > MAX_CONTENT_BYTES;
+  if (mimeType === FOLDER_MIME_TYPE || (isGoogleNativeMimeType(mimeType) && !resolveExportMimeType(mimeType)) || tooLarge) {
+    return {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(tooLarge ? { ...data, note: 'File is too large to return as a resource; use the file-read tool to page through it' } : data),
+    };
+  }
+
+  const content = await fetchFileContent(drive, { id: fileId, mimeType });
+  return isTextMimeType(content.mimeType) ? { uri, mimeType: content.mimeType, text: content.data.toString('utf8') } : { uri, mimeType: content.mimeType, blob: content.data.toString('base64') };
+}
+
+/**
+ * Resource contents for a folder: a JSON listing of its children (folders first)
+ */
+export async function readFolderResource(drive: drive_v3.Drive, uri: string, folder: { id: string; name?: string | undefined }, logger: Logger): Promise<ResourceContent> {
+  const items: DriveFile[] = [];
+  let pageToken: string | undefined;
+  do {
+    const listing = await listFolderItems(drive, { folderId: folder.id, pageSize: MAX_FOLDER_RESOURCE_ITEMS - items.length, pageToken }, logger);
+    items.push(...listing.items);
+    pageToken = listing.nextPageToken;
+  } while (pageToken && items.length < MAX_FOLDER_RESOURCE_ITEMS);
+
+  return {
+    uri,
+    mimeType: 'application/json',
+    text: JSON.stringify({
+      folderId: folder.id,
+      ...(folder.name && { name: folder.name }),
+      items,
+      count: items.length,
+      ...(pageToken && { truncated: true, note: `Listing stops at ${MAX_FOLDER_RESOURCE_ITEMS} items; use the folder-contents tool to page through the rest` }),
+    }),
+  };
+}
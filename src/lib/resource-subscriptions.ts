@@ -0,0 +1,52 @@
+/**
+ * URIs clients have subscribed to via resources/subscribe, kept per session so one
+ * client's resources/unsubscribe leaves other clients' subscriptions to the URI in place.
+ * Transports without sessions (stdio, stateless HTTP) omit sessionId.
+ */
+export interface ResourceSubscriptions {
+  subscribe(uri: string, sessionId?: string): void;
+  unsubscribe(uri: string, sessionId?: string): void;
+  /** Whether any session is subscribed to the URI */
+  has(uri: string): boolean;
+  /** URIs with at least one subscribed session */
+  list(): string[];
+}
+
+// Subscriber key for requests that arrive without a session
+const NO_SESSION = '';
+
+/**
+ * Build the resource URI for a Drive file
+ */
+export function fileResourceUri(fileId: string): string {
+  return `drive://files/${fileId}`;
+}
+
+/**
+ * Extract the file ID from a drive://files/{fileId} URI
+ */
+export function fileIdFromResourceUri(uri: string): string | undefined {
+  const match = /^drive:\/\/files\/([^/?#]+)$/.exec(uri);
+  return match?.[1] ? decodeURIComponent(match[1]) : undefined;
+}
+
+/**
+ * In-memory subscription registry shared by the subscribe handlers and notification senders
+ */
+export function createResourceSubscriptions(): ResourceSubscriptions {
+  const sessionsByUri = new Map<string, Set<string>>();
+  return {
+    subscribe: (uri, sessionId = NO_SESSION) => {
+      const sessions = sessionsByUri.get(uri) ?? new Set<string>();
+      sessions.add(sessionId);
+      sessionsByUri.set(uri, sessions);
+    },
+    unsubscribe: (uri, sessionId = NO_SESSION) => {
+      const sessions = sessionsByUri.get(uri);
+      sessions?.delete(sessionId);
+      if (sessions?.size === 0) sessionsByUri.delete(uri);
+    },
+    has: (uri) => sessionsByUri.has(uri),
+    list: () => Array.from(sessionsByUri.keys()),
+  };
+}
@@ -0,0 +1,51 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { drive_v3 } from 'googleapis';
+import type { DriveRevision } from '../schemas/index.ts';
+import { type ExportFormat, type FileContent, isGoogleNativeMimeType, resolveExportMimeType, supportedExportFormats } from './file-content.ts';
+
+type AuthClient = EnrichedExtra['authContext']['auth'];
+
+export const REVISION_API_FIELDS = 'id,mimeType,modifiedTime,size,keepForever,published,originalFilename,lastModifyingUser(displayName,emailAddress)';
+
+/**
+ * Convert a raw Drive API revision into the DriveRevisionSchema shape
+ */
+export function toDriveRevision(r: drive_v3.Schema$Revision): DriveRevision {
+  const result: DriveRevision = { id: r.id ?? 'unknown' };
+  if (r.mimeType) result.mimeType = r.mimeType;
+  if (r.modifiedTime) result.modifiedTime = r.modifiedTime;
+  if (r.size) result.size = r.size;
+  if (r.keepForever != null) result.keepForever = r.keepForever;
+  if (r.published != null) result.published = r.published;
+  if (r.originalFilename) result.originalFilename = r.originalFilename;
+  if (r.lastModifyingUser) {
+    result.lastModifyingUser = {
+      ...(r.lastModifyingUser.displayName && { displayName: r.lastModifyingUser.displayName }),
+      ...(r.lastModifyingUser.emailAddress && { emailAddress: r.lastModifyingUser.emailAddress }),
+    };
+  }
+  return result;
+}
+
+/**
+ * Download the content of a specific revision.
+ * Binary revisions are fetched with alt=media; Google-native revisions have no media
+ * and are downloaded from their export link for the requested format.
+ */
+export async function fetchRevisionContent(drive: drive_v3.Drive, auth: AuthClient, file: { id: string; mimeType: string; revisionId: string }, format?: ExportFormat): Promise<FileContent> {
+  if (isGoogleNativeMimeType(file.mimeType)) {
+    const exportMimeType = resolveExportMimeType(file.mimeType, format);
+    if (!exportMimeType) {
+      const supported = supportedExportFormats(file.mimeType);
+      throw new Error(supported.length > 0 ? `Format "${format}" is not supported for ${file.mimeType} (supported: ${supported.join(', ')})` : `Export is not supported for ${file.mimeType}`);
+    }
+    const revision = await drive.revisions.get({ fileId: file.id, revisionId: file.revisionId, fields: 'id,exportLinks' });
+    const exportLink = revision.data.exportLinks?.[exportMimeType];
+    if (!exportLink) throw new Error(`Revision ${file.revisionId} cannot be exported as ${exportMimeType}`);
+    const response = await auth.request<ArrayBuffer>({ url: exportLink, responseType: 'arraybuffer' });
+    return { data: Buffer.from(response.data), mimeType: exportMimeType, exported: true };
+  }
+
+  const response = await drive.revisions.get({ fileId: file.id, revisionId: file.revisionId, alt: 'media' }, { responseType: 'arraybuffer' });
+  return { data: Buffer.from(response.data as ArrayBuffer), mimeType: file.mimeType, exported: false };
+}
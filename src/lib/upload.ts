@@ -0,0 +1,135 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { drive_v3 } from 'googleapis';
+import { Readable } from 'stream';
+import { DEFAULT_RETRY_OPTIONS, errorStatus, withRetry } from './rate-limit.ts';
+
+type AuthClient = EnrichedExtra['authContext']['auth'];
+
+const UPLOAD_BASE_URL = 'https://www.googleapis.com/upload/drive/v3/files';
+
+/** Payloads above this size use the resumable protocol instead of a single multipart request */
+export const RESUMABLE_THRESHOLD = 5 * 1024 * 1024;
+
+// Resumable chunks must be a multiple of 256 KiB
+const CHUNK_SIZE = 32 * 256 * 1024;
+
+/** Chunk failures (5xx or no response) an upload recovers from before giving up */
+const MAX_CHUNK_RECOVERIES = 5;
+
+export const CONTENT_ENCODINGS = ['utf8', 'base64'] as const;
+
+export type ContentEncoding = (typeof CONTENT_ENCODINGS)[number];
+
+export function isValidBase64(content: string): boolean {
+  return /^[A-Za-z0-9+/\s]*={0,2}\s*$/.test(content);
+}
+
+export function decodeContent(content: string, encoding: ContentEncoding): Buffer {
+  return encoding === 'base64' ? Buffer.from(content, 'base64') : Buffer.from(content, 'utf8');
+}
+
+export interface UploadOptions {
+  /** Existing file to replace media for (omit to create a new file) */
+  fileId?: string;
+  metadata: drive_v3.Schema$File;
+  /** MIME type of the uploaded bytes */
+  mimeType: string;
+  data: Buffer;
+  fields: string;
+}
+
+export interface UploadResult {
+  file: drive_v3.Schema$File;
+  uploadType: 'multipart' | 'resumable';
+}
+
+/**
+ * Upload file content, creating a new file or replacing an existing file's media.
+ * Small payloads use a single multipart request; large payloads use a chunked resumable session.
+ */
+export async function uploadFile(drive: drive_v3.Drive, auth: AuthClient, options: UploadOptions): Promise<UploadResult> {
+  const { fileId, metadata, mimeType, data, fields } = options;
+
+  if (data.length > RESUMABLE_THRESHOLD) {
+    const file = await resumableUpload(auth, options);
+    return { file, uploadType: 'resumable' };
+  }
+
+  const media = { mimeType, body: Readable.from([data]) };
+  const response = fileId ? await drive.files.update({ fileId, requestBody: metadata, media, fields, supportsAllDrives: true }) : await drive.files.create({ requestBody: metadata, media, fields, supportsAllDrives: true });
+  return { file: response.data, uploadType: 'multipart' };
+}
+
+/**
+ * Resumable upload protocol: open a session, then PUT the bytes in chunks.
+ * The server answers 308 with a Range header until the final chunk is stored.
+ * A chunk that fails with a server or network error may still have been stored,
+ * so the upload status is queried and the upload resumes from what the server has.
+ */
+async function resumableUpload(auth: AuthClient, { fileId, metadata, mimeType, data, fields }: UploadOptions): Promise<drive_v3.Schema$File> {
+  const session = await auth.request({
+    url: fileId ? `${UPLOAD_BASE_URL}/${encodeURIComponent(fileId)}` : UPLOAD_BASE_URL,
+    method: fileId ? 'PATCH' : 'POST',
+    params: { uploadType: 'resumable', fields, supportsAllDrives: true },
+    headers: {
+      'Content-Type': 'application/json; charset=UTF-8',
+      'X-Upload-Content-Type': mimeType,
+      'X-Upload-Content-Length': String(data.length),
+    },
+    data: metadata,
+  });
+
+  const sessionUrl = session.headers.get('location');
+  if (!sessionUrl) throw new Error('Resumable upload session URL missing from response');
+
+  const validateStatus = (status: number) => (status >= 200 && status < 300) || status === 308;
+  let offset = 0;
+  let recoveries = 0;
+  while (offset < data.length) {
+    const end = Math.min(offset + CHUNK_SIZE, data.length);
+    let response: { status: number; headers: Headers; data: drive_v3.Schema$File };
+    try {
+      response = await auth.request<drive_v3.Schema$File>({
+        url: sessionUrl,
+        method: 'PUT',
+        headers: { 'Content-Range': `bytes ${offset}-${end - 1}/${data.length}` },
+        data: data.subarray(offset, end),
+        validateStatus,
+      });
+    } catch (error) {
+      const status = errorStatus(error);
+      if ((status !== undefined && status < 500) || recoveries >= MAX_CHUNK_RECOVERIES) throw error;
+      recoveries++;
+      // An empty PUT with "bytes */total" reports how much of the upload the server stored
+      const { value } = await withRetry(
+        () =>
+          auth.request<drive_v3.Schema$File>({
+            url: sessionUrl,
+            method: 'PUT',
+            headers: { 'Content-Range': `bytes */${data.length}` },
+            validateStatus,
+          }),
+        DEFAULT_RETRY_OPTIONS
+      );
+      if (value.status !== 308) return value.data;
+      offset = persistedBytes(value.headers.get('range'));
+      continue;
+    }
+
+    if (response.status !== 308) return response.data;
+
+    const nextOffset = persistedBytes(response.headers.get('range'));
+    if (nextOffset <= offset) throw new Error(`Resumable upload made no progress at byte ${offset}`);
+    offset = nextOffset;
+  }
+
+  throw new Error('Resumable upload finished without a file response');
+}
+
+/**
+ * Bytes the server stored, from a 308 Range header reporting the last byte persisted
+ * (e.g. "bytes=0-8388607"); no Range header means nothing was stored yet
+ */
+function persistedBytes(range: string | null): number {
+  return range ? Number(range.slice(range.lastIndexOf('-') + 1)) + 1 : 0;
+}
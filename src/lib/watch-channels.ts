@@ -0,0 +1,169 @@
+import { randomBytes, randomUUID } from 'crypto';
+import type { drive_v3 } from 'googleapis';
+import type { Keyv } from 'keyv';
+
+export const WATCH_KINDS = ['file', 'changes'] as const;
+
+export type WatchKind = (typeof WATCH_KINDS)[number];
+
+/** Longest channel lifetime Drive accepts, per watch kind */
+export const MAX_WATCH_TTL_SECONDS: Record<WatchKind, number> = {
+  file: 86400,
+  changes: 604800,
+};
+
+/** Drive push notification channel as persisted between restarts */
+export interface WatchChannel {
+  id: string;
+  resourceId: string;
+  kind: WatchKind;
+  fileId?: string;
+  driveId?: string;
+  /** Change feed position for changes channels, advanced as notifications are processed */
+  pageToken?: string;
+  accountId: string;
+  /** Shared secret echoed back by Drive in X-Goog-Channel-Token */
+  token: string;
+  address: string;
+  /** Expiration as epoch milliseconds */
+  expiration: number;
+  autoRenew: boolean;
+}
+
+export interface WatchChannelStore {
+  get(id: string): Promise<WatchChannel | undefined>;
+  set(channel: WatchChannel): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<WatchChannel[]>;
+}
+
+/** Parsed X-Goog-* headers of a Drive push notification */
+export interface DriveNotification {
+  channelId: string;
+  token?: string;
+  resourceId?: string;
+  resourceState?: string;
+  messageNumber?: string;
+  changed?: string[];
+}
+
+const INDEX_KEY = 'watch-channels:index';
+
+function channelKey(id: string): string {
+  return `watch-channel:${id}`;
+}
+
+/**
+ * Persist watch channels in a Keyv store.
+ * Keyv stores are not reliably iterable, so channel IDs are tracked in an index entry.
+ */
+export function createWatchChannelStore(store: Keyv<unknown>): WatchChannelStore {
+  async function readIndex(): Promise<string[]> {
+    const ids = await store.get(INDEX_KEY);
+    return Array.isArray(ids) ? (ids as string[]) : [];
+  }
+
+  return {
+    async get(id) {
+      return (await store.get(channelKey(id))) as WatchChannel | undefined;
+    },
+    async set(channel) {
+      await store.set(channelKey(channel.id), channel);
+      const ids = await readIndex();
+      if (!ids.includes(channel.id)) await store.set(INDEX_KEY, [...ids, channel.id]);
+    },
+    async delete(id) {
+      await store.delete(channelKey(id));
+      const ids = await readIndex();
+      const remaining = ids.filter((x) => x !== id);
+      if (remaining.length !== ids.length) await store.set(INDEX_KEY, remaining);
+    },
+    async list() {
+      const channels = await Promise.all((await readIndex()).map((id) => store.get(channelKey(id)) as Promise<WatchChannel | undefined>));
+      return channels.filter((c): c is WatchChannel => !!c);
+    },
+  };
+}
+
+/**
+ * Open a Drive push notification channel for a file or the change feed
+ */
+export async function openWatchChannel(drive: drive_v3.Drive, options: { kind: WatchKind; fileId?: string | undefined; driveId?: string | undefined; pageToken?: string | undefined; accountId: string; address: string; ttlSeconds?: number | undefined; autoRenew: boolean }): Promise<WatchChannel> {
+  const { kind, fileId, driveId, accountId, address, autoRenew } = options;
+  const ttlSeconds = Math.min(options.ttlSeconds ?? MAX_WATCH_TTL_SECONDS[kind], MAX_WATCH_TTL_SECONDS[kind]);
+  const requestBody: drive_v3.Schema$Channel = {
+    id: randomUUID(),
+    type: 'web_hook',
+    address,
+    token: randomBytes(24).toString('hex'),
+    expiration: String(Date.now() + ttlSeconds * 1000),
+  };
+
+  let response: { data: drive_v3.Schema$Channel };
+  let pageToken = options.pageToken;
+  if (kind === 'file') {
+    if (!fileId) throw new Error('fileId is required to watch a file');
+    response = await drive.files.watch({ fileId, supportsAllDrives: true, requestBody });
+  } else {
+    if (!pageToken) {
+      const start = await drive.changes.getStartPageToken({ supportsAllDrives: true, ...(driveId && { driveId }) });
+      pageToken = start.data.startPageToken ?? undefined;
+      if (!pageToken) throw new Error('Drive did not return a start page token');
+    }
+    response = await drive.changes.watch({
+      pageToken,
+      supportsAllDrives: true,
+      includeItemsFromAllDrives: true,
+      ...(driveId && { driveId }),
+      requestBody,
+    });
+  }
+
+  return {
+    id: requestBody.id as string,
+    resourceId: response.data.resourceId ?? '',
+    kind,
+    ...(fileId && { fileId }),
+    ...(driveId && { driveId }),
+    ...(pageToken && { pageToken }),
+    accountId,
+    token: requestBody.token as string,
+    address,
+    expiration: Number(response.data.expiration ?? requestBody.expiration),
+    autoRenew,
+  };
+}
+
+/**
+ * Stop a Drive push notification channel
+ */
+export async function closeWatchChannel(drive: drive_v3.Drive, channel: Pick<WatchChannel, 'id' | 'resourceId'>): Promise<void> {
+  await drive.channels.stop({ requestBody: { id: channel.id, resourceId: channel.resourceId } });
+}
+
+/**
+ * Parse the X-Goog-* headers of a Drive push notification.
+ * Returns undefined when the request carries no channel ID.
+ */
+export function parseNotificationHeaders(headers: Record<string, string | string[] | undefined>): DriveNotification | undefined {
+  const header = (name: string): string | undefined => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  const channelId = header('x-goog-channel-id');
+  if (!channelId) return undefined;
+
+  const token = header('x-goog-channel-token');
+  const resourceId = header('x-goog-resource-id');
+  const resourceState = header('x-goog-resource-state');
+  const messageNumber = header('x-goog-message-number');
+  const changed = header('x-goog-changed');
+  return {
+    channelId,
+    ...(token && { token }),
+    ...(resourceId && { resourceId }),
+    ...(resourceState && { resourceState }),
+    ...(messageNumber && { messageNumber }),
+    ...(changed && { changed: changed.split(',').map((c) => c.trim()) }),
+  };
+}
@@ -2,16 +2,64 @@ import type { EnrichedExtra } from '@mcp-z/oauth-google';
 import type { ResourceConfig, ResourceModule } from '@mcp-z/server';
 import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
-import type { ReadResourceResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
-import { google } from 'googleapis';
+import type { ListResourcesResult, ReadResourceResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { type drive_v3, google } from 'googleapis';
+import { FOLDER_MIME_TYPE, isGoogleNativeMimeType, resolveExportMimeType } from '../../lib/file-content.ts';
+import { readFileResource } from '../../lib/resource-contents.ts';
+import { fileResourceUri } from '../../lib/resource-subscriptions.ts';
+import type { ResourceDeps } from '../../types.ts';
 
-export default function createResource() {
+// Number of starred and of recently viewed files enumerated by resources/list
+const LIST_PAGE_SIZE = 25;
+
+/**
+ * MIME type a file's resource content is served as (export type for Google-native files)
+ */
+function contentMimeType(mimeType: string): string {
+  return isGoogleNativeMimeType(mimeType) ? (resolveExportMimeType(mimeType) ?? 'application/json') : mimeType;
+}
+
+/**
+ * Enumerate starred and recently viewed files for resources/list
+ */
+async function listFileResources(drive: drive_v3.Drive): Promise<ListResourcesResult> {
+  const baseQuery = `trashed = false and mimeType != '${FOLDER_MIME_TYPE}'`;
+  const fields = 'files(id,name,mimeType,modifiedTime)';
+  const [starred, recent] = await Promise.all([
+    drive.files.list({ q: `${baseQuery} and starred = true`, orderBy: 'modifiedTime desc', pageSize: LIST_PAGE_SIZE, fields, supportsAllDrives: true, includeItemsFromAllDrives: true, corpora: 'allDrives' }),
+    drive.files.list({ q: baseQuery, orderBy: 'viewedByMeTime desc', pageSize: LIST_PAGE_SIZE, fields, supportsAllDrives: true, includeItemsFromAllDrives: true, corpora: 'allDrives' }),
+  ]);
+
+  const seen = new Set<string>();
+  const resources: ListResourcesResult['resources'] = [];
+  for (const f of [...(starred.data.files ?? []), ...(recent.data.files ?? [])]) {
+    if (!f.id || seen.has(f.id)) continue;
+    seen.add(f.id);
+    resources.push({
+      uri: fileResourceUri(f.id),
+      name: f.name || f.id,
+      ...(f.mimeType && { mimeType: contentMimeType(f.mimeType) }),
+      ...(f.modifiedTime && { description: `Modified ${f.modifiedTime}` }),
+    });
+  }
+  return { resources };
+}
+
+export default function createResource(deps?: Partial<ResourceDeps>) {
   const template = new ResourceTemplate('drive://files/{fileId}', {
-    list: undefined,
+    // List callbacks run outside the auth middleware, so resolve the active account directly
+    list: async () => {
+      const auth = await deps?.resolveAuth?.().catch(() => undefined);
+      if (!auth) return { resources: [] };
+      try {
+        return await listFileResources(google.drive({ version: 'v3', auth }));
+      } catch {
+        return { resources: [] };
+      }
+    },
   });
   const config: ResourceConfig = {
-    description: 'Drive file resource',
-    mimeType: 'application/json',
+    description: 'Drive file content: text for text files and Google Docs/Sheets/Slides exports, base64 blob for binary files. Starred and recently viewed files are listed. Subscribe to receive updates when the file changes.',
   };
 
   const handler = async (uri: URL, variables: Record<string, string | string[]>, extra: RequestHandlerExtra<ServerRequest, ServerNotification>): Promise<ReadResourceResult> => {
@@ -37,21 +85,9 @@ export default function createResource() {
       // Safe type guard to access middleware-enriched extra
       const { logger, authContext } = extra as unknown as EnrichedExtra;
       const drive = google.drive({ version: 'v3', auth: authContext.auth });
-      const resp = await drive.files.get({
-        fileId,
-        fields: 'id,name,mimeType,size,modifiedTime,owners,webViewLink',
-      });
-      const data = resp.data;
-      logger.debug?.({ fileId, fileName: data?.name }, 'drive-file resource fetch success');
-      return {
-        contents: [
-          {
-            uri: uri.href,
-            mimeType: 'application/json',
-            text: JSON.stringify(data || {}),
-          },
-        ],
-      };
+      const content = await readFileResource(drive, uri.href, fileId);
+      logger.debug?.({ fileId, mimeType: content.mimeType }, 'drive-file resource fetch success');
+      return { contents: [content] };
     } catch (error) {
       const { logger } = extra as unknown as EnrichedExtra;
       logger.debug?.(error as Record<string, unknown>, 'drive resource fetch failed');
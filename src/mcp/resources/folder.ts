@@ -0,0 +1,65 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ResourceConfig, ResourceModule } from '@mcp-z/server';
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ReadResourceResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { readFolderResource } from '../../lib/resource-contents.ts';
+
+export default function createResource() {
+  const template = new ResourceTemplate('drive://folders/{folderId}', {
+    list: undefined,
+  });
+  const config: ResourceConfig = {
+    description: 'Drive folder listing as JSON: child files and folders (folders first), the same items as the folder-contents tool. Use "root" for My Drive or a shared drive ID for its root.',
+    mimeType: 'application/json',
+  };
+
+  const handler = async (uri: URL, variables: Record<string, string | string[]>, extra: RequestHandlerExtra<ServerRequest, ServerNotification>): Promise<ReadResourceResult> => {
+    // Extract folderId and handle both string and string[] cases
+    const folderId = Array.isArray(variables.folderId) ? variables.folderId[0] : variables.folderId;
+
+    try {
+      // Validate folderId exists and is a string
+      if (!folderId || typeof folderId !== 'string') {
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify({
+                error: 'Missing or invalid folderId in resource URI',
+              }),
+            },
+          ],
+        };
+      }
+
+      // Safe type guard to access middleware-enriched extra
+      const { logger, authContext } = extra as unknown as EnrichedExtra;
+      const drive = google.drive({ version: 'v3', auth: authContext.auth });
+      const content = await readFolderResource(drive, uri.href, { id: decodeURIComponent(folderId) }, logger);
+      logger.debug?.({ folderId }, 'drive-folder resource fetch success');
+      return { contents: [content] };
+    } catch (error) {
+      const { logger } = extra as unknown as EnrichedExtra;
+      logger.debug?.(error as Record<string, unknown>, 'drive resource fetch failed');
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify({ error: (error as Error).message }),
+          },
+        ],
+      };
+    }
+  };
+
+  return {
+    name: 'folder',
+    template,
+    config,
+    handler,
+  } satisfies ResourceModule;
+}
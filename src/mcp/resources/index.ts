@@ -1 +1,3 @@
 export { default as file } from './file.ts';
+export { default as folder } from './folder.ts';
+export { default as path } from './path.ts';
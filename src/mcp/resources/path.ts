@@ -0,0 +1,81 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ResourceConfig, ResourceModule } from '@mcp-z/server';
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ReadResourceResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { resolveDrivePath } from '../../lib/drive-path.ts';
+import { FOLDER_MIME_TYPE } from '../../lib/file-content.ts';
+import { readFileResource, readFolderResource } from '../../lib/resource-contents.ts';
+
+export default function createResource() {
+  // {+path} keeps the slashes between folder names
+  const template = new ResourceTemplate('drive://paths/{+path}', {
+    list: undefined,
+  });
+  const config: ResourceConfig = {
+    description: 'Drive item addressed by path from My Drive, e.g. drive://paths/Work/Projects/Plan.md (start with a shared drive name to address shared drives). Folders return their listing; files return their content like drive://files/{fileId}.',
+  };
+
+  const handler = async (uri: URL, variables: Record<string, string | string[]>, extra: RequestHandlerExtra<ServerRequest, ServerNotification>): Promise<ReadResourceResult> => {
+    // Extract path and handle both string and string[] cases
+    const path = Array.isArray(variables.path) ? variables.path[0] : variables.path;
+
+    try {
+      // Validate path exists and is a string
+      if (!path || typeof path !== 'string') {
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify({
+                error: 'Missing or invalid path in resource URI',
+              }),
+            },
+          ],
+        };
+      }
+
+      // Safe type guard to access middleware-enriched extra
+      const { logger, authContext } = extra as unknown as EnrichedExtra;
+      const drive = google.drive({ version: 'v3', auth: authContext.auth });
+      // Names arrive percent-encoded in the URI (e.g. Plan%20v2.md); tool path: arguments are literal
+      const item = await resolveDrivePath(drive, path.split('/').map(decodeURIComponent).join('/'));
+      if (!item) {
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify({ error: `Path not found: ${path}` }),
+            },
+          ],
+        };
+      }
+
+      logger.debug?.({ path, id: item.id, mimeType: item.mimeType }, 'drive-path resource resolved');
+      const content = item.mimeType === FOLDER_MIME_TYPE ? await readFolderResource(drive, uri.href, item, logger) : await readFileResource(drive, uri.href, item.id);
+      return { contents: [content] };
+    } catch (error) {
+      const { logger } = extra as unknown as EnrichedExtra;
+      logger.debug?.(error as Record<string, unknown>, 'drive resource fetch failed');
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify({ error: (error as Error).message }),
+          },
+        ],
+      };
+    }
+  };
+
+  return {
+    name: 'path',
+    template,
+    config,
+    handler,
+  } satisfies ResourceModule;
+}
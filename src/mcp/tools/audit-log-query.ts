@@ -0,0 +1,124 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import type { ToolDeps } from '../../types.ts';
+
+const inputSchema = z.object({
+  tool: z.string().min(1).optional().describe('Only calls of this tool (e.g. file-move)'),
+  status: z.enum(['success', 'error']).optional().describe('Only calls that succeeded or threw'),
+  since: z.string().min(1).optional().describe('Only calls at or after this ISO 8601 time'),
+  limit: z.number().int().min(1).max(200).optional().describe('Maximum entries to return, newest first (default 20)'),
+});
+
+const AuditEntrySchema = z.object({
+  id: z.string().describe('Audit entry ID'),
+  timestamp: z.string().describe('When the call started (ISO 8601)'),
+  accountId: z.string().optional().describe('Account the call ran as'),
+  tool: z.string().describe('Tool name'),
+  arguments: z.record(z.string(), z.unknown()).describe('Call arguments, with paths resolved to IDs and long strings truncated'),
+  status: z.enum(['success', 'error']).describe('Whether the call returned or threw'),
+  result: z.unknown().optional().describe('Structured tool result, including per-item failures'),
+  error: z
+    .object({
+      message: z.string().describe('Error message'),
+      code: z.number().optional().describe('MCP error code'),
+    })
+    .optional()
+    .describe('Error the call threw'),
+  parents: z
+    .record(
+      z.string(),
+      z.object({
+        before: z.array(z.string()).optional().describe('Parent IDs before the call'),
+        after: z.array(z.string()).optional().describe('Parent IDs after the call'),
+      })
+    )
+    .optional()
+    .describe('Parents by item ID before and after moves, trash and restore'),
+  durationMs: z.number().describe('Call duration in milliseconds'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  entries: z.array(AuditEntrySchema).describe('Matching mutating calls by the calling account, newest first'),
+  count: z.number().describe('Number of entries returned'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Query Audit Log',
+  description: 'Review recent mutating tool calls (moves, trash, shares, uploads, ...) made by the calling account through this server, with arguments, per-item results and parents before and after moves.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+  annotations: { readOnlyHint: true },
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ tool, status, since, limit = 20 }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    const accountId = extra.authContext.accountId;
+    logger.info('drive.audit-log.query called', { tool, accountId, status, since, limit });
+
+    const auditLog = deps?.auditLog;
+    if (!auditLog) {
+      throw new McpError(ErrorCode.InvalidParams, 'The audit log is not available in this server configuration');
+    }
+    if (since && Number.isNaN(Date.parse(since))) {
+      throw new McpError(ErrorCode.InvalidParams, `since must be an ISO 8601 time, got "${since}"`);
+    }
+
+    try {
+      // Accounts only see their own calls
+      const entries = await auditLog.query({
+        limit,
+        accountId,
+        ...(tool && { tool }),
+        ...(status && { status }),
+        ...(since && { since }),
+      });
+
+      logger.info('drive.audit-log.query returning', { count: entries.length });
+
+      const result: Output = {
+        type: 'success' as const,
+        entries,
+        count: entries.length,
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.audit-log.query error', { error: message });
+
+      // Throw McpError
+      throw toMcpError(error, 'Error querying audit log');
+    }
+  }
+
+  return {
+    name: 'audit-log-query' as const,
+    config,
+    handler,
+  };
+}
@@ -0,0 +1,215 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { createFieldsSchema, createPaginationSchema, filterFields, parseFields } from '@mcp-z/server';
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { type drive_v3, google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { collectParentIds, DRIVE_FILE_API_FIELDS, fetchParentNames, toDriveFile } from '../../lib/drive-file.ts';
+import { DRIVE_FILE_COMMON_PATTERNS, DRIVE_FILE_FIELD_DESCRIPTIONS, DRIVE_FILE_FIELDS, DriveFileSchema } from '../../schemas/index.ts';
+import type { ToolDeps } from '../../types.ts';
+
+const inputSchema = z.object({
+  pageToken: z.string().min(1).optional().describe('Change feed token from changes-start-token, or nextPageToken/newStartPageToken from a previous call'),
+  sinceLastCheck: z.boolean().optional().describe("Resume from this account's saved cursor and save the new position afterwards. The first call only initializes the cursor"),
+  since: z.string().optional().describe('ISO datetime the token was issued (issuedAt from changes-start-token). Files created after it are reported as added; defaults to the saved cursor time with sinceLastCheck'),
+  driveId: z.string().min(1).optional().describe('Shared drive ID to list changes for (must match the drive the token was issued for)'),
+  includeRemoved: z.boolean().optional().describe('Include files that were deleted or are no longer accessible (default: true)'),
+  fields: createFieldsSchema({
+    availableFields: DRIVE_FILE_FIELDS,
+    fieldDescriptions: DRIVE_FILE_FIELD_DESCRIPTIONS,
+    commonPatterns: DRIVE_FILE_COMMON_PATTERNS,
+    resourceName: 'Drive file',
+  }),
+  pageSize: createPaginationSchema({
+    defaultPageSize: 100,
+    maxPageSize: 1000,
+    provider: 'drive',
+  }).shape.pageSize,
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  added: z.array(DriveFileSchema).describe('Files created since the token was issued'),
+  modified: z.array(DriveFileSchema).describe('Existing files that changed (content, metadata, sharing or location)'),
+  removed: z.array(DriveFileSchema).describe('Files that were trashed, deleted or are no longer accessible'),
+  count: z.number().describe('Number of file changes in this page'),
+  nextPageToken: z.string().optional().describe('More changes are available; pass as pageToken to continue'),
+  newStartPageToken: z.string().optional().describe('Token for future changes (present on the last page); save it for the next check'),
+  cursorSaved: z.boolean().optional().describe('Whether the account cursor was updated (sinceLastCheck)'),
+  cursorInitialized: z.boolean().optional().describe('True when no cursor existed yet and one was created; changes will be reported from the next call'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'List Drive Changes',
+  description: 'List files added, modified or removed since a change feed token (from changes-start-token) or since the last check (sinceLastCheck). Use instead of re-scanning with modifiedTime queries.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+  annotations: { readOnlyHint: true },
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+const CHANGE_API_FIELDS = `changes(changeType,removed,fileId,time,file(${DRIVE_FILE_API_FIELDS},createdTime,trashed)),nextPageToken,newStartPageToken`;
+
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ pageToken, sinceLastCheck = false, since, driveId, includeRemoved = true, fields, pageSize = 100 }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    const accountId = extra.authContext.accountId;
+
+    const requestedFields = parseFields(fields, DRIVE_FILE_FIELDS);
+
+    // Validate and clamp pageSize to Google Drive API limits (1-1000)
+    const validPageSize = Math.max(1, Math.min(1000, Math.floor(pageSize || 100)));
+
+    logger.info('drive.changes.list called', {
+      pageToken: pageToken ? '[provided]' : undefined,
+      sinceLastCheck,
+      driveId,
+      pageSize: validPageSize,
+      fields: fields || 'all',
+    });
+
+    const changeCursors = deps?.changeCursors;
+    if (sinceLastCheck && !changeCursors) {
+      throw new McpError(ErrorCode.InvalidParams, 'Cursor persistence is not available in this server configuration');
+    }
+    if (!pageToken && !sinceLastCheck) {
+      throw new McpError(ErrorCode.InvalidParams, 'Provide pageToken (from changes-start-token) or set sinceLastCheck');
+    }
+
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+      const cursor = sinceLastCheck && changeCursors ? await changeCursors.get(accountId, driveId) : undefined;
+      const token = pageToken ?? cursor?.pageToken;
+
+      // First check for this account: start tracking from now
+      if (!token && changeCursors) {
+        const start = await drive.changes.getStartPageToken({ supportsAllDrives: true, ...(driveId && { driveId }) });
+        if (!start.data.startPageToken) throw new Error('Drive did not return a start page token');
+        await changeCursors.set(accountId, start.data.startPageToken, { driveId });
+
+        logger.info('drive.changes.list cursor initialized', { driveId });
+
+        const result: Output = {
+          type: 'success' as const,
+          added: [],
+          modified: [],
+          removed: [],
+          count: 0,
+          newStartPageToken: start.data.startPageToken,
+          cursorSaved: true,
+          cursorInitialized: true,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(result),
+            },
+          ],
+          structuredContent: { result },
+        };
+      }
+
+      const response = await drive.changes.list({
+        pageToken: token as string,
+        pageSize: validPageSize,
+        fields: CHANGE_API_FIELDS,
+        includeRemoved,
+        supportsAllDrives: true,
+        includeItemsFromAllDrives: true,
+        ...(driveId && { driveId }),
+      });
+
+      // Shared drive metadata changes (changeType "drive") are not file changes
+      const changes = (response.data.changes ?? []).filter((c) => c.changeType !== 'drive');
+      const presentFiles = changes.filter((c) => !c.removed && c.file).map((c) => c.file as drive_v3.Schema$File);
+      const parentNameMap = await fetchParentNames(drive, collectParentIds(presentFiles), logger, deps?.metadataCache?.forAccount(extra.authContext.accountId));
+
+      const sinceTime = since ?? cursor?.savedAt;
+      const added: Record<string, unknown>[] = [];
+      const modified: Record<string, unknown>[] = [];
+      const removed: Record<string, unknown>[] = [];
+      for (const change of changes) {
+        const file = change.file;
+        if (change.removed || !file) {
+          removed.push(filterFields(toDriveFile({ id: change.fileId ?? null, ...(file?.name && { name: file.name }) }), requestedFields));
+        } else if (file.trashed) {
+          removed.push(filterFields(toDriveFile(file, parentNameMap), requestedFields));
+        } else if (sinceTime && file.createdTime && file.createdTime > sinceTime) {
+          added.push(filterFields(toDriveFile(file, parentNameMap), requestedFields));
+        } else {
+          modified.push(filterFields(toDriveFile(file, parentNameMap), requestedFields));
+        }
+      }
+
+      const nextPageToken = response.data.nextPageToken ?? undefined;
+      const newStartPageToken = response.data.newStartPageToken ?? undefined;
+
+      // Save where to resume; keep the original cursor time while paging so added files are still detected
+      let cursorSaved: boolean | undefined;
+      if (sinceLastCheck && changeCursors) {
+        const resumeToken = nextPageToken ?? newStartPageToken;
+        if (resumeToken) {
+          await changeCursors.set(accountId, resumeToken, { driveId, ...(nextPageToken && sinceTime && { savedAt: sinceTime }) });
+          cursorSaved = true;
+        } else {
+          cursorSaved = false;
+        }
+      }
+
+      logger.info('drive.changes.list returning', {
+        added: added.length,
+        modified: modified.length,
+        removed: removed.length,
+        hasMore: !!nextPageToken,
+      });
+
+      const result: Output = {
+        type: 'success' as const,
+        added,
+        modified,
+        removed,
+        count: changes.length,
+        ...(nextPageToken && { nextPageToken }),
+        ...(newStartPageToken && { newStartPageToken }),
+        ...(cursorSaved !== undefined && { cursorSaved }),
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.changes.list error', { error: message });
+
+      // Throw McpError
+      throw toMcpError(error, 'Error listing changes');
+    }
+  }
+
+  return {
+    name: 'changes-list' as const,
+    config,
+    handler,
+  };
+}
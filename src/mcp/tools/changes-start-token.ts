@@ -0,0 +1,100 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import type { ToolDeps } from '../../types.ts';
+
+const inputSchema = z.object({
+  driveId: z.string().min(1).optional().describe('Shared drive ID to track (from drives-list). Omit to track My Drive and shared-with-me files'),
+  persist: z.boolean().optional().describe("Save the token as this account's cursor so changes-list with sinceLastCheck starts from now (default: false)"),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  startPageToken: z.string().describe('Token to pass as pageToken to changes-list'),
+  issuedAt: z.string().describe('ISO datetime when the token was issued (pass as since to changes-list to detect added files)'),
+  driveId: z.string().optional().describe('Shared drive the token tracks'),
+  saved: z.boolean().describe('Whether the token was saved as the account cursor'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Get Changes Start Token',
+  description: 'Get a change feed token representing "now". Changes made after this point can be listed with changes-list.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+  annotations: { readOnlyHint: true },
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ driveId, persist = false }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    logger.info('drive.changes.startToken called', { driveId, persist });
+
+    const changeCursors = deps?.changeCursors;
+    if (persist && !changeCursors) {
+      throw new McpError(ErrorCode.InvalidParams, 'Cursor persistence is not available in this server configuration');
+    }
+
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+      const response = await drive.changes.getStartPageToken({
+        supportsAllDrives: true,
+        ...(driveId && { driveId }),
+      });
+      const startPageToken = response.data.startPageToken;
+      if (!startPageToken) throw new Error('Drive did not return a start page token');
+
+      const issuedAt = new Date().toISOString();
+      if (persist && changeCursors) {
+        await changeCursors.set(extra.authContext.accountId, startPageToken, { driveId, savedAt: issuedAt });
+      }
+
+      logger.info('drive.changes.startToken success', { driveId, saved: persist });
+
+      const result: Output = {
+        type: 'success' as const,
+        startPageToken,
+        issuedAt,
+        ...(driveId && { driveId }),
+        saved: persist,
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.changes.startToken error', { error: message });
+
+      // Throw McpError
+      throw toMcpError(error, 'Error getting changes start token');
+    }
+  }
+
+  return {
+    name: 'changes-start-token' as const,
+    config,
+    handler,
+  };
+}
@@ -0,0 +1,121 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { createPaginationSchema } from '@mcp-z/server';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+
+const inputSchema = z.object({
+  query: z.string().min(1).optional().describe('Shared drive search query (e.g. "name contains \'Engineering\'"). Omit to list all shared drives you are a member of'),
+  ...createPaginationSchema({
+    defaultPageSize: 50,
+    maxPageSize: 100,
+    provider: 'drive',
+  }).shape,
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  items: z
+    .array(
+      z.object({
+        id: z.string().describe('Shared drive ID (use as driveId, or as folderId for its root)'),
+        name: z.string().describe('Shared drive name'),
+        createdTime: z.string().optional().describe('ISO datetime when the shared drive was created'),
+        hidden: z.boolean().optional().describe('Whether the shared drive is hidden from the default view'),
+      })
+    )
+    .describe('Shared drives'),
+  count: z.number().describe('Number of shared drives in this page'),
+  nextPageToken: z.string().optional().describe('Token for fetching next page of results'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'List Shared Drives',
+  description: 'List shared drives (Team Drives) you can access. Use the returned IDs as driveId in search tools or as folderId for the drive root.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+  annotations: { readOnlyHint: true },
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+async function handler({ query, pageSize = 50, pageToken }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+  const logger = extra.logger;
+
+  // Validate and clamp pageSize to Google Drive API limits (1-100)
+  const validPageSize = Math.max(1, Math.min(100, Math.floor(pageSize || 50)));
+
+  logger.info('drive.drives-list called', {
+    query,
+    pageSize: validPageSize,
+    pageToken: pageToken ? '[provided]' : undefined,
+  });
+
+  try {
+    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+    const response = await drive.drives.list({
+      pageSize: validPageSize,
+      fields: 'drives(id,name,createdTime,hidden),nextPageToken',
+      ...(query && { q: query }),
+      ...(pageToken && pageToken.trim().length > 0 && { pageToken }),
+    });
+
+    const items = (response.data.drives ?? []).map((d) => {
+      const id = d.id ?? 'unknown';
+      return {
+        id,
+        name: d.name || id,
+        ...(d.createdTime && { createdTime: d.createdTime }),
+        ...(d.hidden != null && { hidden: d.hidden }),
+      };
+    });
+
+    logger.info('drive.drives-list returning', { resultCount: items.length });
+
+    const nextPageToken = response.data.nextPageToken && response.data.nextPageToken.trim().length > 0 ? response.data.nextPageToken : undefined;
+
+    const result: Output = {
+      type: 'success' as const,
+      items,
+      count: items.length,
+      ...(nextPageToken && { nextPageToken }),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(result),
+        },
+      ],
+      structuredContent: { result },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('drive.drives-list error', { error: message });
+
+    // Throw McpError
+    throw toMcpError(error, 'Error listing shared drives');
+  }
+}
+
+export default function createTool() {
+  return {
+    name: 'drives-list' as const,
+    config,
+    handler,
+  };
+}
@@ -0,0 +1,91 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { COMMENT_API_FIELDS, toDriveComment } from '../../lib/comments.ts';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { DriveCommentSchema } from '../../schemas/index.ts';
+
+const inputSchema = z.object({
+  fileId: z.string().min(1).describe('File ID or path (e.g. "path:/Work/Plan.md")'),
+  content: z.string().min(1).describe('Plain text content of the comment'),
+  quotedContent: z.string().optional().describe('Document text the comment refers to (shown with the comment; Google Docs editors do not anchor API comments to this text)'),
+  anchor: z.string().optional().describe('Anchor region as a JSON string (see the Drive API comments guide); omit for an unanchored comment'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  fileId: z.string().describe('ID of the file'),
+  comment: DriveCommentSchema.describe('Created comment'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Create File Comment',
+  description: 'Add a comment to a file. Use file-comment-reply to answer an existing thread.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+async function handler({ fileId, content, quotedContent, anchor }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+  const logger = extra.logger;
+  logger.info('drive.file.commentCreate called', { fileId, quoted: !!quotedContent, anchored: !!anchor });
+
+  try {
+    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+    const response = await drive.comments.create({
+      fileId,
+      fields: COMMENT_API_FIELDS,
+      requestBody: {
+        content,
+        ...(quotedContent && { quotedFileContent: { mimeType: 'text/plain', value: quotedContent } }),
+        ...(anchor && { anchor }),
+      },
+    });
+
+    logger.info('drive.file.commentCreate success', { fileId, commentId: response.data.id });
+
+    const result: Output = {
+      type: 'success' as const,
+      fileId,
+      comment: toDriveComment(response.data),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(result),
+        },
+      ],
+      structuredContent: { result },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('drive.file.commentCreate error', { error: message });
+
+    // Throw McpError
+    throw toMcpError(error, 'Error creating comment');
+  }
+}
+
+export default function createTool() {
+  return {
+    name: 'file-comment-create' as const,
+    config,
+    handler,
+  };
+}
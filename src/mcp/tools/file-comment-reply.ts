@@ -0,0 +1,93 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { REPLY_API_FIELDS, toDriveCommentReply } from '../../lib/comments.ts';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { DriveCommentReplySchema, REPLY_ACTIONS } from '../../schemas/index.ts';
+
+const inputSchema = z.object({
+  fileId: z.string().min(1).describe('File ID or path (e.g. "path:/Work/Plan.md")'),
+  commentId: z.string().min(1).describe('Comment ID (from file-comments-list)'),
+  content: z.string().min(1).describe('Plain text content of the reply'),
+  action: z.enum(REPLY_ACTIONS).optional().describe('Also resolve or reopen the thread with this reply'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  fileId: z.string().describe('ID of the file'),
+  commentId: z.string().describe('ID of the comment replied to'),
+  reply: DriveCommentReplySchema.describe('Created reply'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Reply to File Comment',
+  description: 'Reply to a comment thread on a file, optionally resolving or reopening it.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+async function handler({ fileId, commentId, content, action }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+  const logger = extra.logger;
+  logger.info('drive.file.commentReply called', { fileId, commentId, action });
+
+  try {
+    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+    const response = await drive.replies.create({
+      fileId,
+      commentId,
+      fields: REPLY_API_FIELDS,
+      requestBody: {
+        content,
+        ...(action && { action }),
+      },
+    });
+
+    logger.info('drive.file.commentReply success', { fileId, commentId, replyId: response.data.id });
+
+    const result: Output = {
+      type: 'success' as const,
+      fileId,
+      commentId,
+      reply: toDriveCommentReply(response.data),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(result),
+        },
+      ],
+      structuredContent: { result },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('drive.file.commentReply error', { error: message });
+
+    // Throw McpError
+    throw toMcpError(error, 'Error replying to comment');
+  }
+}
+
+export default function createTool() {
+  return {
+    name: 'file-comment-reply' as const,
+    config,
+    handler,
+  };
+}
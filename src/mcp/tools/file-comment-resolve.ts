@@ -0,0 +1,154 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { REPLY_API_FIELDS, toDriveCommentReply } from '../../lib/comments.ts';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { type DriveCommentReply, DriveCommentReplySchema } from '../../schemas/index.ts';
+
+interface ResolveResult {
+  commentId: string;
+  reply: DriveCommentReply;
+}
+
+interface ResolveFailure {
+  commentId: string;
+  error: string;
+  code?: string;
+}
+
+const inputSchema = z.object({
+  fileId: z.string().min(1).describe('File ID or path (e.g. "path:/Work/Plan.md")'),
+  commentIds: z.union([z.string().min(1), z.array(z.string().min(1)).min(1).max(100)]).describe('Comment ID(s) to resolve. Single ID or array (max 100 for batch)'),
+  content: z.string().min(1).optional().describe('Optional closing note posted as the resolving reply'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  fileId: z.string().describe('ID of the file'),
+  resolved: z
+    .array(
+      z.object({
+        commentId: z.string().describe('ID of the resolved comment'),
+        reply: DriveCommentReplySchema.describe('Reply that resolved the thread (reopen with file-comment-reply action "reopen")'),
+      })
+    )
+    .describe('Successfully resolved comments'),
+  failed: z
+    .array(
+      z.object({
+        commentId: z.string().describe('ID of the comment that failed'),
+        error: z.string().describe('Error message explaining the failure'),
+        code: z.string().optional().describe('API error code if available'),
+      })
+    )
+    .optional()
+    .describe('Comments that failed to resolve'),
+  totalRequested: z.number().describe('Total number of comments requested to resolve'),
+  totalResolved: z.number().describe('Number of comments successfully resolved'),
+  totalFailed: z.number().describe('Number of comments that failed to resolve'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Resolve File Comments',
+  description: 'Resolve one or more comment threads on a file, optionally with a closing note.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+async function handler({ fileId, commentIds, content }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+  const logger = extra.logger;
+  const commentIdArray = Array.isArray(commentIds) ? commentIds : [commentIds];
+
+  logger.info('drive.file.commentResolve called', { fileId, commentCount: commentIdArray.length });
+
+  try {
+    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+    const results = await Promise.allSettled(
+      commentIdArray.map(async (commentId): Promise<ResolveResult> => {
+        const response = await drive.replies.create({
+          fileId,
+          commentId,
+          fields: REPLY_API_FIELDS,
+          requestBody: {
+            action: 'resolve',
+            ...(content && { content }),
+          },
+        });
+        return { commentId, reply: toDriveCommentReply(response.data) };
+      })
+    );
+
+    const resolved: ResolveResult[] = [];
+    const failed: ResolveFailure[] = [];
+    results.forEach((result, index) => {
+      const commentId = commentIdArray[index];
+      if (!commentId) return;
+      if (result.status === 'fulfilled') {
+        resolved.push(result.value);
+      } else {
+        logger.info('Failed to resolve comment', { fileId, commentId, error: result.reason });
+        const error = result.reason as { message?: string; code?: number | string } | undefined;
+        failed.push({
+          commentId,
+          error: error?.message ? error.message : String(result.reason),
+          ...(error?.code && { code: String(error.code) }),
+        });
+      }
+    });
+
+    logger.info('drive.file.commentResolve returning', {
+      totalRequested: commentIdArray.length,
+      totalResolved: resolved.length,
+      totalFailed: failed.length,
+    });
+
+    const result: Output = {
+      type: 'success' as const,
+      fileId,
+      resolved,
+      ...(failed.length > 0 && { failed }),
+      totalRequested: commentIdArray.length,
+      totalResolved: resolved.length,
+      totalFailed: failed.length,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(result),
+        },
+      ],
+      structuredContent: { result },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('drive.file.commentResolve error', { error: message });
+
+    // Throw McpError
+    throw toMcpError(error, 'Error resolving comments');
+  }
+}
+
+export default function createTool() {
+  return {
+    name: 'file-comment-resolve' as const,
+    config,
+    handler,
+  };
+}
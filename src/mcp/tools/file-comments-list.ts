@@ -0,0 +1,154 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { createFieldsSchema, createPaginationSchema, createShapeSchema, filterFields, parseFields, toColumnarFormat } from '@mcp-z/server';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { COMMENT_API_FIELDS, toDriveComment } from '../../lib/comments.ts';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { COMMENT_STATUSES, DRIVE_COMMENT_COMMON_PATTERNS, DRIVE_COMMENT_FIELD_DESCRIPTIONS, DRIVE_COMMENT_FIELDS, DriveCommentSchema } from '../../schemas/index.ts';
+
+const inputSchema = z.object({
+  fileId: z.string().min(1).describe('File ID or path (e.g. "path:/Work/Plan.md")'),
+  status: z.enum(COMMENT_STATUSES).optional().describe('Filter by thread status: unresolved (open threads), resolved, or all (default: all)'),
+  modifiedSince: z.string().optional().describe('Only return comments created or replied to after this ISO datetime'),
+  fields: createFieldsSchema({
+    availableFields: DRIVE_COMMENT_FIELDS,
+    fieldDescriptions: DRIVE_COMMENT_FIELD_DESCRIPTIONS,
+    commonPatterns: DRIVE_COMMENT_COMMON_PATTERNS,
+    resourceName: 'Drive comment',
+  }),
+  ...createPaginationSchema({
+    defaultPageSize: 20,
+    maxPageSize: 100,
+    provider: 'drive',
+  }).shape,
+  shape: createShapeSchema(),
+});
+
+// Success branch schemas for different shapes
+const successObjectsBranchSchema = z.object({
+  type: z.literal('success'),
+  shape: z.literal('objects'),
+  items: z.array(DriveCommentSchema).describe('Comments on the file'),
+  count: z.number().describe('Number of comments in this page (after status filtering)'),
+  nextPageToken: z.string().optional().describe('Token for fetching next page of results'),
+});
+
+const successArraysBranchSchema = z.object({
+  type: z.literal('success'),
+  shape: z.literal('arrays'),
+  columns: z.array(z.string()).describe('Column names in canonical order'),
+  rows: z.array(z.array(z.unknown())).describe('Row data matching column order'),
+  count: z.number().describe('Number of comments in this page (after status filtering)'),
+  nextPageToken: z.string().optional().describe('Token for fetching next page of results'),
+});
+
+// Output schema with auth_required support
+// Using z.union instead of discriminatedUnion since we have two success branches with different shapes
+const outputSchema = z.union([successObjectsBranchSchema, successArraysBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'List File Comments',
+  description: 'List comment threads on a file with quoted content, anchor, author and replies. Filter by resolved/unresolved status; status filtering is applied per page, so a page may hold fewer items than pageSize while nextPageToken is still set.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+  annotations: { readOnlyHint: true },
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+async function handler({ fileId, status = 'all', modifiedSince, pageSize = 20, pageToken, fields, shape = 'arrays' }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+  const logger = extra.logger;
+
+  const requestedFields = parseFields(fields, DRIVE_COMMENT_FIELDS);
+
+  // Validate and clamp pageSize to Google Drive API limits (1-100)
+  const validPageSize = Math.max(1, Math.min(100, Math.floor(pageSize || 20)));
+
+  logger.info('drive.file.commentsList called', {
+    fileId,
+    status,
+    modifiedSince,
+    pageSize: validPageSize,
+    pageToken: pageToken ? '[provided]' : undefined,
+    fields: fields || 'all',
+  });
+
+  try {
+    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+    const response = await drive.comments.list({
+      fileId,
+      pageSize: validPageSize,
+      fields: `comments(${COMMENT_API_FIELDS}),nextPageToken`,
+      ...(modifiedSince && { startModifiedTime: modifiedSince }),
+      ...(pageToken && pageToken.trim().length > 0 && { pageToken }),
+    });
+
+    // Drive has no server-side resolved filter, so filter the page here
+    const comments = (response.data.comments ?? []).filter((c) => {
+      if (c.deleted) return false;
+      if (status === 'resolved') return c.resolved === true;
+      if (status === 'unresolved') return c.resolved !== true;
+      return true;
+    });
+    const filteredItems = comments.map((c) => filterFields(toDriveComment(c), requestedFields));
+
+    logger.info('drive.file.commentsList returning', {
+      fileId,
+      resultCount: filteredItems.length,
+      fields: fields || 'all',
+    });
+
+    const nextPageToken = response.data.nextPageToken && response.data.nextPageToken.trim().length > 0 ? response.data.nextPageToken : undefined;
+
+    // Build result based on shape
+    const result: Output =
+      shape === 'arrays'
+        ? {
+            type: 'success' as const,
+            shape: 'arrays' as const,
+            ...toColumnarFormat(filteredItems, requestedFields, DRIVE_COMMENT_FIELDS),
+            count: filteredItems.length,
+            ...(nextPageToken && { nextPageToken }),
+          }
+        : {
+            type: 'success' as const,
+            shape: 'objects' as const,
+            items: filteredItems,
+            count: filteredItems.length,
+            ...(nextPageToken && { nextPageToken }),
+          };
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(result),
+        },
+      ],
+      structuredContent: { result },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('drive.file.commentsList error', { error: message });
+
+    // Throw McpError
+    throw toMcpError(error, 'Error listing comments');
+  }
+}
+
+export default function createTool() {
+  return {
+    name: 'file-comments-list' as const,
+    config,
+    handler,
+  };
+}
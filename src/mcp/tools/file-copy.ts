@@ -0,0 +1,250 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { type drive_v3, google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { collectParentIds, DRIVE_FILE_API_FIELDS, fetchParentNames, toDriveFile } from '../../lib/drive-file.ts';
+import { FOLDER_MIME_TYPE } from '../../lib/file-content.ts';
+import { DriveFileSchema } from '../../schemas/index.ts';
+import type { Logger, ToolDeps } from '../../types.ts';
+
+const DEFAULT_MAX_ITEMS = 1000;
+
+interface FailedCopy {
+  fileId: string;
+  name?: string;
+  error: string;
+  code?: string;
+}
+
+interface CopyState {
+  idMap: Record<string, string>;
+  failed: FailedCopy[];
+  copiedCount: number;
+  maxItems: number;
+  truncated: boolean;
+}
+
+const inputSchema = z.object({
+  fileId: z.string().min(1).describe('ID or path (e.g. "path:/Work/Plan.md") of the file or folder to copy'),
+  name: z.string().trim().min(1).optional().describe('Name for the copy (default: "Copy of <original name>")'),
+  parentId: z.string().min(1).optional().describe('Destination folder ID, shared drive ID or path (default: same folder as the original)'),
+  recursive: z.boolean().optional().describe('Copy a folder and everything inside it (required for folders)'),
+  maxItems: z.number().int().min(1).max(10000).optional().describe(`Maximum number of items to copy in recursive mode (default: ${DEFAULT_MAX_ITEMS})`),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  operationSummary: z.string().describe('Summary of the copy operation'),
+  item: DriveFileSchema.describe('The new copy (top-level file or folder)'),
+  idMap: z.record(z.string(), z.string()).describe('Map of original item ID to copied item ID'),
+  failed: z
+    .array(
+      z.object({
+        fileId: z.string().describe('ID of the original item that failed to copy'),
+        name: z.string().optional().describe('Name of the original item'),
+        error: z.string().describe('Error message explaining the failure'),
+        code: z.string().optional().describe('API error code if available'),
+      })
+    )
+    .optional()
+    .describe('Items that failed to copy'),
+  totalCopied: z.number().describe('Number of items copied (including folders)'),
+  totalFailed: z.number().describe('Number of items that failed to copy'),
+  truncated: z.boolean().optional().describe('True when maxItems was reached before the whole tree was copied'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Copy File or Folder',
+  description: 'Copy a file with an optional new name and parent. Set recursive=true to deep-copy a folder tree (e.g. templates). Returns an original→copy ID map.',
+  inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+function toFailedCopy(file: { id: string; name?: string | null }, e: unknown): FailedCopy {
+  const error = e as { message?: string; code?: number | string } | undefined;
+  return {
+    fileId: file.id,
+    ...(file.name && { name: file.name }),
+    error: error?.message ? error.message : String(e),
+    ...(error?.code && { code: String(error.code) }),
+  };
+}
+
+/**
+ * List all non-trashed children of a folder (follows pagination)
+ */
+async function listChildren(drive: drive_v3.Drive, folderId: string): Promise<drive_v3.Schema$File[]> {
+  const children: drive_v3.Schema$File[] = [];
+  let pageToken: string | undefined;
+  do {
+    const response = await drive.files.list({
+      q: `'${folderId}' in parents and trashed = false`,
+      fields: 'files(id,name,mimeType),nextPageToken',
+      pageSize: 1000,
+      supportsAllDrives: true,
+      includeItemsFromAllDrives: true,
+      corpora: 'allDrives',
+      ...(pageToken && { pageToken }),
+    });
+    children.push(...(response.data.files ?? []));
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (pageToken);
+  return children;
+}
+
+/**
+ * Recreate the contents of sourceFolderId inside targetFolderId.
+ * Folders are created (not copied - Drive cannot copy folders) and files are copied with files.copy.
+ */
+async function copyFolderContents(drive: drive_v3.Drive, sourceFolderId: string, targetFolderId: string, state: CopyState, logger: Logger): Promise<void> {
+  const children = await listChildren(drive, sourceFolderId);
+
+  for (const child of children) {
+    const id = child.id;
+    if (!id || state.idMap[id] !== undefined) continue;
+    // Skip copies we created ourselves (destination inside the source tree)
+    if (Object.values(state.idMap).includes(id)) continue;
+    if (state.copiedCount >= state.maxItems) {
+      state.truncated = true;
+      return;
+    }
+
+    try {
+      if (child.mimeType === FOLDER_MIME_TYPE) {
+        const created = await drive.files.create({
+          requestBody: { name: child.name ?? id, mimeType: FOLDER_MIME_TYPE, parents: [targetFolderId] },
+          fields: 'id',
+          supportsAllDrives: true,
+        });
+        const newId = created.data.id ?? '';
+        state.idMap[id] = newId;
+        state.copiedCount++;
+        await copyFolderContents(drive, id, newId, state, logger);
+      } else {
+        const copied = await drive.files.copy({
+          fileId: id,
+          requestBody: { name: child.name ?? null, parents: [targetFolderId] },
+          fields: 'id',
+          supportsAllDrives: true,
+        });
+        state.idMap[id] = copied.data.id ?? '';
+        state.copiedCount++;
+      }
+    } catch (e) {
+      logger.info('Failed to copy item', { fileId: id, error: e });
+      state.failed.push(toFailedCopy({ id, name: child.name }, e));
+    }
+  }
+}
+
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ fileId, name, parentId, recursive = false, maxItems = DEFAULT_MAX_ITEMS }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    logger.info('drive.file.copy called', { fileId, name, parentId, recursive, maxItems });
+
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+      const source = await drive.files.get({
+        fileId,
+        fields: 'id,name,mimeType,parents',
+        supportsAllDrives: true,
+      });
+      const sourceName = source.data.name ?? fileId;
+      const isFolder = source.data.mimeType === FOLDER_MIME_TYPE;
+
+      if (isFolder && !recursive) {
+        throw new McpError(ErrorCode.InvalidParams, `"${sourceName}" is a folder - set recursive=true to copy it with its contents`);
+      }
+
+      const copyName = name ?? `Copy of ${sourceName}`;
+      const parents = parentId ? [parentId] : (source.data.parents ?? undefined);
+      const state: CopyState = { idMap: {}, failed: [], copiedCount: 0, maxItems, truncated: false };
+
+      let topLevel: drive_v3.Schema$File;
+      if (isFolder) {
+        const created = await drive.files.create({
+          requestBody: { name: copyName, mimeType: FOLDER_MIME_TYPE, ...(parents && { parents }) },
+          fields: `${DRIVE_FILE_API_FIELDS},createdTime`,
+          supportsAllDrives: true,
+        });
+        topLevel = created.data;
+        state.idMap[fileId] = topLevel.id ?? '';
+        state.copiedCount++;
+        await copyFolderContents(drive, fileId, topLevel.id ?? '', state, logger);
+      } else {
+        const copied = await drive.files.copy({
+          fileId,
+          requestBody: { name: copyName, ...(parents && { parents }) },
+          fields: `${DRIVE_FILE_API_FIELDS},createdTime,size`,
+          supportsAllDrives: true,
+        });
+        topLevel = copied.data;
+        state.idMap[fileId] = topLevel.id ?? '';
+        state.copiedCount++;
+      }
+
+      const parentNameMap = await fetchParentNames(drive, collectParentIds([topLevel]), logger, deps?.metadataCache?.forAccount(extra.authContext.accountId));
+      const item = toDriveFile(topLevel, parentNameMap);
+
+      logger.info('drive.file.copy success', {
+        fileId,
+        newId: item.id,
+        totalCopied: state.copiedCount,
+        totalFailed: state.failed.length,
+        truncated: state.truncated,
+      });
+
+      const itemsNote = isFolder ? ` (${state.copiedCount} item${state.copiedCount === 1 ? '' : 's'}${state.failed.length > 0 ? `, ${state.failed.length} failed` : ''}${state.truncated ? ', stopped at maxItems' : ''})` : '';
+
+      const result: Output = {
+        type: 'success' as const,
+        operationSummary: `Copied "${sourceName}" to "${item.name}"${itemsNote}`,
+        item,
+        idMap: state.idMap,
+        ...(state.failed.length > 0 && { failed: state.failed }),
+        totalCopied: state.copiedCount,
+        totalFailed: state.failed.length,
+        ...(state.truncated && { truncated: true }),
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.file.copy error', { error: message });
+
+      // Throw McpError for proper MCP error handling
+      throw toMcpError(error, 'Error copying file');
+    }
+  }
+
+  return {
+    name: 'file-copy' as const,
+    config,
+    handler,
+  };
+}
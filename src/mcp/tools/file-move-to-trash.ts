@@ -3,14 +3,22 @@ import { schemas } from '@mcp-z/oauth-google';
 
 const { AuthRequiredBranchSchema } = schemas;
 
-import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { google } from 'googleapis';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { type drive_v3, google } from 'googleapis';
 import { z } from 'zod';
+import { batchGetFiles } from '../../lib/drive-batch.ts';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { childPath, createPathResolver, DRY_RUN_API_FIELDS, toDryRunBranch, trashProblems, unreadableChange } from '../../lib/dry-run.ts';
+import type { AccountMetadataCache } from '../../lib/metadata-cache.ts';
+import { recordOperation } from '../../lib/operation-journal.ts';
+import { DryRunBranchSchema, type PlannedChange } from '../../schemas/index.ts';
+import type { Logger, ToolDeps } from '../../types.ts';
 
 const MAX_BATCH_SIZE = 1000;
 
 const inputSchema = z.object({
-  ids: z.array(z.string().min(1)).min(1).max(MAX_BATCH_SIZE).describe('File IDs to soft delete (move to trash)'),
+  ids: z.array(z.string().min(1)).min(1).max(MAX_BATCH_SIZE).describe('File IDs or paths (e.g. "path:/Work/Plan.md") to soft delete (move to trash)'),
+  dryRun: z.boolean().optional().describe('Plan the trash without changing anything: returns names, current paths and permission problems (default: false)'),
 });
 
 // Success branch schema
@@ -31,14 +39,15 @@ const successBranchSchema = z.object({
     )
     .optional()
     .describe('Details of any files that failed to trash'),
+  operationId: z.string().optional().describe('Pass to operation-undo to restore the trashed files'),
 });
 
 // Output schema with auth_required support
-const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, DryRunBranchSchema, AuthRequiredBranchSchema]);
 
 const config = {
   title: 'Move Files to Trash',
-  description: 'Move files to trash (recoverable for 30 days).',
+  description: 'Move files to trash (recoverable for 30 days with file-restore, or all at once with operation-undo). Pass dryRun: true to preview.',
   inputSchema: inputSchema,
   outputSchema: z.object({
     result: outputSchema,
@@ -48,80 +57,132 @@ const config = {
 export type Input = z.infer<typeof inputSchema>;
 export type Output = z.infer<typeof outputSchema>;
 
-async function handler({ ids }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
-  const logger = extra.logger;
-  logger.info('drive.file.moveToTrash called', { count: ids.length });
-
-  try {
-    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
-
-    const results = await Promise.allSettled(
-      ids.map(async (id) => {
-        await drive.files.update({
-          fileId: id,
-          requestBody: { trashed: true },
-        });
-        return id;
-      })
-    );
-
-    // Separate successes and failures
-    const failures: Array<{ id: string; error: string }> = [];
-
-    results.forEach((result, index) => {
-      const id = ids[index];
-      if (!id) return;
+/**
+ * Plan trashing without changing anything: one batch read for the files,
+ * then current paths and the problems that would make each trash fail
+ */
+async function planTrash(drive: drive_v3.Drive, ids: string[], logger: Logger, cache?: AccountMetadataCache): Promise<PlannedChange[]> {
+  const metadata = await batchGetFiles(drive, ids, DRY_RUN_API_FIELDS, { logger });
+  const resolvePath = createPathResolver(drive, logger, cache);
+
+  return Promise.all(
+    ids.map(async (fileId): Promise<PlannedChange> => {
+      const file = metadata.get(fileId);
+      if (!file) return unreadableChange(fileId);
+      if (file instanceof Error) return unreadableChange(fileId, file);
+      const name = file.name || fileId;
+      const parentId = file.parents?.[0];
+      const currentPath = parentId ? childPath((await resolvePath(parentId)).path, name) : undefined;
+      const problems = trashProblems(file);
+      return {
+        fileId,
+        name,
+        ...(currentPath && { currentPath }),
+        ...(problems.length > 0 && { problems }),
+      };
+    })
+  );
+}
 
-      if (result.status === 'rejected') {
-        const errorMessage = result.reason instanceof Error ? result.reason.message : String(result.reason);
-        failures.push({ id, error: errorMessage });
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ ids, dryRun = false }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    logger.info('drive.file.moveToTrash called', { count: ids.length, dryRun });
+
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+      if (dryRun) {
+        const changes = await planTrash(drive, ids, logger, deps?.metadataCache?.forAccount(extra.authContext.accountId));
+        const result: Output = toDryRunBranch(`Move ${ids.length} file${ids.length === 1 ? '' : 's'} to trash`, changes);
+        logger.info('drive.file.moveToTrash dry run', { totalRequested: result.totalRequested, totalBlocked: result.totalBlocked });
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(result),
+            },
+          ],
+          structuredContent: { result },
+        };
       }
-    });
-
-    const successCount = ids.length - failures.length;
-    const failureCount = failures.length;
-    const totalCount = ids.length;
-
-    logger.info('drive.file.moveToTrash completed', {
-      totalCount,
-      successCount,
-      failureCount,
-    });
-
-    const operationSummary = failureCount === 0 ? `Moved ${successCount} file${successCount === 1 ? '' : 's'} to trash (recoverable for 30 days)` : `Moved ${successCount} of ${totalCount} file${totalCount === 1 ? '' : 's'} to trash (${failureCount} failed, recoverable for 30 days)`;
-
-    const result: Output = {
-      type: 'success' as const,
-      operationSummary,
-      totalCount,
-      successCount,
-      failureCount,
-      recoverable: true,
-      recoverableDays: 30,
-      ...(failures.length > 0 && { failures }),
-    };
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result),
-        },
-      ],
-      structuredContent: { result },
-    };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    logger.error('drive.file.moveToTrash error', { error: message });
-
-    // Throw McpError
-    throw new McpError(ErrorCode.InternalError, `Error moving files to trash: ${message}`, {
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+
+      const results = await Promise.allSettled(
+        ids.map(async (id) => {
+          await drive.files.update({
+            fileId: id,
+            requestBody: { trashed: true },
+            supportsAllDrives: true,
+          });
+          return id;
+        })
+      );
+      await deps?.metadataCache?.forAccount(extra.authContext.accountId).invalidate(ids);
+
+      // Separate successes and failures
+      const failures: Array<{ id: string; error: string }> = [];
+
+      results.forEach((result, index) => {
+        const id = ids[index];
+        if (!id) return;
+
+        if (result.status === 'rejected') {
+          const errorMessage = result.reason instanceof Error ? result.reason.message : String(result.reason);
+          failures.push({ id, error: errorMessage });
+        }
+      });
+
+      const failedIds = new Set(failures.map((f) => f.id));
+      const operationId = await recordOperation(
+        deps?.operationJournal?.forAccount(extra.authContext.accountId),
+        'trash',
+        'file-move-to-trash',
+        ids.filter((id) => !failedIds.has(id)).map((fileId) => ({ fileId })),
+        logger
+      );
+
+      const successCount = ids.length - failures.length;
+      const failureCount = failures.length;
+      const totalCount = ids.length;
+
+      logger.info('drive.file.moveToTrash completed', {
+        totalCount,
+        successCount,
+        failureCount,
+      });
+
+      const operationSummary = failureCount === 0 ? `Moved ${successCount} file${successCount === 1 ? '' : 's'} to trash (recoverable for 30 days)` : `Moved ${successCount} of ${totalCount} file${totalCount === 1 ? '' : 's'} to trash (${failureCount} failed, recoverable for 30 days)`;
+
+      const result: Output = {
+        type: 'success' as const,
+        operationSummary,
+        totalCount,
+        successCount,
+        failureCount,
+        recoverable: true,
+        recoverableDays: 30,
+        ...(failures.length > 0 && { failures }),
+        ...(operationId && { operationId }),
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.file.moveToTrash error', { error: message });
+
+      // Throw McpError
+      throw toMcpError(error, 'Error moving files to trash');
+    }
   }
-}
 
-export default function createTool() {
   return {
     name: 'file-move-to-trash' as const,
     config,
@@ -3,11 +3,17 @@ import { schemas } from '@mcp-z/oauth-google';
 
 const { AuthRequiredBranchSchema } = schemas;
 
-import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import type { drive_v3 } from 'googleapis';
 import { google } from 'googleapis';
 import { z } from 'zod';
-import type { Logger } from '../../types.ts';
+import { batchGetFiles, batchResponseError, executeDriveBatch } from '../../lib/drive-batch.ts';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { childPath, createPathResolver, DRY_RUN_API_FIELDS, moveProblems, toDryRunBranch, unreadableChange } from '../../lib/dry-run.ts';
+import type { AccountMetadataCache } from '../../lib/metadata-cache.ts';
+import { recordOperation } from '../../lib/operation-journal.ts';
+import { DryRunBranchSchema, type PlannedChange } from '../../schemas/index.ts';
+import type { Logger, ToolDeps } from '../../types.ts';
 
 // Type guard for Google Drive API errors
 interface DriveApiError {
@@ -28,6 +34,11 @@ interface MoveResult {
   webViewLink?: string;
 }
 
+// Moved file with the parents Drive reports after the move, for the operation journal
+interface MovedFile extends MoveResult {
+  newParents: string[];
+}
+
 interface FailedMove {
   fileId: string;
   error: string;
@@ -35,9 +46,10 @@ interface FailedMove {
 }
 
 const inputSchema = z.object({
-  fileIds: z.union([z.string().min(1), z.array(z.string().min(1)).min(1).max(100)]).describe('File or folder ID(s) to move. Single ID or array (max 100 for batch)'),
-  destinationFolderId: z.string().min(1).describe('Destination folder ID (use "root" for My Drive root)'),
-  returnOldParents: z.boolean().optional().describe('Include old parent IDs in response for manual undo (recommended: true)'),
+  fileIds: z.union([z.string().min(1), z.array(z.string().min(1)).min(1).max(100)]).describe('File or folder ID(s) or paths (e.g. "path:/Work/Plan.md") to move. Single value or array (max 100 for batch)'),
+  destinationFolderId: z.string().min(1).describe('Destination folder ID or path (use "root" for My Drive root, or a shared drive ID for its root)'),
+  returnOldParents: z.boolean().optional().describe('Include old parent IDs in response for manual undo (operationId undoes the whole call regardless)'),
+  dryRun: z.boolean().optional().describe('Plan the move without changing anything: returns names, current and destination paths and permission problems (default: false)'),
 });
 
 // Success branch schema
@@ -67,14 +79,15 @@ const successBranchSchema = z.object({
   totalRequested: z.number().describe('Total number of files requested to move'),
   totalMoved: z.number().describe('Number of files successfully moved'),
   totalFailed: z.number().describe('Number of files that failed to move'),
+  operationId: z.string().optional().describe('Pass to operation-undo to move the files back'),
 });
 
 // Output schema with auth_required support
-const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, DryRunBranchSchema, AuthRequiredBranchSchema]);
 
 const config = {
   title: 'Move Files',
-  description: 'Move files/folders to destination folder. Returns oldParents for undo. Use "root" for My Drive root.',
+  description: 'Move files/folders to destination folder. Returns oldParents and an operationId for operation-undo. Pass dryRun: true to preview. Use "root" for My Drive root. Works across My Drive and shared drives.',
   inputSchema: inputSchema,
   outputSchema: z.object({
     result: outputSchema,
@@ -91,11 +104,10 @@ async function moveSingleFile(
   drive: drive_v3.Drive,
   fileId: string,
   destinationFolderId: string,
-  returnOldParents: boolean,
   logger: Logger
 ): Promise<{
   success: boolean;
-  result?: MoveResult;
+  result?: MovedFile;
   error?: FailedMove;
 }> {
   try {
@@ -103,6 +115,7 @@ async function moveSingleFile(
     const fileMetadata = await drive.files.get({
       fileId: fileId,
       fields: 'id,name,parents,webViewLink',
+      supportsAllDrives: true,
     });
 
     const oldParents = (fileMetadata.data.parents as string[] | undefined) || [];
@@ -110,19 +123,21 @@ async function moveSingleFile(
     const webViewLink = fileMetadata.data.webViewLink as string | undefined;
 
     // Move file using addParents and removeParents
-    await drive.files.update({
+    const updated = await drive.files.update({
       fileId: fileId,
       addParents: destinationFolderId,
       removeParents: oldParents.join(','),
       fields: 'id,name,parents,webViewLink',
+      supportsAllDrives: true,
     });
 
-    const result: MoveResult = {
+    const result: MovedFile = {
       fileId: fileId,
       fileName: fileName,
-      oldParents: returnOldParents ? oldParents : [],
+      oldParents,
       newParent: destinationFolderId,
       ...(webViewLink && { webViewLink }),
+      newParents: updated.data.parents ?? [destinationFolderId],
     };
 
     return { success: true, result };
@@ -142,184 +157,223 @@ async function moveSingleFile(
 }
 
 /**
- * Move multiple files using batch requests
+ * Move multiple files through the Drive batch endpoint:
+ * one batch call for metadata, one for the moves (per 100 files)
  */
 async function moveBatchFiles(
   drive: drive_v3.Drive,
   fileIds: string[],
   destinationFolderId: string,
-  returnOldParents: boolean,
-  _logger: Logger
+  logger: Logger
 ): Promise<{
-  moved: MoveResult[];
+  moved: MovedFile[];
   failed: FailedMove[];
 }> {
-  const moved: MoveResult[] = [];
+  const moved: MovedFile[] = [];
   const failed: FailedMove[] = [];
 
+  const toFailure = (fileId: string, prefix: string, error: Error & { code?: number | string }): FailedMove => ({
+    fileId,
+    error: `${prefix}: ${error.message}`,
+    ...(error.code && { code: String(error.code) }),
+  });
+
   // First, fetch metadata for all files in batch
-  const metadataResults = await Promise.allSettled(
-    fileIds.map(async (fileId) => {
-      try {
-        const response = await drive.files.get({
-          fileId: fileId,
-          fields: 'id,name,parents,webViewLink',
-        });
-        const webViewLink = response.data.webViewLink as string | undefined;
-        return {
-          fileId: fileId,
-          name: (response.data.name as string | undefined) || fileId,
-          parents: (response.data.parents as string[] | undefined) || [],
-          ...(webViewLink && { webViewLink }),
-        };
-      } catch (e: unknown) {
-        const message = isDriveApiError(e) && e.message ? e.message : String(e);
-        throw new Error(`Failed to fetch metadata: ${message}`);
-      }
-    })
-  );
+  const metadata = await batchGetFiles(drive, fileIds, 'id,name,parents,webViewLink', { logger });
 
-  // Process metadata results
   const filesToMove: Array<{
     fileId: string;
     name: string;
     parents: string[];
     webViewLink?: string;
   }> = [];
-  for (let i = 0; i < metadataResults.length; i++) {
-    const result = metadataResults[i];
-    if (result && result.status === 'fulfilled') {
-      filesToMove.push(result.value);
-    } else if (result && result.status === 'rejected') {
-      const fileId = fileIds[i];
-      if (fileId) {
-        const errorCode = result.reason?.code ? String(result.reason.code) : undefined;
-        failed.push({
-          fileId: fileId,
-          error: result.reason?.message || 'Failed to fetch file metadata',
-          ...(errorCode && { code: errorCode }),
-        });
-      }
+  for (const fileId of fileIds) {
+    const file = metadata.get(fileId);
+    if (!file) {
+      failed.push({ fileId, error: 'Failed to fetch metadata: no response' });
+      continue;
+    }
+    if (file instanceof Error) {
+      failed.push(toFailure(fileId, 'Failed to fetch metadata', file));
+      continue;
     }
+    filesToMove.push({
+      fileId,
+      name: file.name || fileId,
+      parents: file.parents || [],
+      ...(file.webViewLink && { webViewLink: file.webViewLink }),
+    });
   }
 
   // Now move files in batch
-  const moveResults = await Promise.allSettled(
-    filesToMove.map(async (file) => {
-      try {
-        await drive.files.update({
-          fileId: file.fileId,
-          addParents: destinationFolderId,
-          removeParents: file.parents.join(','),
-          fields: 'id',
-        });
-        return {
-          fileId: file.fileId,
-          fileName: file.name,
-          oldParents: returnOldParents ? file.parents : [],
-          newParent: destinationFolderId,
-          ...(file.webViewLink && { webViewLink: file.webViewLink }),
-        };
-      } catch (e: unknown) {
-        const message = isDriveApiError(e) && e.message ? e.message : String(e);
-        throw new Error(`Failed to move: ${message}`);
-      }
-    })
+  const responses = await executeDriveBatch(
+    drive,
+    filesToMove.map((file) => ({
+      method: 'PATCH' as const,
+      path: `/drive/v3/files/${encodeURIComponent(file.fileId)}`,
+      query: { addParents: destinationFolderId, removeParents: file.parents.join(','), fields: 'id,parents', supportsAllDrives: true },
+      body: {},
+    })),
+    { logger }
   );
 
-  // Process move results
-  for (let i = 0; i < moveResults.length; i++) {
-    const result = moveResults[i];
-    if (result && result.status === 'fulfilled') {
-      moved.push(result.value);
-    } else if (result && result.status === 'rejected') {
-      const file = filesToMove[i];
-      if (file) {
-        const errorCode = result.reason?.code ? String(result.reason.code) : undefined;
-        failed.push({
-          fileId: file.fileId,
-          error: result.reason?.message || 'Failed to move file',
-          ...(errorCode && { code: errorCode }),
-        });
-      }
+  responses.forEach((response, index) => {
+    const file = filesToMove[index];
+    if (!file) return;
+    if (response.status < 200 || response.status >= 300) {
+      failed.push(toFailure(file.fileId, 'Failed to move', batchResponseError(response)));
+      return;
     }
-  }
+    moved.push({
+      fileId: file.fileId,
+      fileName: file.name,
+      oldParents: file.parents,
+      newParent: destinationFolderId,
+      ...(file.webViewLink && { webViewLink: file.webViewLink }),
+      newParents: (response.body as drive_v3.Schema$File | undefined)?.parents ?? [destinationFolderId],
+    });
+  });
 
   return { moved, failed };
 }
 
-async function handler({ fileIds, destinationFolderId, returnOldParents = true }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
-  const logger = extra.logger;
-  const isBatch = Array.isArray(fileIds);
-  const fileIdArray = Array.isArray(fileIds) ? fileIds : [fileIds];
-
-  logger.info('drive.file.move called', {
-    fileCount: fileIdArray.length,
-    isBatch,
-    destinationFolderId,
-    returnOldParents,
-  });
-
-  try {
-    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
-
-    let moved: MoveResult[] = [];
-    let failed: FailedMove[] = [];
-
-    if (isBatch && fileIdArray.length > 1) {
-      // Use batch API for multiple files
-      const batchResult = await moveBatchFiles(drive, fileIdArray, destinationFolderId, returnOldParents, logger);
-      moved = batchResult.moved;
-      failed = batchResult.failed;
-    } else {
-      // Single file operation
-      const fileId = fileIdArray[0];
-      if (fileId) {
-        const singleResult = await moveSingleFile(drive, fileId, destinationFolderId, returnOldParents, logger);
-        if (singleResult.success && singleResult.result) {
-          moved.push(singleResult.result);
-        } else if (singleResult.error) {
-          failed.push(singleResult.error);
-        }
-      }
-    }
+/**
+ * Plan a move without changing anything: one batch read for the files and destination,
+ * then current and destination paths and the problems that would make each move fail
+ */
+async function planMoves(drive: drive_v3.Drive, fileIds: string[], destinationFolderId: string, logger: Logger, cache?: AccountMetadataCache): Promise<{ destinationPath?: string; changes: PlannedChange[] }> {
+  const metadata = await batchGetFiles(drive, [...new Set([...fileIds, destinationFolderId])], DRY_RUN_API_FIELDS, { logger });
+  const resolvePath = createPathResolver(drive, logger, cache);
+  const found = metadata.get(destinationFolderId);
+  const destination = found instanceof Error ? undefined : found;
+  const destinationLocation = destination ? await resolvePath(destinationFolderId) : undefined;
+
+  const changes = await Promise.all(
+    fileIds.map(async (fileId): Promise<PlannedChange> => {
+      const file = metadata.get(fileId);
+      if (!file) return unreadableChange(fileId);
+      if (file instanceof Error) return unreadableChange(fileId, file);
+      const name = file.name || fileId;
+      const parentId = file.parents?.[0];
+      const currentPath = parentId ? childPath((await resolvePath(parentId)).path, name) : undefined;
+      const problems = moveProblems(file, destination, destinationLocation?.ancestorIds);
+      return {
+        fileId,
+        name,
+        ...(currentPath && { currentPath }),
+        ...(destinationLocation && { destinationPath: childPath(destinationLocation.path, name) }),
+        ...(problems.length > 0 && { problems }),
+      };
+    })
+  );
+  return { ...(destinationLocation && { destinationPath: destinationLocation.path }), changes };
+}
 
-    logger.info('drive.file.move returning', {
-      totalRequested: fileIdArray.length,
-      totalMoved: moved.length,
-      totalFailed: failed.length,
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ fileIds, destinationFolderId, returnOldParents = true, dryRun = false }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    const isBatch = Array.isArray(fileIds);
+    const fileIdArray = Array.isArray(fileIds) ? fileIds : [fileIds];
+
+    logger.info('drive.file.move called', {
+      fileCount: fileIdArray.length,
+      isBatch,
+      destinationFolderId,
+      returnOldParents,
+      dryRun,
     });
 
-    const result: Output = {
-      type: 'success' as const,
-      moved,
-      ...(failed.length > 0 && { failed }),
-      totalRequested: fileIdArray.length,
-      totalMoved: moved.length,
-      totalFailed: failed.length,
-    };
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result),
-        },
-      ],
-      structuredContent: { result },
-    };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    logger.error('drive.file.move error', { error: message });
+      if (dryRun) {
+        const { destinationPath, changes } = await planMoves(drive, fileIdArray, destinationFolderId, logger, deps?.metadataCache?.forAccount(extra.authContext.accountId));
+        const result: Output = toDryRunBranch(`Move ${fileIdArray.length} item${fileIdArray.length === 1 ? '' : 's'} to "${destinationPath ?? destinationFolderId}"`, changes);
+        logger.info('drive.file.move dry run', { totalRequested: result.totalRequested, totalBlocked: result.totalBlocked });
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(result),
+            },
+          ],
+          structuredContent: { result },
+        };
+      }
 
-    // Throw McpError
-    throw new McpError(ErrorCode.InternalError, `Error moving files: ${message}`, {
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+      let movedFiles: MovedFile[] = [];
+      let failed: FailedMove[] = [];
+
+      if (isBatch && fileIdArray.length > 1) {
+        // Use batch API for multiple files
+        const batchResult = await moveBatchFiles(drive, fileIdArray, destinationFolderId, logger);
+        movedFiles = batchResult.moved;
+        failed = batchResult.failed;
+      } else {
+        // Single file operation
+        const fileId = fileIdArray[0];
+        if (fileId) {
+          const singleResult = await moveSingleFile(drive, fileId, destinationFolderId, logger);
+          if (singleResult.success && singleResult.result) {
+            movedFiles.push(singleResult.result);
+          } else if (singleResult.error) {
+            failed.push(singleResult.error);
+          }
+        }
+      }
+
+      // Cached parent chains of moved items are stale
+      await deps?.metadataCache?.forAccount(extra.authContext.accountId).invalidate(movedFiles.map((m) => m.fileId));
+
+      const operationId = await recordOperation(
+        deps?.operationJournal?.forAccount(extra.authContext.accountId),
+        'move',
+        'file-move',
+        movedFiles.map(({ fileId, oldParents, newParents }) => ({ fileId, oldParents, newParents })),
+        logger
+      );
+      const moved: MoveResult[] = movedFiles.map((m) => ({
+        fileId: m.fileId,
+        fileName: m.fileName,
+        oldParents: returnOldParents ? m.oldParents : [],
+        newParent: m.newParent,
+        ...(m.webViewLink && { webViewLink: m.webViewLink }),
+      }));
+
+      logger.info('drive.file.move returning', {
+        totalRequested: fileIdArray.length,
+        totalMoved: moved.length,
+        totalFailed: failed.length,
+      });
+
+      const result: Output = {
+        type: 'success' as const,
+        moved,
+        ...(failed.length > 0 && { failed }),
+        totalRequested: fileIdArray.length,
+        totalMoved: moved.length,
+        totalFailed: failed.length,
+        ...(operationId && { operationId }),
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.file.move error', { error: message });
+
+      // Throw McpError
+      throw toMcpError(error, 'Error moving files');
+    }
   }
-}
 
-export default function createTool() {
   return {
     name: 'file-move' as const,
     config,
@@ -0,0 +1,159 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { findPermission, PERMISSION_API_FIELDS, toPermissionFailure } from '../../lib/permissions.ts';
+import { PERMISSION_ROLES, type PermissionFailure, PermissionFailureSchema } from '../../schemas/index.ts';
+
+interface UpdateResult {
+  fileId: string;
+  permissionId: string;
+  role: string;
+  previousRole: string;
+  expirationTime?: string;
+}
+
+const inputSchema = z.object({
+  fileIds: z.union([z.string().min(1), z.array(z.string().min(1)).min(1).max(100)]).describe('File or folder ID(s) or paths (e.g. "path:/Work/Plan.md") to update. Single value or array (max 100 for batch)'),
+  permissionId: z.string().min(1).optional().describe('Permission ID to update (from file-permissions-list or file-share)'),
+  emailAddress: z.string().email().optional().describe('Grantee email address, as an alternative to permissionId'),
+  role: z.enum(PERMISSION_ROLES).describe('New role. owner transfers ownership'),
+  expirationTime: z.string().optional().describe('ISO datetime when access expires (reader/commenter/writer only)'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  updated: z
+    .array(
+      z.object({
+        fileId: z.string().describe('ID of the updated file'),
+        permissionId: z.string().describe('ID of the updated permission'),
+        role: z.string().describe('New role'),
+        previousRole: z.string().describe('Role before the update (for undo)'),
+        expirationTime: z.string().optional().describe('Access expiration time'),
+      })
+    )
+    .describe('Successfully updated permissions'),
+  failed: z.array(PermissionFailureSchema).optional().describe('Files whose permission failed to update'),
+  totalRequested: z.number().describe('Total number of files requested to update'),
+  totalUpdated: z.number().describe('Number of permissions successfully updated'),
+  totalFailed: z.number().describe('Number of files that failed to update'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Update File Permission',
+  description: 'Change the role (or expiration) of an existing permission on files/folders. Identify the grantee by permissionId or emailAddress. Returns previousRole for undo.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+async function handler({ fileIds, permissionId, emailAddress, role, expirationTime }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+  const logger = extra.logger;
+  const fileIdArray = Array.isArray(fileIds) ? fileIds : [fileIds];
+
+  logger.info('drive.file.permissionUpdate called', {
+    fileCount: fileIdArray.length,
+    permissionId,
+    emailAddress,
+    role,
+  });
+
+  if (!permissionId && !emailAddress) {
+    throw new McpError(ErrorCode.InvalidParams, 'Either permissionId or emailAddress is required');
+  }
+
+  try {
+    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+    const results = await Promise.allSettled(
+      fileIdArray.map(async (fileId): Promise<UpdateResult> => {
+        const existing = await findPermission(drive, fileId, { permissionId, emailAddress });
+        const existingId = existing.id ?? permissionId ?? '';
+        const response = await drive.permissions.update({
+          fileId,
+          permissionId: existingId,
+          requestBody: {
+            role,
+            ...(expirationTime && { expirationTime }),
+          },
+          ...(role === 'owner' && { transferOwnership: true }),
+          fields: PERMISSION_API_FIELDS,
+          supportsAllDrives: true,
+        });
+        return {
+          fileId,
+          permissionId: response.data.id ?? existingId,
+          role: response.data.role ?? role,
+          previousRole: existing.role ?? 'unknown',
+          ...(response.data.expirationTime && { expirationTime: response.data.expirationTime }),
+        };
+      })
+    );
+
+    const updated: UpdateResult[] = [];
+    const failed: PermissionFailure[] = [];
+    results.forEach((result, index) => {
+      const fileId = fileIdArray[index];
+      if (!fileId) return;
+      if (result.status === 'fulfilled') {
+        updated.push(result.value);
+      } else {
+        logger.info('Failed to update permission', { fileId, error: result.reason });
+        failed.push(toPermissionFailure(fileId, result.reason));
+      }
+    });
+
+    logger.info('drive.file.permissionUpdate returning', {
+      totalRequested: fileIdArray.length,
+      totalUpdated: updated.length,
+      totalFailed: failed.length,
+    });
+
+    const result: Output = {
+      type: 'success' as const,
+      updated,
+      ...(failed.length > 0 && { failed }),
+      totalRequested: fileIdArray.length,
+      totalUpdated: updated.length,
+      totalFailed: failed.length,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(result),
+        },
+      ],
+      structuredContent: { result },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('drive.file.permissionUpdate error', { error: message });
+
+    // Throw McpError
+    throw toMcpError(error, 'Error updating permissions');
+  }
+}
+
+export default function createTool() {
+  return {
+    name: 'file-permission-update' as const,
+    config,
+    handler,
+  };
+}
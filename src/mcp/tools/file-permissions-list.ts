@@ -0,0 +1,84 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { listPermissions, toDrivePermission } from '../../lib/permissions.ts';
+import { DrivePermissionSchema } from '../../schemas/index.ts';
+
+const inputSchema = z.object({
+  fileId: z.string().min(1).describe('File or folder ID or path (e.g. "path:/Work/Plan.md") to list permissions for'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  fileId: z.string().describe('ID of the file'),
+  items: z.array(DrivePermissionSchema).describe('Permissions granted on the file'),
+  count: z.number().describe('Number of permissions'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'List File Permissions',
+  description: 'List who has access to a file or folder (users, groups, domains, anyone with link) and their roles.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+  annotations: { readOnlyHint: true },
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+async function handler({ fileId }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+  const logger = extra.logger;
+  logger.info('drive.file.permissionsList called', { fileId });
+
+  try {
+    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+    const permissions = await listPermissions(drive, fileId);
+    const items = permissions.map(toDrivePermission);
+
+    logger.info('drive.file.permissionsList returning', { fileId, count: items.length });
+
+    const result: Output = {
+      type: 'success' as const,
+      fileId,
+      items,
+      count: items.length,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(result),
+        },
+      ],
+      structuredContent: { result },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('drive.file.permissionsList error', { error: message });
+
+    // Throw McpError
+    throw toMcpError(error, 'Error listing permissions');
+  }
+}
+
+export default function createTool() {
+  return {
+    name: 'file-permissions-list' as const,
+    config,
+    handler,
+  };
+}
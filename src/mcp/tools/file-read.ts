@@ -0,0 +1,139 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { byteRangeSlice, type ContentSlice, EXPORT_FORMATS, FOLDER_MIME_TYPE, fetchFileContent, isGoogleNativeMimeType, isTextMimeType, MAX_TEXT_DOWNLOAD_BYTES, resolveExportMimeType, sliceContent, supportedExportFormats } from '../../lib/file-content.ts';
+
+const DEFAULT_MAX_LENGTH = 100000;
+
+const inputSchema = z.object({
+  fileId: z.string().min(1).describe('File ID or path (e.g. "path:/Work/Plan.md") to read'),
+  format: z.enum(EXPORT_FORMATS).optional().describe('Export format for Google Docs/Sheets/Slides (default: markdown for Docs, csv for Sheets, text for Slides). Ignored for other files'),
+  offset: z.number().int().min(0).optional().describe('Start position for paging through large files (characters for text, bytes for binary). Use nextOffset from a previous call'),
+  maxLength: z.number().int().min(1).max(1000000).optional().describe(`Maximum characters (text) or bytes (binary) to return (default: ${DEFAULT_MAX_LENGTH})`),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  fileId: z.string().describe('ID of the file that was read'),
+  name: z.string().describe('Name of the file'),
+  mimeType: z.string().describe('MIME type of the file in Drive'),
+  contentMimeType: z.string().describe('MIME type of the returned content (export type for Google-native files)'),
+  encoding: z.enum(['utf8', 'base64']).describe('utf8 for text content, base64 for binary content'),
+  content: z.string().describe('File content for the requested range'),
+  offset: z.number().describe('Start position of the returned content'),
+  length: z.number().describe('Characters (text) or bytes (binary) returned'),
+  totalLength: z.number().describe('Total characters (text) or bytes (binary) in the file'),
+  truncated: z.boolean().describe('Whether more content remains after this range'),
+  nextOffset: z.number().optional().describe('Offset to pass for the next page (present when truncated)'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Read File Content',
+  description: 'Read file content as text. Google Docs/Sheets/Slides are exported (markdown, csv, text); binary files return base64, downloading only the requested byte range. Use offset/maxLength to page through large files; text files over 20 MB cannot be read.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+  annotations: { readOnlyHint: true },
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+async function handler({ fileId, format, offset = 0, maxLength = DEFAULT_MAX_LENGTH }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+  const logger = extra.logger;
+  logger.info('drive.file.read called', { fileId, format, offset, maxLength });
+
+  try {
+    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+    const metadata = await drive.files.get({
+      fileId,
+      fields: 'id,name,mimeType,size',
+      supportsAllDrives: true,
+    });
+    const name = metadata.data.name ?? fileId;
+    const mimeType = metadata.data.mimeType ?? 'application/octet-stream';
+
+    if (mimeType === FOLDER_MIME_TYPE) {
+      throw new McpError(ErrorCode.InvalidParams, `"${name}" is a folder. Use folder-contents to list its items.`);
+    }
+    if (isGoogleNativeMimeType(mimeType) && !resolveExportMimeType(mimeType, format)) {
+      const supported = supportedExportFormats(mimeType);
+      throw new McpError(ErrorCode.InvalidParams, supported.length > 0 ? `Format "${format}" is not supported for ${mimeType}. Supported formats: ${supported.join(', ')}` : `Content of ${mimeType} files cannot be exported`);
+    }
+
+    // Exports have no size; Drive caps them at 10 MB
+    const size = metadata.data.size ? Number(metadata.data.size) : undefined;
+    let contentMimeType = mimeType;
+    let slice: ContentSlice;
+    if (size !== undefined && !isGoogleNativeMimeType(mimeType) && !isTextMimeType(mimeType)) {
+      // Binary content is paged by bytes, so only the requested range is downloaded
+      const start = Math.min(offset, size);
+      const end = Math.min(start + maxLength, size);
+      const data = end > start ? (await fetchFileContent(drive, { id: fileId, mimeType }, format, { range: { start, end } })).data : Buffer.alloc(0);
+      slice = byteRangeSlice(data, start, size);
+    } else {
+      // Text and exports are paged by characters, which needs the whole content
+      if (size !== undefined && size > MAX_TEXT_DOWNLOAD_BYTES) {
+        throw new McpError(ErrorCode.InvalidParams, `"${name}" is ${size} bytes; text files over ${MAX_TEXT_DOWNLOAD_BYTES} bytes are too large to read`);
+      }
+      const fileContent = await fetchFileContent(drive, { id: fileId, mimeType }, format);
+      contentMimeType = fileContent.mimeType;
+      slice = sliceContent(fileContent.data, fileContent.mimeType, { offset, maxLength });
+    }
+
+    logger.info('drive.file.read returning', {
+      fileId,
+      contentMimeType,
+      length: slice.length,
+      totalLength: slice.totalLength,
+      truncated: slice.truncated,
+    });
+
+    const result: Output = {
+      type: 'success' as const,
+      fileId,
+      name,
+      mimeType,
+      contentMimeType,
+      ...slice,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(result),
+        },
+      ],
+      structuredContent: { result },
+    };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('drive.file.read error', { error: message });
+
+    // Throw McpError
+    throw toMcpError(error, 'Error reading file');
+  }
+}
+
+export default function createTool() {
+  return {
+    name: 'file-read' as const,
+    config,
+    handler,
+  };
+}
@@ -0,0 +1,128 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import type { ToolDeps } from '../../types.ts';
+
+const MAX_BATCH_SIZE = 1000;
+
+const inputSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(MAX_BATCH_SIZE).describe('File IDs to restore from trash (see trash-list)'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  operationSummary: z.string().describe('Human-readable summary of the operation'),
+  totalCount: z.number().describe('Total number of files requested to restore'),
+  successCount: z.number().describe('Number of files successfully restored'),
+  failureCount: z.number().describe('Number of files that failed to restore'),
+  failures: z
+    .array(
+      z.object({
+        id: z.string().describe('ID of the file that failed'),
+        error: z.string().describe('Error message explaining the failure'),
+      })
+    )
+    .optional()
+    .describe('Details of any files that failed to restore'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Restore Files from Trash',
+  description: 'Restore trashed files to their original location (undo file-move-to-trash).',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ ids }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    logger.info('drive.file.restore called', { count: ids.length });
+
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+      const results = await Promise.allSettled(
+        ids.map(async (id) => {
+          await drive.files.update({
+            fileId: id,
+            requestBody: { trashed: false },
+            supportsAllDrives: true,
+          });
+          return id;
+        })
+      );
+      await deps?.metadataCache?.forAccount(extra.authContext.accountId).invalidate(ids);
+
+      // Separate successes and failures
+      const failures: Array<{ id: string; error: string }> = [];
+
+      results.forEach((result, index) => {
+        const id = ids[index];
+        if (!id) return;
+
+        if (result.status === 'rejected') {
+          const errorMessage = result.reason instanceof Error ? result.reason.message : String(result.reason);
+          failures.push({ id, error: errorMessage });
+        }
+      });
+
+      const successCount = ids.length - failures.length;
+      const failureCount = failures.length;
+      const totalCount = ids.length;
+
+      logger.info('drive.file.restore completed', {
+        totalCount,
+        successCount,
+        failureCount,
+      });
+
+      const operationSummary = failureCount === 0 ? `Restored ${successCount} file${successCount === 1 ? '' : 's'} from trash` : `Restored ${successCount} of ${totalCount} file${totalCount === 1 ? '' : 's'} from trash (${failureCount} failed)`;
+
+      const result: Output = {
+        type: 'success' as const,
+        operationSummary,
+        totalCount,
+        successCount,
+        failureCount,
+        ...(failures.length > 0 && { failures }),
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.file.restore error', { error: message });
+
+      // Throw McpError
+      throw toMcpError(error, 'Error restoring files');
+    }
+  }
+
+  return {
+    name: 'file-restore' as const,
+    config,
+    handler,
+  };
+}
@@ -0,0 +1,127 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { EXPORT_FORMATS, FOLDER_MIME_TYPE, isGoogleNativeMimeType, resolveExportMimeType, sliceContent, supportedExportFormats } from '../../lib/file-content.ts';
+import { fetchRevisionContent, REVISION_API_FIELDS, toDriveRevision } from '../../lib/revisions.ts';
+import { DriveRevisionSchema } from '../../schemas/index.ts';
+
+const DEFAULT_MAX_LENGTH = 100000;
+
+const inputSchema = z.object({
+  fileId: z.string().min(1).describe('File ID or path (e.g. "path:/Work/Plan.md")'),
+  revisionId: z.string().min(1).describe('Revision ID (from file-revisions-list)'),
+  format: z.enum(EXPORT_FORMATS).optional().describe('Export format for Google Docs/Sheets/Slides revisions (default: markdown for Docs, csv for Sheets, text for Slides). Ignored for other files'),
+  offset: z.number().int().min(0).optional().describe('Start position for paging through large revisions (characters for text, bytes for binary). Use nextOffset from a previous call'),
+  maxLength: z.number().int().min(1).max(1000000).optional().describe(`Maximum characters (text) or bytes (binary) to return (default: ${DEFAULT_MAX_LENGTH})`),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  fileId: z.string().describe('ID of the file'),
+  name: z.string().describe('Name of the file'),
+  revision: DriveRevisionSchema.describe('Revision metadata'),
+  contentMimeType: z.string().describe('MIME type of the returned content (export type for Google-native files)'),
+  encoding: z.enum(['utf8', 'base64']).describe('utf8 for text content, base64 for binary content'),
+  content: z.string().describe('Revision content for the requested range'),
+  offset: z.number().describe('Start position of the returned content'),
+  length: z.number().describe('Characters (text) or bytes (binary) returned'),
+  totalLength: z.number().describe('Total characters (text) or bytes (binary) in the revision'),
+  truncated: z.boolean().describe('Whether more content remains after this range'),
+  nextOffset: z.number().optional().describe('Offset to pass for the next page (present when truncated)'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Get File Revision',
+  description: 'Download the content of a specific file revision (same paging and export formats as file-read).',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+  annotations: { readOnlyHint: true },
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+async function handler({ fileId, revisionId, format, offset = 0, maxLength = DEFAULT_MAX_LENGTH }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+  const logger = extra.logger;
+  logger.info('drive.file.revisionGet called', { fileId, revisionId, format, offset, maxLength });
+
+  try {
+    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+    const metadata = await drive.files.get({
+      fileId,
+      fields: 'id,name,mimeType',
+      supportsAllDrives: true,
+    });
+    const name = metadata.data.name ?? fileId;
+    const mimeType = metadata.data.mimeType ?? 'application/octet-stream';
+
+    if (mimeType === FOLDER_MIME_TYPE) {
+      throw new McpError(ErrorCode.InvalidParams, `"${name}" is a folder and has no revisions`);
+    }
+    if (isGoogleNativeMimeType(mimeType) && !resolveExportMimeType(mimeType, format)) {
+      const supported = supportedExportFormats(mimeType);
+      throw new McpError(ErrorCode.InvalidParams, supported.length > 0 ? `Format "${format}" is not supported for ${mimeType}. Supported formats: ${supported.join(', ')}` : `Content of ${mimeType} files cannot be exported`);
+    }
+
+    const revision = await drive.revisions.get({ fileId, revisionId, fields: REVISION_API_FIELDS });
+    const revisionContent = await fetchRevisionContent(drive, extra.authContext.auth, { id: fileId, mimeType, revisionId }, format);
+    const slice = sliceContent(revisionContent.data, revisionContent.mimeType, { offset, maxLength });
+
+    logger.info('drive.file.revisionGet returning', {
+      fileId,
+      revisionId,
+      contentMimeType: revisionContent.mimeType,
+      length: slice.length,
+      totalLength: slice.totalLength,
+      truncated: slice.truncated,
+    });
+
+    const result: Output = {
+      type: 'success' as const,
+      fileId,
+      name,
+      revision: toDriveRevision(revision.data),
+      contentMimeType: revisionContent.mimeType,
+      ...slice,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(result),
+        },
+      ],
+      structuredContent: { result },
+    };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('drive.file.revisionGet error', { error: message });
+
+    // Throw McpError
+    throw toMcpError(error, 'Error getting revision');
+  }
+}
+
+export default function createTool() {
+  return {
+    name: 'file-revision-get' as const,
+    config,
+    handler,
+  };
+}
@@ -0,0 +1,90 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { REVISION_API_FIELDS, toDriveRevision } from '../../lib/revisions.ts';
+import { DriveRevisionSchema } from '../../schemas/index.ts';
+
+const inputSchema = z.object({
+  fileId: z.string().min(1).describe('File ID or path (e.g. "path:/Work/Plan.md")'),
+  revisionId: z.string().min(1).describe('Revision ID (from file-revisions-list)'),
+  keepForever: z.boolean().optional().describe('true pins the revision so it is never auto-purged (default), false unpins it'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  fileId: z.string().describe('ID of the file'),
+  revision: DriveRevisionSchema.describe('Updated revision'),
+  previousKeepForever: z.boolean().describe('keepForever before the update (for undo)'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Pin File Revision',
+  description: 'Pin (keepForever) or unpin a revision of a binary file so Drive does not purge it. Google Docs/Sheets/Slides revisions cannot be pinned.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+async function handler({ fileId, revisionId, keepForever = true }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+  const logger = extra.logger;
+  logger.info('drive.file.revisionPin called', { fileId, revisionId, keepForever });
+
+  try {
+    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+    const current = await drive.revisions.get({ fileId, revisionId, fields: 'id,keepForever' });
+    const response = await drive.revisions.update({
+      fileId,
+      revisionId,
+      requestBody: { keepForever },
+      fields: REVISION_API_FIELDS,
+    });
+
+    logger.info('drive.file.revisionPin success', { fileId, revisionId, keepForever });
+
+    const result: Output = {
+      type: 'success' as const,
+      fileId,
+      revision: toDriveRevision(response.data),
+      previousKeepForever: current.data.keepForever ?? false,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(result),
+        },
+      ],
+      structuredContent: { result },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('drive.file.revisionPin error', { error: message });
+
+    // Throw McpError
+    throw toMcpError(error, 'Error pinning revision');
+  }
+}
+
+export default function createTool() {
+  return {
+    name: 'file-revision-pin' as const,
+    config,
+    handler,
+  };
+}
@@ -0,0 +1,107 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { createPaginationSchema } from '@mcp-z/server';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { REVISION_API_FIELDS, toDriveRevision } from '../../lib/revisions.ts';
+import { DriveRevisionSchema } from '../../schemas/index.ts';
+
+const inputSchema = z.object({
+  fileId: z.string().min(1).describe('File ID or path (e.g. "path:/Work/Plan.md") to list revisions for'),
+  ...createPaginationSchema({
+    defaultPageSize: 100,
+    maxPageSize: 1000,
+    provider: 'drive',
+  }).shape,
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  fileId: z.string().describe('ID of the file'),
+  items: z.array(DriveRevisionSchema).describe('Revisions, oldest first'),
+  count: z.number().describe('Number of revisions in this page'),
+  nextPageToken: z.string().optional().describe('Token for fetching next page of results'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'List File Revisions',
+  description: 'List the revision history of a file (who changed it, when, size, pinned). Use file-revision-get to download a revision.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+  annotations: { readOnlyHint: true },
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+async function handler({ fileId, pageSize = 100, pageToken }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+  const logger = extra.logger;
+
+  // Validate and clamp pageSize to Google Drive API limits (1-1000)
+  const validPageSize = Math.max(1, Math.min(1000, Math.floor(pageSize || 100)));
+
+  logger.info('drive.file.revisionsList called', {
+    fileId,
+    pageSize: validPageSize,
+    pageToken: pageToken ? '[provided]' : undefined,
+  });
+
+  try {
+    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+    const response = await drive.revisions.list({
+      fileId,
+      pageSize: validPageSize,
+      fields: `revisions(${REVISION_API_FIELDS}),nextPageToken`,
+      ...(pageToken && pageToken.trim().length > 0 && { pageToken }),
+    });
+    const items = (response.data.revisions ?? []).map(toDriveRevision);
+
+    logger.info('drive.file.revisionsList returning', { fileId, count: items.length });
+
+    const nextPageToken = response.data.nextPageToken && response.data.nextPageToken.trim().length > 0 ? response.data.nextPageToken : undefined;
+
+    const result: Output = {
+      type: 'success' as const,
+      fileId,
+      items,
+      count: items.length,
+      ...(nextPageToken && { nextPageToken }),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(result),
+        },
+      ],
+      structuredContent: { result },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('drive.file.revisionsList error', { error: message });
+
+    // Throw McpError
+    throw toMcpError(error, 'Error listing revisions');
+  }
+}
+
+export default function createTool() {
+  return {
+    name: 'file-revisions-list' as const,
+    config,
+    handler,
+  };
+}
@@ -0,0 +1,182 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { PERMISSION_API_FIELDS, toPermissionFailure } from '../../lib/permissions.ts';
+import { PERMISSION_ROLES, PERMISSION_TYPES, type PermissionFailure, PermissionFailureSchema } from '../../schemas/index.ts';
+
+interface ShareResult {
+  fileId: string;
+  permissionId: string;
+  type: string;
+  role: string;
+  emailAddress?: string;
+  domain?: string;
+}
+
+const inputSchema = z.object({
+  fileIds: z.union([z.string().min(1), z.array(z.string().min(1)).min(1).max(100)]).describe('File or folder ID(s) or paths (e.g. "path:/Work/Plan.md") to share. Single value or array (max 100 for batch)'),
+  type: z.enum(PERMISSION_TYPES).describe('Grantee type: user, group, domain or anyone (anyone with the link)'),
+  role: z.enum(PERMISSION_ROLES).describe('Access role to grant. owner transfers ownership (user only)'),
+  emailAddress: z.string().email().optional().describe('Email address (required for user and group, not allowed for domain and anyone)'),
+  domain: z.string().min(1).optional().describe('Domain name (required for domain and only allowed there, e.g. example.com)'),
+  allowFileDiscovery: z.boolean().optional().describe('Allow discovery through search (domain and anyone only)'),
+  sendNotificationEmail: z.boolean().optional().describe('Send a notification email to the grantee (user and group only, default: true)'),
+  emailMessage: z.string().optional().describe('Custom message included in the notification email'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  shared: z
+    .array(
+      z.object({
+        fileId: z.string().describe('ID of the shared file'),
+        permissionId: z.string().describe('ID of the created permission (use with file-unshare)'),
+        type: z.string().describe('Grantee type'),
+        role: z.string().describe('Granted role'),
+        emailAddress: z.string().optional().describe('Grantee email address'),
+        domain: z.string().optional().describe('Grantee domain'),
+      })
+    )
+    .describe('Successfully shared files'),
+  failed: z.array(PermissionFailureSchema).optional().describe('Files that failed to share'),
+  totalRequested: z.number().describe('Total number of files requested to share'),
+  totalShared: z.number().describe('Number of files successfully shared'),
+  totalFailed: z.number().describe('Number of files that failed to share'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Share Files',
+  description: 'Grant a user, group, domain or anyone access to files/folders. Returns permissionId per file for file-unshare.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+async function handler({ fileIds, type, role, emailAddress, domain, allowFileDiscovery, sendNotificationEmail, emailMessage }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+  const logger = extra.logger;
+  const fileIdArray = Array.isArray(fileIds) ? fileIds : [fileIds];
+
+  logger.info('drive.file.share called', {
+    fileCount: fileIdArray.length,
+    type,
+    role,
+    emailAddress,
+    domain,
+  });
+
+  if ((type === 'user' || type === 'group') && !emailAddress) {
+    throw new McpError(ErrorCode.InvalidParams, `emailAddress is required when type is "${type}"`);
+  }
+  if (type === 'domain' && !domain) {
+    throw new McpError(ErrorCode.InvalidParams, 'domain is required when type is "domain"');
+  }
+  if (emailAddress && (type === 'domain' || type === 'anyone')) {
+    throw new McpError(ErrorCode.InvalidParams, `emailAddress cannot be used when type is "${type}"`);
+  }
+  if (domain && type !== 'domain') {
+    throw new McpError(ErrorCode.InvalidParams, `domain cannot be used when type is "${type}"`);
+  }
+  if (role === 'owner' && type !== 'user') {
+    throw new McpError(ErrorCode.InvalidParams, 'Ownership can only be transferred to a user');
+  }
+
+  try {
+    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+    const notify = type === 'user' || type === 'group' ? (sendNotificationEmail ?? true) : undefined;
+
+    const results = await Promise.allSettled(
+      fileIdArray.map(async (fileId): Promise<ShareResult> => {
+        const response = await drive.permissions.create({
+          fileId,
+          requestBody: {
+            type,
+            role,
+            ...(emailAddress && { emailAddress }),
+            ...(domain && { domain }),
+            ...(allowFileDiscovery !== undefined && { allowFileDiscovery }),
+          },
+          ...(notify !== undefined && { sendNotificationEmail: notify }),
+          ...(notify && emailMessage && { emailMessage }),
+          ...(role === 'owner' && { transferOwnership: true }),
+          fields: PERMISSION_API_FIELDS,
+          supportsAllDrives: true,
+        });
+        const permission = response.data;
+        return {
+          fileId,
+          permissionId: permission.id ?? 'unknown',
+          type: permission.type ?? type,
+          role: permission.role ?? role,
+          ...(permission.emailAddress && { emailAddress: permission.emailAddress }),
+          ...(permission.domain && { domain: permission.domain }),
+        };
+      })
+    );
+
+    const shared: ShareResult[] = [];
+    const failed: PermissionFailure[] = [];
+    results.forEach((result, index) => {
+      const fileId = fileIdArray[index];
+      if (!fileId) return;
+      if (result.status === 'fulfilled') {
+        shared.push(result.value);
+      } else {
+        logger.info('Failed to share file', { fileId, error: result.reason });
+        failed.push(toPermissionFailure(fileId, result.reason));
+      }
+    });
+
+    logger.info('drive.file.share returning', {
+      totalRequested: fileIdArray.length,
+      totalShared: shared.length,
+      totalFailed: failed.length,
+    });
+
+    const result: Output = {
+      type: 'success' as const,
+      shared,
+      ...(failed.length > 0 && { failed }),
+      totalRequested: fileIdArray.length,
+      totalShared: shared.length,
+      totalFailed: failed.length,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(result),
+        },
+      ],
+      structuredContent: { result },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('drive.file.share error', { error: message });
+
+    // Throw McpError
+    throw toMcpError(error, 'Error sharing files');
+  }
+}
+
+export default function createTool() {
+  return {
+    name: 'file-share' as const,
+    config,
+    handler,
+  };
+}
@@ -0,0 +1,149 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { findPermission, toPermissionFailure } from '../../lib/permissions.ts';
+import { type PermissionFailure, PermissionFailureSchema } from '../../schemas/index.ts';
+
+interface UnshareResult {
+  fileId: string;
+  permissionId: string;
+  type: string;
+  role: string;
+  emailAddress?: string;
+  domain?: string;
+}
+
+const inputSchema = z.object({
+  fileIds: z.union([z.string().min(1), z.array(z.string().min(1)).min(1).max(100)]).describe('File or folder ID(s) or paths (e.g. "path:/Work/Plan.md") to unshare. Single value or array (max 100 for batch)'),
+  permissionId: z.string().min(1).optional().describe('Permission ID to remove (from file-permissions-list or file-share; "anyoneWithLink" for link sharing)'),
+  emailAddress: z.string().email().optional().describe('Grantee email address, as an alternative to permissionId'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  removed: z
+    .array(
+      z.object({
+        fileId: z.string().describe('ID of the unshared file'),
+        permissionId: z.string().describe('ID of the removed permission'),
+        type: z.string().describe('Grantee type of the removed permission'),
+        role: z.string().describe('Role of the removed permission (for undo via file-share)'),
+        emailAddress: z.string().optional().describe('Grantee email address'),
+        domain: z.string().optional().describe('Grantee domain'),
+      })
+    )
+    .describe('Successfully removed permissions'),
+  failed: z.array(PermissionFailureSchema).optional().describe('Files whose permission failed to be removed'),
+  totalRequested: z.number().describe('Total number of files requested to unshare'),
+  totalRemoved: z.number().describe('Number of permissions successfully removed'),
+  totalFailed: z.number().describe('Number of files that failed to unshare'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Unshare Files',
+  description: 'Remove a permission from files/folders. Identify the grantee by permissionId or emailAddress. Returns the removed role for undo.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+async function handler({ fileIds, permissionId, emailAddress }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+  const logger = extra.logger;
+  const fileIdArray = Array.isArray(fileIds) ? fileIds : [fileIds];
+
+  logger.info('drive.file.unshare called', {
+    fileCount: fileIdArray.length,
+    permissionId,
+    emailAddress,
+  });
+
+  if (!permissionId && !emailAddress) {
+    throw new McpError(ErrorCode.InvalidParams, 'Either permissionId or emailAddress is required');
+  }
+
+  try {
+    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+    const results = await Promise.allSettled(
+      fileIdArray.map(async (fileId): Promise<UnshareResult> => {
+        const existing = await findPermission(drive, fileId, { permissionId, emailAddress });
+        const existingId = existing.id ?? permissionId ?? '';
+        await drive.permissions.delete({ fileId, permissionId: existingId, supportsAllDrives: true });
+        return {
+          fileId,
+          permissionId: existingId,
+          type: existing.type ?? 'unknown',
+          role: existing.role ?? 'unknown',
+          ...(existing.emailAddress && { emailAddress: existing.emailAddress }),
+          ...(existing.domain && { domain: existing.domain }),
+        };
+      })
+    );
+
+    const removed: UnshareResult[] = [];
+    const failed: PermissionFailure[] = [];
+    results.forEach((result, index) => {
+      const fileId = fileIdArray[index];
+      if (!fileId) return;
+      if (result.status === 'fulfilled') {
+        removed.push(result.value);
+      } else {
+        logger.info('Failed to unshare file', { fileId, error: result.reason });
+        failed.push(toPermissionFailure(fileId, result.reason));
+      }
+    });
+
+    logger.info('drive.file.unshare returning', {
+      totalRequested: fileIdArray.length,
+      totalRemoved: removed.length,
+      totalFailed: failed.length,
+    });
+
+    const result: Output = {
+      type: 'success' as const,
+      removed,
+      ...(failed.length > 0 && { failed }),
+      totalRequested: fileIdArray.length,
+      totalRemoved: removed.length,
+      totalFailed: failed.length,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(result),
+        },
+      ],
+      structuredContent: { result },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('drive.file.unshare error', { error: message });
+
+    // Throw McpError
+    throw toMcpError(error, 'Error unsharing files');
+  }
+}
+
+export default function createTool() {
+  return {
+    name: 'file-unshare' as const,
+    config,
+    handler,
+  };
+}
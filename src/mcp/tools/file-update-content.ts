@@ -0,0 +1,193 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { type drive_v3, google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { collectParentIds, DRIVE_FILE_API_FIELDS, fetchParentNames, toDriveFile } from '../../lib/drive-file.ts';
+import { FOLDER_MIME_TYPE, fetchFileContent, isGoogleNativeMimeType, isTextMimeType, MAX_TEXT_DOWNLOAD_BYTES } from '../../lib/file-content.ts';
+import { CONTENT_ENCODINGS, decodeContent, isValidBase64, uploadFile } from '../../lib/upload.ts';
+import { DriveFileSchema } from '../../schemas/index.ts';
+import type { ToolDeps } from '../../types.ts';
+
+// Content types Drive converts into existing Google-native files on update
+const NATIVE_IMPORT_TYPES: Record<string, string> = {
+  'application/vnd.google-apps.document': 'text/plain',
+  'application/vnd.google-apps.spreadsheet': 'text/csv',
+};
+
+const inputSchema = z.object({
+  fileId: z.string().min(1).describe('ID or path (e.g. "path:/Work/Plan.md") of the file to update'),
+  content: z.string().describe('New content as UTF-8 text or base64 (see encoding)'),
+  encoding: z.enum(CONTENT_ENCODINGS).optional().describe('Content encoding: utf8 for text (default), base64 for binary'),
+  mimeType: z.string().min(1).optional().describe("MIME type of the content (default: the file's current type; text/plain for Docs, text/csv for Sheets)"),
+  mode: z.enum(['replace', 'append']).optional().describe('replace overwrites the file body (default); append adds content to the end of a text file up to 20 MB, failing if the file changes while its content is downloaded'),
+  ifMatchModifiedTime: z.string().optional().describe('Only update if the file modifiedTime still equals this value (from a previous read/search). Checked again right before the upload; an edit in the moment between that check and the upload is not detected'),
+  ifMatchVersion: z.string().optional().describe('Only update if the file version still equals this value (checked the same way as ifMatchModifiedTime)'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  operationSummary: z.string().describe('Summary of the update operation'),
+  mode: z.enum(['replace', 'append']).describe('Update mode that was applied'),
+  item: DriveFileSchema.describe('Updated file (same ID, sharing and history)'),
+  bytesUploaded: z.number().describe('Size of the uploaded body in bytes'),
+  uploadType: z.enum(['multipart', 'resumable']).describe('Upload protocol used (resumable for large payloads)'),
+  previousModifiedTime: z.string().optional().describe('modifiedTime before the update'),
+  previousVersion: z.string().optional().describe('Version before the update'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Update File Content',
+  description: 'Replace or append to the content of an existing file, keeping its ID, sharing and history. Use ifMatchModifiedTime/ifMatchVersion to avoid overwriting concurrent edits.',
+  inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+/**
+ * Throw a precondition failure when the file's modifiedTime or version no longer equals
+ * the expected value; undefined expectations are not checked
+ */
+function assertUnchanged(name: string, expected: { modifiedTime?: string | undefined; version?: string | undefined }, actual: drive_v3.Schema$File): void {
+  const modifiedTimeMismatch = expected.modifiedTime !== undefined && new Date(expected.modifiedTime).getTime() !== new Date(actual.modifiedTime ?? '').getTime();
+  const versionMismatch = expected.version !== undefined && expected.version !== actual.version;
+  if (modifiedTimeMismatch || versionMismatch) {
+    throw new McpError(ErrorCode.InvalidRequest, `Precondition failed: "${name}" changed since it was read (modifiedTime ${actual.modifiedTime}, version ${actual.version}). Re-read the file before updating.`, {
+      currentModifiedTime: actual.modifiedTime,
+      currentVersion: actual.version,
+    });
+  }
+}
+
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ fileId, content, encoding = 'utf8', mimeType, mode = 'replace', ifMatchModifiedTime, ifMatchVersion }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    logger.info('drive.file.updateContent called', {
+      fileId,
+      encoding,
+      mimeType,
+      mode,
+      ifMatchModifiedTime,
+      ifMatchVersion,
+      contentLength: content.length,
+    });
+
+    if (encoding === 'base64' && !isValidBase64(content)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Content is not valid base64');
+    }
+
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+      const metadata = await drive.files.get({
+        fileId,
+        fields: 'id,name,mimeType,modifiedTime,version,size',
+        supportsAllDrives: true,
+      });
+      const current = metadata.data;
+      const currentMimeType = current.mimeType ?? 'application/octet-stream';
+      const name = current.name ?? fileId;
+
+      if (currentMimeType === FOLDER_MIME_TYPE) {
+        throw new McpError(ErrorCode.InvalidParams, `"${name}" is a folder and has no content to update`);
+      }
+      if (isGoogleNativeMimeType(currentMimeType) && !NATIVE_IMPORT_TYPES[currentMimeType]) {
+        throw new McpError(ErrorCode.InvalidParams, `Content of ${currentMimeType} files cannot be updated; only Google Docs and Sheets (and non-Google files) are supported`);
+      }
+
+      // Precondition checks - refuse to clobber a concurrent edit
+      assertUnchanged(name, { modifiedTime: ifMatchModifiedTime, version: ifMatchVersion }, current);
+
+      const newData = decodeContent(content, encoding);
+      let data = newData;
+      let uploadMimeType = mimeType ?? NATIVE_IMPORT_TYPES[currentMimeType] ?? currentMimeType;
+
+      if (mode === 'append') {
+        if (isGoogleNativeMimeType(currentMimeType) || !isTextMimeType(currentMimeType)) {
+          throw new McpError(ErrorCode.InvalidParams, `Append mode only supports plain text files ("${name}" is ${currentMimeType})`);
+        }
+        // The existing content is downloaded whole, so the same cap as file-read applies
+        const size = current.size ? Number(current.size) : undefined;
+        if (size !== undefined && size > MAX_TEXT_DOWNLOAD_BYTES) {
+          throw new McpError(ErrorCode.InvalidParams, `"${name}" is ${size} bytes; text files over ${MAX_TEXT_DOWNLOAD_BYTES} bytes are too large to append to`);
+        }
+        const existing = await fetchFileContent(drive, { id: fileId, mimeType: currentMimeType });
+        data = Buffer.concat([existing.data, newData]);
+        uploadMimeType = currentMimeType;
+      }
+
+      // Drive has no conditional upload, so re-check right before it: an edit made while the
+      // existing content was downloaded would otherwise be overwritten. A window remains
+      // between this check and the upload.
+      if (mode === 'append' || ifMatchModifiedTime !== undefined || ifMatchVersion !== undefined) {
+        const latest = await drive.files.get({ fileId, fields: 'modifiedTime,version', supportsAllDrives: true });
+        assertUnchanged(name, { modifiedTime: current.modifiedTime ?? undefined, version: current.version ?? undefined }, latest.data);
+      }
+
+      const { file, uploadType } = await uploadFile(drive, extra.authContext.auth, {
+        fileId,
+        metadata: {},
+        mimeType: uploadMimeType,
+        data,
+        fields: `${DRIVE_FILE_API_FIELDS},size,version`,
+      });
+
+      const parentNameMap = await fetchParentNames(drive, collectParentIds([file]), logger, deps?.metadataCache?.forAccount(extra.authContext.accountId));
+      const item = toDriveFile(file, parentNameMap);
+
+      logger.info('drive.file.updateContent success', {
+        fileId,
+        mode,
+        bytesUploaded: data.length,
+        uploadType,
+      });
+
+      const result: Output = {
+        type: 'success' as const,
+        operationSummary: mode === 'append' ? `Appended ${newData.length} byte${newData.length === 1 ? '' : 's'} to "${item.name}"` : `Replaced content of "${item.name}"`,
+        mode,
+        item,
+        bytesUploaded: data.length,
+        uploadType,
+        ...(current.modifiedTime && { previousModifiedTime: current.modifiedTime }),
+        ...(current.version && { previousVersion: current.version }),
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.file.updateContent error', { error: message });
+
+      // Throw McpError for proper MCP error handling
+      throw toMcpError(error, 'Error updating file content');
+    }
+  }
+
+  return {
+    name: 'file-update-content' as const,
+    config,
+    handler,
+  };
+}
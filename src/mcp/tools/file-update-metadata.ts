@@ -0,0 +1,233 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { type drive_v3, google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { recordOperation } from '../../lib/operation-journal.ts';
+import type { ToolDeps } from '../../types.ts';
+
+const PropertiesSchema = z.record(z.string(), z.string().nullable());
+
+const ContentRestrictionsSchema = z.object({
+  readOnly: z.boolean().describe('true locks the file content, false unlocks it'),
+  reason: z.string().optional().describe('Reason shown to users when locking'),
+});
+
+// Metadata fields that can be changed - also used to report previous values for undo
+const MetadataChangesSchema = z.object({
+  name: z.string().trim().min(1).optional().describe('New file name'),
+  description: z.string().optional().describe('New description (empty string clears it)'),
+  starred: z.boolean().optional().describe('Star or unstar the file'),
+  properties: PropertiesSchema.optional().describe('Public key/value properties to set (null value deletes the key)'),
+  appProperties: PropertiesSchema.optional().describe('Private app key/value properties to set (null value deletes the key)'),
+  contentRestrictions: ContentRestrictionsSchema.optional().describe('Lock or unlock the file content'),
+});
+
+type MetadataChanges = z.infer<typeof MetadataChangesSchema>;
+
+interface UpdateResult {
+  fileId: string;
+  name: string;
+  previous: MetadataChanges;
+}
+
+interface FailedUpdate {
+  fileId: string;
+  error: string;
+  code?: string;
+}
+
+const inputSchema = z.object({
+  updates: z
+    .array(MetadataChangesSchema.extend({ fileId: z.string().min(1).describe('ID or path (e.g. "path:/Work/Plan.md") of the file to update') }))
+    .min(1)
+    .max(100)
+    .describe('Per-file metadata changes (max 100). Only provided fields are changed'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  updated: z
+    .array(
+      z.object({
+        fileId: z.string().describe('ID of the updated file'),
+        name: z.string().describe('File name after the update'),
+        previous: MetadataChangesSchema.describe('Previous values of the changed fields (pass back as an update to undo)'),
+      })
+    )
+    .describe('Successfully updated files'),
+  failed: z
+    .array(
+      z.object({
+        fileId: z.string().describe('ID of the file that failed to update'),
+        error: z.string().describe('Error message explaining the failure'),
+        code: z.string().optional().describe('API error code if available'),
+      })
+    )
+    .optional()
+    .describe('Files that failed to update'),
+  totalRequested: z.number().describe('Total number of files requested to update'),
+  totalUpdated: z.number().describe('Number of files successfully updated'),
+  totalFailed: z.number().describe('Number of files that failed to update'),
+  operationId: z.string().optional().describe('Pass to operation-undo to restore the previous names of renamed files'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Update File Metadata',
+  description: 'Rename files and change description, starred, properties/appProperties or content lock. Batch up to 100 files. Returns previous values for undo.',
+  inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+/**
+ * Capture the current values of the fields about to change.
+ * Property keys that did not exist are reported as null so undo deletes them.
+ */
+function previousValues(current: drive_v3.Schema$File, changes: MetadataChanges): MetadataChanges {
+  const previous: MetadataChanges = {};
+  if (changes.name !== undefined && current.name) previous.name = current.name;
+  if (changes.description !== undefined) previous.description = current.description ?? '';
+  if (changes.starred !== undefined) previous.starred = current.starred ?? false;
+  if (changes.properties) {
+    previous.properties = Object.fromEntries(Object.keys(changes.properties).map((key) => [key, current.properties?.[key] ?? null]));
+  }
+  if (changes.appProperties) {
+    previous.appProperties = Object.fromEntries(Object.keys(changes.appProperties).map((key) => [key, current.appProperties?.[key] ?? null]));
+  }
+  if (changes.contentRestrictions) {
+    const restriction = current.contentRestrictions?.[0];
+    previous.contentRestrictions = {
+      readOnly: restriction?.readOnly ?? false,
+      ...(restriction?.reason && { reason: restriction.reason }),
+    };
+  }
+  return previous;
+}
+
+async function updateSingleFile(drive: drive_v3.Drive, update: Input['updates'][number]): Promise<UpdateResult> {
+  const { fileId, name, description, starred, properties, appProperties, contentRestrictions } = update;
+
+  const current = await drive.files.get({
+    fileId,
+    fields: 'id,name,description,starred,properties,appProperties,contentRestrictions',
+    supportsAllDrives: true,
+  });
+
+  const response = await drive.files.update({
+    fileId,
+    requestBody: {
+      ...(name !== undefined && { name }),
+      ...(description !== undefined && { description }),
+      ...(starred !== undefined && { starred }),
+      ...(properties && { properties }),
+      ...(appProperties && { appProperties }),
+      ...(contentRestrictions && { contentRestrictions: [contentRestrictions] }),
+    },
+    fields: 'id,name',
+    supportsAllDrives: true,
+  });
+
+  return {
+    fileId,
+    name: response.data.name ?? current.data.name ?? fileId,
+    previous: previousValues(current.data, update),
+  };
+}
+
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ updates }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    logger.info('drive.file.updateMetadata called', { fileCount: updates.length });
+
+    // An empty properties/appProperties object changes nothing, so it does not count as a change
+    const empty = updates.find(({ fileId: _fileId, properties, appProperties, ...changes }) => Object.values(changes).every((value) => value === undefined) && Object.keys({ ...properties, ...appProperties }).length === 0);
+    if (empty) {
+      throw new McpError(ErrorCode.InvalidParams, `No metadata changes provided for file ${empty.fileId}`);
+    }
+
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+      const results = await Promise.allSettled(updates.map((update) => updateSingleFile(drive, update)));
+      await deps?.metadataCache?.forAccount(extra.authContext.accountId).invalidate(updates.filter((u) => u.name !== undefined).map((u) => u.fileId));
+
+      const updated: UpdateResult[] = [];
+      const failed: FailedUpdate[] = [];
+      results.forEach((result, index) => {
+        const fileId = updates[index]?.fileId;
+        if (!fileId) return;
+        if (result.status === 'fulfilled') {
+          updated.push(result.value);
+        } else {
+          const error = result.reason as { message?: string; code?: number | string } | undefined;
+          logger.info('Failed to update file metadata', { fileId, error: result.reason });
+          failed.push({
+            fileId,
+            error: error?.message ? error.message : String(result.reason),
+            ...(error?.code && { code: String(error.code) }),
+          });
+        }
+      });
+
+      // Only renames are journaled; other previous values are returned for manual undo
+      const operationId = await recordOperation(
+        deps?.operationJournal?.forAccount(extra.authContext.accountId),
+        'rename',
+        'file-update-metadata',
+        updated.filter((u) => u.previous.name !== undefined).map((u) => ({ fileId: u.fileId, oldName: u.previous.name, newName: u.name })),
+        logger
+      );
+
+      logger.info('drive.file.updateMetadata returning', {
+        totalRequested: updates.length,
+        totalUpdated: updated.length,
+        totalFailed: failed.length,
+      });
+
+      const result: Output = {
+        type: 'success' as const,
+        updated,
+        ...(failed.length > 0 && { failed }),
+        totalRequested: updates.length,
+        totalUpdated: updated.length,
+        totalFailed: failed.length,
+        ...(operationId && { operationId }),
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.file.updateMetadata error', { error: message });
+
+      // Throw McpError
+      throw toMcpError(error, 'Error updating file metadata');
+    }
+  }
+
+  return {
+    name: 'file-update-metadata' as const,
+    config,
+    handler,
+  };
+}
@@ -0,0 +1,130 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { collectParentIds, DRIVE_FILE_API_FIELDS, fetchParentNames, toDriveFile } from '../../lib/drive-file.ts';
+import { CONTENT_ENCODINGS, decodeContent, isValidBase64, uploadFile } from '../../lib/upload.ts';
+import { DriveFileSchema } from '../../schemas/index.ts';
+import type { ToolDeps } from '../../types.ts';
+
+const GOOGLE_NATIVE_TYPES = {
+  document: 'application/vnd.google-apps.document',
+  spreadsheet: 'application/vnd.google-apps.spreadsheet',
+  presentation: 'application/vnd.google-apps.presentation',
+} as const;
+
+const inputSchema = z.object({
+  name: z.string().trim().min(1).describe('Name for the new file (include an extension for non-converted files, e.g. report.md)'),
+  parentId: z.string().optional().describe('Parent folder ID or path (e.g. "path:/Work/Projects"; omit to create in My Drive root)'),
+  content: z.string().describe('File content as UTF-8 text or base64 (see encoding)'),
+  encoding: z.enum(CONTENT_ENCODINGS).optional().describe('Content encoding: utf8 for text (default), base64 for binary'),
+  mimeType: z.string().min(1).optional().describe('MIME type of the content (default: text/plain for utf8, application/octet-stream for base64)'),
+  convertTo: z.enum(['document', 'spreadsheet', 'presentation']).optional().describe('Convert to a Google-native type on upload (e.g. markdown/HTML → document, CSV → spreadsheet)'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  operationSummary: z.string().describe('Summary of the upload operation'),
+  item: DriveFileSchema.describe('Uploaded file'),
+  bytesUploaded: z.number().describe('Size of the uploaded content in bytes'),
+  uploadType: z.enum(['multipart', 'resumable']).describe('Upload protocol used (resumable for large payloads)'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Upload File',
+  description: 'Create a file from text or base64 content. Optionally convert to a Google Doc, Sheet or Slides. Returns the file in the same shape as files-search.',
+  inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ name, parentId, content, encoding = 'utf8', mimeType, convertTo }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    logger.info('drive.file.upload called', {
+      name,
+      parentId: parentId || 'root',
+      encoding,
+      mimeType,
+      convertTo,
+      contentLength: content.length,
+    });
+
+    if (encoding === 'base64' && !isValidBase64(content)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Content is not valid base64');
+    }
+
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+      const data = decodeContent(content, encoding);
+      const sourceMimeType = mimeType ?? (encoding === 'base64' ? 'application/octet-stream' : 'text/plain');
+
+      const { file, uploadType } = await uploadFile(drive, extra.authContext.auth, {
+        metadata: {
+          name,
+          ...(convertTo && { mimeType: GOOGLE_NATIVE_TYPES[convertTo] }),
+          ...(parentId && { parents: [parentId] }),
+        },
+        mimeType: sourceMimeType,
+        data,
+        fields: `${DRIVE_FILE_API_FIELDS},size`,
+      });
+
+      const parentNameMap = await fetchParentNames(drive, collectParentIds([file]), logger, deps?.metadataCache?.forAccount(extra.authContext.accountId));
+      const item = toDriveFile(file, parentNameMap);
+      const parentName = item.parents?.[0]?.name;
+      const locationSummary = parentName ? ` in "${parentName}"` : ' in My Drive';
+
+      logger.info('drive.file.upload success', {
+        id: item.id,
+        name: item.name,
+        bytesUploaded: data.length,
+        uploadType,
+      });
+
+      const result: Output = {
+        type: 'success' as const,
+        operationSummary: `Uploaded "${item.name}"${locationSummary}${convertTo ? ` as Google ${convertTo}` : ''}`,
+        item,
+        bytesUploaded: data.length,
+        uploadType,
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.file.upload error', { error: message });
+
+      // Throw McpError for proper MCP error handling
+      throw toMcpError(error, 'Error uploading file');
+    }
+  }
+
+  return {
+    name: 'file-upload' as const,
+    config,
+    handler,
+  };
+}
@@ -4,13 +4,16 @@ import { schemas } from '@mcp-z/oauth-google';
 const { AuthRequiredBranchSchema } = schemas;
 
 import { createFieldsSchema, createPaginationSchema, createShapeSchema, filterFields, parseFields, toColumnarFormat } from '@mcp-z/server';
-import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { google } from 'googleapis';
 import { z } from 'zod';
-import { DRIVE_FILE_COMMON_PATTERNS, DRIVE_FILE_FIELD_DESCRIPTIONS, DRIVE_FILE_FIELDS, type DriveFile, DriveFileSchema } from '../../schemas/index.ts';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { listFolderItems } from '../../lib/drive-file.ts';
+import { DRIVE_FILE_COMMON_PATTERNS, DRIVE_FILE_FIELD_DESCRIPTIONS, DRIVE_FILE_FIELDS, DriveFileSchema, DriveScopeSchema } from '../../schemas/index.ts';
+import type { ToolDeps } from '../../types.ts';
 
 const inputSchema = z.object({
-  folderId: z.string().min(1).describe('Folder ID to list contents (use "root" for Drive root)'),
+  folderId: z.string().min(1).describe('Folder ID or path (e.g. "path:/Work/Projects") to list contents (use "root" for My Drive root, or a shared drive ID for its root)'),
   fields: createFieldsSchema({
     availableFields: DRIVE_FILE_FIELDS,
     fieldDescriptions: DRIVE_FILE_FIELD_DESCRIPTIONS,
@@ -22,6 +25,7 @@ const inputSchema = z.object({
     maxPageSize: 1000,
     provider: 'drive',
   }).shape,
+  ...DriveScopeSchema.shape,
   shape: createShapeSchema(),
 });
 
@@ -56,195 +60,79 @@ const config = {
   outputSchema: z.object({
     result: outputSchema,
   }),
+  annotations: { readOnlyHint: true },
 } as const;
 
 export type Input = z.infer<typeof inputSchema>;
 export type Output = z.infer<typeof outputSchema>;
 
-// Type for the raw Google Drive API response
-type DriveItem = {
-  id?: string;
-  name?: string;
-  mimeType?: string;
-  webViewLink?: string;
-  modifiedTime?: string;
-  parents?: string[];
-  shared?: boolean;
-  starred?: boolean;
-  owners?: Array<{
-    displayName?: string;
-    emailAddress?: string;
-    kind?: string;
-    me?: boolean;
-    permissionId?: string;
-    photoLink?: string;
-  }>;
-};
-
-type DriveResponse = {
-  files?: DriveItem[];
-  nextPageToken?: string;
-};
-
-async function handler({ folderId, pageSize = 50, pageToken, fields, shape = 'arrays' }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
-  const logger = extra.logger;
-
-  const requestedFields = parseFields(fields, DRIVE_FILE_FIELDS);
-
-  logger.info('drive.folder.contents called', {
-    folderId,
-    pageSize,
-    pageToken: pageToken ? '[provided]' : undefined,
-    fields: fields || 'all',
-  });
-
-  try {
-    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
-
-    const qStr = `'${folderId}' in parents and trashed = false`;
-
-    const listOptions: {
-      q: string;
-      pageSize: number;
-      fields: string;
-      orderBy: string;
-      pageToken?: string;
-    } = {
-      q: qStr,
-      pageSize: Math.min(1000, pageSize),
-      fields: 'files(id,name,mimeType,webViewLink,modifiedTime,parents,shared,starred,owners),nextPageToken',
-      orderBy: 'folder,name', // Folders first, then by name
-    };
-    if (pageToken && pageToken.trim().length > 0) {
-      listOptions.pageToken = pageToken;
-    }
-
-    const response = await drive.files.list(listOptions);
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ folderId, pageSize = 50, pageToken, fields, driveId, corpora, shape = 'arrays' }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
 
-    const res = response.data as DriveResponse;
-    const items = Array.isArray(res?.files) ? res.files : [];
+    const requestedFields = parseFields(fields, DRIVE_FILE_FIELDS);
 
-    const parentIds = new Set<string>();
-    for (const f of items) {
-      if (f?.parents && f.parents.length > 0) {
-        for (const parentId of f.parents) {
-          if (parentId && parentId !== 'root') {
-            parentIds.add(parentId);
-          }
-        }
-      }
-    }
+    logger.info('drive.folder.contents called', {
+      folderId,
+      driveId,
+      pageSize,
+      pageToken: pageToken ? '[provided]' : undefined,
+      fields: fields || 'all',
+    });
 
-    const parentNameMap = new Map<string, string>();
-    if (parentIds.size > 0) {
-      logger.info('Fetching parent names', { count: parentIds.size });
-      const parentFetches = Array.from(parentIds).map(async (parentId) => {
-        try {
-          const parentRes = await drive.files.get({
-            fileId: parentId,
-            fields: 'id,name',
-          });
-          const parentName = (parentRes.data.name as string | undefined) || parentId;
-          parentNameMap.set(parentId, parentName);
-        } catch (e) {
-          logger.info('Failed to fetch parent name', { parentId, error: e });
-          parentNameMap.set(parentId, parentId); // Fallback to ID
-        }
-      });
-      await Promise.all(parentFetches);
-    }
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
 
-    const driveFiles: DriveFile[] = items.map((f: DriveItem) => {
-      const id = f?.id ? String(f.id) : 'unknown';
-      const name = f?.name || id;
-      const result: DriveFile = { id, name };
-
-      // Only include properties that have actual values
-      if (f?.mimeType) result.mimeType = f.mimeType;
-      if (f?.webViewLink) result.webViewLink = f.webViewLink;
-      if (f?.modifiedTime) result.modifiedTime = f.modifiedTime;
-
-      // Build parent objects with names
-      if (f?.parents && f.parents.length > 0) {
-        result.parents = f.parents.map((parentId) => {
-          if (parentId === 'root') {
-            return { id: 'root', name: 'My Drive' };
-          }
-          const parentName = parentNameMap.get(parentId) || parentId;
-          return { id: parentId, name: parentName };
-        });
-      }
-
-      if (f?.shared !== undefined) result.shared = f.shared;
-      if (f?.starred !== undefined) result.starred = f.starred;
-
-      if (f?.owners && f.owners.length > 0) {
-        result.owners = f.owners.map((o) => {
-          const owner: NonNullable<DriveFile['owners']>[number] = {};
-          if (o?.displayName) owner.displayName = o.displayName;
-          if (o?.emailAddress) owner.emailAddress = o.emailAddress;
-          if (o?.kind) owner.kind = o.kind;
-          if (o?.me !== undefined) owner.me = o.me;
-          if (o?.permissionId) owner.permissionId = o.permissionId;
-          if (o?.photoLink) owner.photoLink = o.photoLink;
-          return owner;
-        });
-      }
-
-      return result;
-    });
+      const listing = await listFolderItems(drive, { folderId, pageSize, pageToken, driveId, corpora }, logger, deps?.metadataCache?.forAccount(extra.authContext.accountId));
 
-    const filteredItems = driveFiles.map((item) => filterFields(item, requestedFields));
+      const filteredItems = listing.items.map((item) => filterFields(item, requestedFields));
 
-    logger.info('drive.folder.contents returning', {
-      folderId,
-      resultCount: filteredItems.length,
-      fields: fields || 'all',
-    });
+      logger.info('drive.folder.contents returning', {
+        folderId,
+        resultCount: filteredItems.length,
+        fields: fields || 'all',
+      });
 
-    const nextPageToken = res.nextPageToken && res.nextPageToken.trim().length > 0 ? res.nextPageToken : undefined;
-
-    // Build result based on shape
-    const result: Output =
-      shape === 'arrays'
-        ? {
-            type: 'success' as const,
-            shape: 'arrays' as const,
-            ...toColumnarFormat(filteredItems, requestedFields, DRIVE_FILE_FIELDS),
-            count: filteredItems.length,
-            folderId,
-            ...(nextPageToken && { nextPageToken }),
-          }
-        : {
-            type: 'success' as const,
-            shape: 'objects' as const,
-            items: filteredItems,
-            count: filteredItems.length,
-            folderId,
-            ...(nextPageToken && { nextPageToken }),
-          };
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result),
-        },
-      ],
-      structuredContent: { result },
-    };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    logger.error('drive.folder.contents error', { error: message });
-
-    // Throw McpError
-    throw new McpError(ErrorCode.InternalError, `Error listing folder contents: ${message}`, {
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+      const { nextPageToken } = listing;
+
+      // Build result based on shape
+      const result: Output =
+        shape === 'arrays'
+          ? {
+              type: 'success' as const,
+              shape: 'arrays' as const,
+              ...toColumnarFormat(filteredItems, requestedFields, DRIVE_FILE_FIELDS),
+              count: filteredItems.length,
+              folderId,
+              ...(nextPageToken && { nextPageToken }),
+            }
+          : {
+              type: 'success' as const,
+              shape: 'objects' as const,
+              items: filteredItems,
+              count: filteredItems.length,
+              folderId,
+              ...(nextPageToken && { nextPageToken }),
+            };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.folder.contents error', { error: message });
+
+      // Throw McpError
+      throw toMcpError(error, 'Error listing folder contents');
+    }
   }
-}
 
-export default function createTool() {
   return {
     name: 'folder-contents' as const,
     config,
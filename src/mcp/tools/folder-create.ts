@@ -3,14 +3,23 @@ import { schemas } from '@mcp-z/oauth-google';
 
 const { AuthRequiredBranchSchema } = schemas;
 
-import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { google } from 'googleapis';
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { type drive_v3, google } from 'googleapis';
 import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { createDrivePath, isPathReference, PATH_PREFIX, type ResolvedDrivePath, walkDrivePath } from '../../lib/drive-path.ts';
+import { createPathResolver, createProblems, DRY_RUN_API_FIELDS, nestedCreateChanges, toDryRunBranch } from '../../lib/dry-run.ts';
+import { getItemMetadata, toItemMetadata } from '../../lib/metadata-cache.ts';
+import { type OperationItem, recordOperation } from '../../lib/operation-journal.ts';
+import { DryRunBranchSchema } from '../../schemas/index.ts';
+import type { ToolDeps } from '../../types.ts';
 
 const inputSchema = z.object({
   name: z.string().trim().min(1).describe('Name for the new folder'),
-  parentId: z.string().optional().describe('Parent folder ID (omit to create in My Drive root)'),
+  parentId: z.string().optional().describe('Parent folder ID, shared drive ID, or path (e.g. "path:/Work/Projects"). Omit to create in My Drive root'),
+  // The path layer (createPathLayer) leaves a path: parentId to this tool when set
+  createParents: z.boolean().optional().describe('Create missing folders along a path: parentId, like mkdir -p (default: false)'),
+  dryRun: z.boolean().optional().describe('Plan the creation without changing anything: returns the destination path, any missing createParents folders it would create, and permission problems (default: false)'),
 });
 
 // Success branch schema
@@ -25,14 +34,24 @@ const successBranchSchema = z.object({
   webViewLink: z.string().describe('URL to view the folder in Drive'),
   parentId: z.string().optional().describe('ID of the parent folder'),
   parentName: z.string().optional().describe('Name of the parent folder'),
+  createdParents: z
+    .array(
+      z.object({
+        id: z.string().describe('ID of the created folder'),
+        name: z.string().describe('Name of the created folder'),
+      })
+    )
+    .optional()
+    .describe('Missing folders createParents created along parentId, outermost first'),
+  operationId: z.string().optional().describe('Pass to operation-undo to trash the folder, and any createdParents, while still empty'),
 });
 
 // Output schema with auth_required support
-const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, DryRunBranchSchema, AuthRequiredBranchSchema]);
 
 const config = {
   title: 'Create Folder',
-  description: 'Create a new folder in Google Drive. Returns folder ID for use in other operations.',
+  description: 'Create a new folder in Google Drive. Returns folder ID for use in other operations. Pass dryRun: true to preview.',
   inputSchema,
   outputSchema: z.object({
     result: outputSchema,
@@ -43,104 +62,175 @@ const config = {
 export type Input = z.infer<typeof inputSchema>;
 export type Output = z.infer<typeof outputSchema>;
 
-async function handler({ name: folderName, parentId }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
-  const logger = extra.logger;
-  logger.info('drive.folder.create called', {
-    name: folderName,
-    parentId: parentId || 'root',
-  });
-
-  try {
-    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
-
-    // Folder MIME type constant (consistent with folder-search.ts)
-    const folderMimeType = 'application/vnd.google-apps.folder';
-
-    // Create the folder
-    const response = await drive.files.create({
-      requestBody: {
-        name: folderName,
-        mimeType: folderMimeType,
-        parents: parentId ? [parentId] : null,
-      },
-      fields: 'id,name,webViewLink,parents',
-    });
-
-    const res = response.data;
-    const id = res.id ?? '';
-    const name = res.name ?? folderName;
-    const webViewLink = res.webViewLink ?? '';
-    const parents = (res.parents as string[] | undefined) || [];
+/**
+ * Journal items for created folders, children first so undo trashes each folder once it is empty again
+ */
+function createdItems(folders: drive_v3.Schema$File[]): OperationItem[] {
+  return [...folders]
+    .reverse()
+    .map((folder) => ({ fileId: folder.id ?? '', newParents: folder.parents ?? [] }))
+    .filter((item) => item.fileId);
+}
 
-    // Fetch parent name if parentId was provided
-    let parentName: string | undefined;
-    let actualParentId: string | undefined;
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ name: folderName, parentId: parentArg, createParents = false, dryRun = false }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    logger.info('drive.folder.create called', {
+      name: folderName,
+      parentId: parentArg || 'root',
+      createParents,
+      dryRun,
+    });
 
-    if (parents.length > 0) {
-      actualParentId = parents[0];
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+      const metadataCache = deps?.metadataCache?.forAccount(extra.authContext.accountId);
+      const journal = deps?.operationJournal?.forAccount(extra.authContext.accountId);
+
+      // With createParents the path layer leaves a path: parentId here, so the folders created along it are journaled
+      const parentPath = createParents && isPathReference(parentArg) ? parentArg.slice(PATH_PREFIX.length) : undefined;
+      let parentId = parentArg;
+      // Missing folders along a createParents path: created below, or only planned in a dry run
+      let missingParents: string[] = [];
+      const createdParents: drive_v3.Schema$File[] = [];
+      // Parents created before a failure are journaled too, so operation-undo can still remove them
+      const recordCreatedParents = async (): Promise<string> => {
+        const operationId = await recordOperation(journal, 'create', 'folder-create', createdItems(createdParents), logger);
+        return operationId ? ` (parent folders created before the failure can be trashed with operation-undo, operationId ${operationId})` : '';
+      };
+      if (parentPath !== undefined) {
+        let folder: ResolvedDrivePath;
+        try {
+          if (dryRun) {
+            ({ item: folder, missing: missingParents } = await walkDrivePath(drive, parentPath, { foldersOnly: true }));
+          } else {
+            ({ folder } = await createDrivePath(drive, parentPath, { created: createdParents }));
+          }
+        } catch (error) {
+          throw new McpError(ErrorCode.InvalidParams, `${error instanceof Error ? error.message : String(error)}${await recordCreatedParents()}`);
+        }
+        for (const parent of createdParents) if (parent.id) await metadataCache?.set(toItemMetadata(parent, parent.id));
+        parentId = folder.id;
+      }
 
-      if (actualParentId === 'root') {
-        parentName = 'My Drive';
-      } else if (actualParentId) {
+      if (dryRun) {
+        let parent: drive_v3.Schema$File | undefined;
         try {
-          const parentResponse = await drive.files.get({
-            fileId: actualParentId,
-            fields: 'name',
-          });
-          parentName = (parentResponse.data.name as string | undefined) || actualParentId;
+          parent = (await drive.files.get({ fileId: parentId || 'root', fields: DRY_RUN_API_FIELDS, supportsAllDrives: true })).data;
         } catch (e) {
-          logger.info('Failed to fetch parent name', {
-            parentId: actualParentId,
-            error: e,
-          });
-          parentName = actualParentId; // Fallback to ID
+          logger.info('Failed to fetch parent folder', { parentId, error: e });
         }
+        const existingPath = parent ? (await createPathResolver(drive, logger, metadataCache)(parentId || 'root')).path : undefined;
+        const changes = nestedCreateChanges(existingPath, [...missingParents, folderName], createProblems(parent));
+        const destinationPath = changes[changes.length - 1]?.destinationPath;
+        const parentsSummary = missingParents.length > 0 ? ` and ${missingParents.length} missing parent folder${missingParents.length === 1 ? '' : 's'}` : '';
+        const result: Output = toDryRunBranch(`Create folder "${folderName}"${parentsSummary}${destinationPath ? ` at "${destinationPath}"` : ''}`, changes);
+        logger.info('drive.folder.create dry run', { totalBlocked: result.totalBlocked, missingParents: missingParents.length });
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(result),
+            },
+          ],
+          structuredContent: { result },
+        };
       }
-    }
 
-    const locationSummary = parentName ? ` in "${parentName}"` : ' in My Drive';
+      // Folder MIME type constant (consistent with folder-search.ts)
+      const folderMimeType = 'application/vnd.google-apps.folder';
+
+      // Create the folder
+      let res: drive_v3.Schema$File;
+      try {
+        const response = await drive.files.create({
+          requestBody: {
+            name: folderName,
+            mimeType: folderMimeType,
+            parents: parentId ? [parentId] : null,
+          },
+          fields: 'id,name,webViewLink,parents,driveId',
+          supportsAllDrives: true,
+        });
+        res = response.data;
+      } catch (error) {
+        throw toMcpError(error, `Error creating folder${await recordCreatedParents()}`);
+      }
 
-    logger.info('drive.folder.create success', {
-      id,
-      name,
-      parentId: actualParentId,
-    });
+      const id = res.id ?? '';
+      const name = res.name ?? folderName;
+      const webViewLink = res.webViewLink ?? '';
+      const parents = (res.parents as string[] | undefined) || [];
+      if (id) await metadataCache?.set(toItemMetadata(res, id));
+
+      // Fetch parent name if parentId was provided
+      let parentName: string | undefined;
+      let actualParentId: string | undefined;
+
+      if (parents.length > 0) {
+        actualParentId = parents[0];
+
+        if (actualParentId === 'root') {
+          parentName = 'My Drive';
+        } else if (actualParentId) {
+          try {
+            const parent = await getItemMetadata(drive, actualParentId, metadataCache);
+            parentName = parent.name;
+          } catch (e) {
+            logger.info('Failed to fetch parent name', {
+              parentId: actualParentId,
+              error: e,
+            });
+            parentName = actualParentId; // Fallback to ID
+          }
+        }
+      }
 
-    // Build result object with operation metadata
-    const result: Output = {
-      type: 'success' as const,
-      operationSummary: `Created folder "${name}"${locationSummary}`,
-      itemsProcessed: 1,
-      itemsChanged: 1,
-      completedAt: new Date().toISOString(),
-      id,
-      name,
-      webViewLink,
-      ...(actualParentId && { parentId: actualParentId }),
-      ...(parentName && { parentName }),
-    };
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result),
-        },
-      ],
-      structuredContent: { result },
-    };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    logger.error('drive.folder.create error', { error: message });
-
-    // Throw McpError for proper MCP error handling
-    throw new McpError(ErrorCode.InternalError, `Error creating folder: ${message}`, {
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+      const operationId = await recordOperation(journal, 'create', 'folder-create', createdItems([...createdParents, res]), logger);
+
+      const locationSummary = parentName ? ` in "${parentName}"` : ' in My Drive';
+      const parentsSummary = createdParents.length > 0 ? ` (and ${createdParents.length} missing parent folder${createdParents.length === 1 ? '' : 's'})` : '';
+
+      logger.info('drive.folder.create success', {
+        id,
+        name,
+        parentId: actualParentId,
+      });
+
+      // Build result object with operation metadata
+      const result: Output = {
+        type: 'success' as const,
+        operationSummary: `Created folder "${name}"${locationSummary}${parentsSummary}`,
+        itemsProcessed: 1,
+        itemsChanged: 1,
+        completedAt: new Date().toISOString(),
+        id,
+        name,
+        webViewLink,
+        ...(actualParentId && { parentId: actualParentId }),
+        ...(parentName && { parentName }),
+        ...(createdParents.length > 0 && { createdParents: createdParents.map((folder) => ({ id: folder.id ?? '', name: folder.name ?? '' })) }),
+        ...(operationId && { operationId }),
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.folder.create error', { error: message });
+
+      // Throw McpError for proper MCP error handling
+      throw toMcpError(error, 'Error creating folder');
+    }
   }
-}
 
-export default function createTool() {
   return {
     name: 'folder-create' as const,
     config,
@@ -3,20 +3,21 @@ import { schemas } from '@mcp-z/oauth-google';
 
 const { AuthRequiredBranchSchema } = schemas;
 
-import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import type { drive_v3 } from 'googleapis';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { google } from 'googleapis';
 import { z } from 'zod';
-import type { Logger } from '../../types.ts';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { resolveFolderPath } from '../../lib/folder-path.ts';
+import type { ToolDeps } from '../../types.ts';
 
 const inputSchema = z.object({
-  folderId: z.string().min(1).describe('Folder ID to get path for (or "root")'),
+  folderId: z.string().min(1).describe('Folder ID to get path for (or "root", or a "path:/Work/Projects" path). Works for folders in shared drives'),
 });
 
 // Success branch schema - uses items: for consistency with standard vocabulary
 const successBranchSchema = z.object({
   type: z.literal('success'),
-  path: z.string().describe('Full path from root (e.g., /Work/Projects/2024)'),
+  path: z.string().describe('Full path from root (e.g., /Work/Projects/2024). The root is My Drive or the containing shared drive'),
   items: z
     .array(
       z.object({
@@ -25,6 +26,8 @@ const successBranchSchema = z.object({
       })
     )
     .describe('Path items from root to target folder'),
+  driveId: z.string().optional().describe('Shared drive containing the folder (absent for My Drive)'),
+  driveName: z.string().optional().describe('Name of the shared drive containing the folder'),
 });
 
 // Output schema with auth_required support
@@ -32,122 +35,58 @@ const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequ
 
 const config = {
   title: 'Get Folder Path',
-  description: 'Get full path from folder to root. Returns human-readable path and items with IDs.',
+  description: 'Get full path from folder to root (My Drive or shared drive). Returns human-readable path and items with IDs.',
   inputSchema: inputSchema,
   outputSchema: z.object({
     result: outputSchema,
   }),
+  annotations: { readOnlyHint: true },
 } as const;
 
 export type Input = z.infer<typeof inputSchema>;
 export type Output = z.infer<typeof outputSchema>;
 
-/**
- * Resolves the full path for a folder by walking up the parent chain.
- * Returns both the path string and structured segments with IDs and names.
- */
-async function resolveFolderPath(drive: drive_v3.Drive, folderId: string, logger: Logger): Promise<{ path: string; segments: Array<{ id: string; name: string }> }> {
-  // Handle root specially
-  if (folderId === 'root') {
-    return {
-      path: '/',
-      segments: [{ id: 'root', name: 'My Drive' }],
-    };
-  }
-
-  const segments: Array<{ id: string; name: string }> = [];
-  let currentId = folderId;
-  const visited = new Set<string>();
-
-  // Walk up the parent chain
-  while (currentId && currentId !== 'root') {
-    // Prevent infinite loops
-    if (visited.has(currentId)) {
-      logger.info('Circular folder reference detected', {
-        folderId: currentId,
-      });
-      break;
-    }
-    visited.add(currentId);
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ folderId }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    logger.info('drive.folder.path called', { folderId });
 
-    // Fetch folder metadata
     try {
-      const response = await drive.files.get({
-        fileId: currentId,
-        fields: 'id,name,parents',
-      });
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
 
-      const id = response.data.id as string;
-      const name = (response.data.name as string) || id;
-      const parents = response.data.parents as string[] | undefined;
+      const pathResult = await resolveFolderPath(drive, folderId, logger, deps?.metadataCache?.forAccount(extra.authContext.accountId));
 
-      // Add to segments at beginning (we're walking from child to root)
-      segments.unshift({ id, name });
-
-      // Move to parent
-      currentId = (parents && parents.length > 0 ? parents[0] : '') || '';
-    } catch (e) {
-      logger.info('Failed to resolve folder path', {
-        folderId: currentId,
-        error: e,
+      logger.info('drive.folder.path returning', {
+        path: pathResult.path,
+        segmentCount: pathResult.segments.length,
       });
-      break;
-    }
-  }
-
-  // Add root if we reached it
-  if (currentId === 'root') {
-    segments.unshift({ id: 'root', name: 'My Drive' });
-  }
 
-  // Build path string
-  const pathParts = segments.slice(1).map((seg) => seg.name); // Skip root
-  const path = pathParts.length > 0 ? `/${pathParts.join('/')}` : '/';
-
-  return { path, segments };
-}
-
-async function handler({ folderId }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
-  const logger = extra.logger;
-  logger.info('drive.folder.path called', { folderId });
-
-  try {
-    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
-
-    const pathResult = await resolveFolderPath(drive, folderId, logger);
-
-    logger.info('drive.folder.path returning', {
-      path: pathResult.path,
-      segmentCount: pathResult.segments.length,
-    });
-
-    const result: Output = {
-      type: 'success' as const,
-      path: pathResult.path,
-      items: pathResult.segments,
-    };
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result),
-        },
-      ],
-      structuredContent: { result },
-    };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    logger.error('drive.folder.path error', { error: message });
-
-    // Throw McpError
-    throw new McpError(ErrorCode.InternalError, `Error getting folder path: ${message}`, {
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+      const result: Output = {
+        type: 'success' as const,
+        path: pathResult.path,
+        items: pathResult.segments,
+        ...(pathResult.driveId && { driveId: pathResult.driveId }),
+        ...(pathResult.driveName && { driveName: pathResult.driveName }),
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.folder.path error', { error: message });
+
+      // Throw McpError
+      throw toMcpError(error, 'Error getting folder path');
+    }
   }
-}
 
-export default function createTool() {
   return {
     name: 'folder-path' as const,
     config,
@@ -4,13 +4,16 @@ import { schemas } from '@mcp-z/oauth-google';
 const { AuthRequiredBranchSchema } = schemas;
 
 import { createFieldsSchema, createPaginationSchema, createShapeSchema, filterFields, parseFields, toColumnarFormat } from '@mcp-z/server';
-import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import type { drive_v3 } from 'googleapis';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { google } from 'googleapis';
 import { z } from 'zod';
+import { classifyDriveError, toErrorBranch, toMcpError } from '../../lib/drive-errors.ts';
+import { collectParentIds, DRIVE_FILE_API_FIELDS, fetchParentNames, toDriveFile } from '../../lib/drive-file.ts';
+import { type DriveListScope, toListScope } from '../../lib/drive-scope.ts';
+import { resolveFolderPath } from '../../lib/folder-path.ts';
 import { toDriveQuery } from '../../lib/query-builder.ts';
-import { DRIVE_FILE_COMMON_PATTERNS, DRIVE_FILE_FIELD_DESCRIPTIONS, DRIVE_FILE_FIELDS, type DriveFile, DriveFileSchema, DriveQuerySchema } from '../../schemas/index.ts';
-import type { Logger } from '../../types.ts';
+import { DRIVE_FILE_COMMON_PATTERNS, DRIVE_FILE_FIELD_DESCRIPTIONS, DRIVE_FILE_FIELDS, DriveErrorBranchSchema, type DriveFile, DriveFileSchema, DriveQuerySchema, DriveScopeSchema } from '../../schemas/index.ts';
+import type { ToolDeps } from '../../types.ts';
 
 const inputSchema = z.object({
   query: DriveQuerySchema.optional().describe('Drive query object with structured search fields. See DriveQuerySchema for detailed query syntax and examples.'),
@@ -29,6 +32,7 @@ const inputSchema = z.object({
     maxPageSize: 1000,
     provider: 'drive',
   }).shape,
+  ...DriveScopeSchema.shape,
   shape: createShapeSchema(),
 });
 
@@ -50,9 +54,9 @@ const successArraysBranchSchema = z.object({
   nextPageToken: z.string().optional().describe('Token for fetching next page of results'),
 });
 
-// Output schema with auth_required support
+// Output schema with Drive error and auth_required support
 // Using z.union instead of discriminatedUnion since we have two success branches with different shapes
-const outputSchema = z.union([successObjectsBranchSchema, successArraysBranchSchema, AuthRequiredBranchSchema]);
+const outputSchema = z.union([successObjectsBranchSchema, successArraysBranchSchema, DriveErrorBranchSchema, AuthRequiredBranchSchema]);
 
 const config = {
   title: 'Search Folders',
@@ -61,308 +65,118 @@ const config = {
   outputSchema: z.object({
     result: outputSchema,
   }),
+  annotations: { readOnlyHint: true },
 } as const;
 
 export type Input = z.infer<typeof inputSchema>;
 export type Output = z.infer<typeof outputSchema>;
 
-// Type for the raw Google Drive API response
-type DriveFolder = {
-  id?: string;
-  name?: string;
-  mimeType?: string;
-  webViewLink?: string;
-  modifiedTime?: string;
-  parents?: string[];
-  shared?: boolean;
-  starred?: boolean;
-  owners?: Array<{
-    displayName?: string;
-    emailAddress?: string;
-    kind?: string;
-    me?: boolean;
-    permissionId?: string;
-    photoLink?: string;
-  }>;
-};
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ query, resolvePaths = false, pageSize = 50, pageToken, fields, driveId, corpora, shape = 'arrays' }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
 
-type DriveFolderResponse = {
-  files?: DriveFolder[];
-  nextPageToken?: string;
-};
+    const requestedFields = parseFields(fields, [...DRIVE_FILE_FIELDS, 'path'] as const);
 
-/**
- * Resolves the full path for a folder by walking up the parent chain
- * Caches folder names to reduce redundant API calls
- */
-async function resolveFolderPath(drive: drive_v3.Drive, folderId: string, folderCache: Map<string, string>, logger: Logger): Promise<string> {
-  if (folderId === 'root') return '/';
+    // Validate and clamp pageSize to Google Drive API limits (1-1000)
+    const validPageSize = Math.max(1, Math.min(1000, Math.floor(pageSize || 50)));
 
-  const pathParts: string[] = [];
-  let currentId = folderId;
-  const visited = new Set<string>();
-
-  while (currentId && currentId !== 'root') {
-    // Prevent infinite loops
-    if (visited.has(currentId)) {
-      logger.info('Circular folder reference detected', {
-        folderId: currentId,
-      });
-      break;
-    }
-    visited.add(currentId);
-
-    // Check cache first
-    if (folderCache.has(currentId)) {
-      const cachedName = folderCache.get(currentId);
-      if (cachedName) {
-        pathParts.unshift(cachedName);
-      }
+    logger.info('drive.folder.search called', {
+      query,
+      resolvePaths,
+      driveId,
+      corpora,
+      pageSize: validPageSize,
+      pageToken: pageToken ? '[provided]' : undefined,
+      fields: fields || 'all',
+    });
 
-      // Get parent of cached folder
-      try {
-        const response = await drive.files.get({
-          fileId: currentId,
-          fields: 'parents',
-        });
-        const parents = response.data.parents as string[] | undefined;
-        currentId = (parents && parents.length > 0 ? parents[0] : '') || '';
-      } catch (_e) {
-        logger.info('Failed to get parent for cached folder', {
-          folderId: currentId,
-        });
-        break;
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+      const metadataCache = deps?.metadataCache?.forAccount(extra.authContext.accountId);
+
+      const folderMimeType = 'application/vnd.google-apps.folder';
+      let qStr: string;
+
+      if (typeof query === 'string') {
+        // String query - treat as raw Drive query
+        qStr = `(${query}) and mimeType='${folderMimeType}' and trashed = false`;
+      } else if (query && typeof query === 'object' && 'rawDriveQuery' in query && query.rawDriveQuery) {
+        // Object with rawDriveQuery field - use it directly
+        qStr = `(${query.rawDriveQuery}) and mimeType='${folderMimeType}' and trashed = false`;
+      } else if (query) {
+        // Structured query object - convert to Drive query string
+        const { q } = toDriveQuery(query);
+        qStr = q ? `(${q}) and mimeType='${folderMimeType}' and trashed = false` : `mimeType='${folderMimeType}' and trashed = false`;
+      } else {
+        // No query - return all folders
+        qStr = `mimeType='${folderMimeType}' and trashed = false`;
       }
-    } else {
-      // Fetch folder metadata
-      try {
-        const response = await drive.files.get({
-          fileId: currentId,
-          fields: 'name,parents',
-        });
-        const folderName = response.data.name as string | undefined;
-        const parents = response.data.parents as string[] | undefined;
 
-        if (folderName) {
-          folderCache.set(currentId, folderName);
-          pathParts.unshift(folderName);
-        }
-
-        currentId = (parents && parents.length > 0 ? parents[0] : '') || '';
-      } catch (e) {
-        logger.info('Failed to resolve folder path', {
-          folderId: currentId,
-          error: e,
-        });
-        break;
+      const listOptions: DriveListScope & {
+        q: string;
+        pageSize: number;
+        fields: string;
+        orderBy: string;
+        pageToken?: string;
+      } = {
+        ...toListScope({ driveId, corpora }),
+        q: qStr,
+        pageSize: validPageSize,
+        fields: `files(${DRIVE_FILE_API_FIELDS}),nextPageToken`,
+        orderBy: 'modifiedTime desc',
+      };
+      if (pageToken && pageToken.trim().length > 0) {
+        listOptions.pageToken = pageToken;
       }
-    }
-  }
-
-  return `/${pathParts.join('/')}`;
-}
-
-async function handler({ query, resolvePaths = false, pageSize = 50, pageToken, fields, shape = 'arrays' }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
-  const logger = extra.logger;
 
-  const requestedFields = parseFields(fields, [...DRIVE_FILE_FIELDS, 'path'] as const);
+      const response = await drive.files.list(listOptions);
 
-  // Validate and clamp pageSize to Google Drive API limits (1-1000)
-  const validPageSize = Math.max(1, Math.min(1000, Math.floor(pageSize || 50)));
+      const res = response.data;
+      const folders = Array.isArray(res?.files) ? res.files : [];
 
-  logger.info('drive.folder.search called', {
-    query,
-    resolvePaths,
-    pageSize: validPageSize,
-    pageToken: pageToken ? '[provided]' : undefined,
-    fields: fields || 'all',
-  });
+      const parentNameMap = await fetchParentNames(drive, collectParentIds(folders), logger, metadataCache);
 
-  try {
-    const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
-
-    const folderMimeType = 'application/vnd.google-apps.folder';
-    let qStr: string;
-
-    if (typeof query === 'string') {
-      // String query - treat as raw Drive query
-      qStr = `(${query}) and mimeType='${folderMimeType}' and trashed = false`;
-    } else if (query && typeof query === 'object' && 'rawDriveQuery' in query && query.rawDriveQuery) {
-      // Object with rawDriveQuery field - use it directly
-      qStr = `(${query.rawDriveQuery}) and mimeType='${folderMimeType}' and trashed = false`;
-    } else if (query) {
-      // Structured query object - convert to Drive query string
-      const { q } = toDriveQuery(query);
-      qStr = q ? `(${q}) and mimeType='${folderMimeType}' and trashed = false` : `mimeType='${folderMimeType}' and trashed = false`;
-    } else {
-      // No query - return all folders
-      qStr = `mimeType='${folderMimeType}' and trashed = false`;
-    }
+      const items: (DriveFile & { path?: string })[] = await Promise.all(
+        folders.map(async (f) => {
+          const result: DriveFile & { path?: string } = toDriveFile(f, parentNameMap);
 
-    const listOptions: {
-      q: string;
-      pageSize: number;
-      fields: string;
-      orderBy: string;
-      pageToken?: string;
-    } = {
-      q: qStr,
-      pageSize: validPageSize,
-      fields: 'files(id,name,mimeType,webViewLink,modifiedTime,parents,shared,starred,owners),nextPageToken',
-      orderBy: 'modifiedTime desc',
-    };
-    if (pageToken && pageToken.trim().length > 0) {
-      listOptions.pageToken = pageToken;
-    }
-
-    const response = await drive.files.list(listOptions);
-
-    const res = response.data as DriveFolderResponse;
-    const folders = Array.isArray(res?.files) ? res.files : [];
-
-    const parentIds = new Set<string>();
-    for (const f of folders) {
-      if (f?.parents && f.parents.length > 0) {
-        for (const parentId of f.parents) {
-          if (parentId && parentId !== 'root') {
-            parentIds.add(parentId);
+          // Resolve path if requested
+          if (resolvePaths && result.id !== 'unknown') {
+            result.path = (await resolveFolderPath(drive, result.id, logger, metadataCache)).path;
           }
-        }
-      }
-    }
-
-    const parentNameMap = new Map<string, string>();
-    if (parentIds.size > 0) {
-      logger.info('Fetching parent names', { count: parentIds.size });
-      const parentFetches = Array.from(parentIds).map(async (parentId) => {
-        try {
-          const parentRes = await drive.files.get({
-            fileId: parentId,
-            fields: 'id,name',
-          });
-          const parentName = (parentRes.data.name as string | undefined) || parentId;
-          parentNameMap.set(parentId, parentName);
-        } catch (e) {
-          logger.info('Failed to fetch parent name', { parentId, error: e });
-          parentNameMap.set(parentId, parentId); // Fallback to ID
-        }
-      });
-      await Promise.all(parentFetches);
-    }
-
-    // Cache for folder names to reduce API calls during path resolution
-    const folderCache = new Map<string, string>();
-
-    const items: (DriveFile & { path?: string })[] = await Promise.all(
-      folders.map(async (f: DriveFolder) => {
-        const id = f?.id ? String(f.id) : 'unknown';
-        const name = f?.name || id;
-        const result: DriveFile & { path?: string } = { id, name };
-
-        // Only include properties that have actual values
-        if (f?.mimeType) result.mimeType = f.mimeType;
-        if (f?.webViewLink) result.webViewLink = f.webViewLink;
-        if (f?.modifiedTime) result.modifiedTime = f.modifiedTime;
-
-        // Build parent objects with names
-        if (f?.parents && f.parents.length > 0) {
-          result.parents = f.parents.map((parentId) => {
-            if (parentId === 'root') {
-              return { id: 'root', name: 'My Drive' };
-            }
-            const parentName = parentNameMap.get(parentId) || parentId;
-            return { id: parentId, name: parentName };
-          });
-        }
-
-        if (f?.shared !== undefined) result.shared = f.shared;
-        if (f?.starred !== undefined) result.starred = f.starred;
-
-        if (f?.owners && f.owners.length > 0) {
-          result.owners = f.owners.map((o) => {
-            const owner: NonNullable<DriveFile['owners']>[number] = {};
-            if (o?.displayName) owner.displayName = o.displayName;
-            if (o?.emailAddress) owner.emailAddress = o.emailAddress;
-            if (o?.kind) owner.kind = o.kind;
-            if (o?.me !== undefined) owner.me = o.me;
-            if (o?.permissionId) owner.permissionId = o.permissionId;
-            if (o?.photoLink) owner.photoLink = o.photoLink;
-            return owner;
-          });
-        }
-
-        // Resolve path if requested
-        if (resolvePaths && id !== 'unknown') {
-          result.path = await resolveFolderPath(drive, id, folderCache, logger);
-        }
-
-        return result;
-      })
-    );
 
-    const filteredItems = items.map((item) => filterFields(item, requestedFields));
+          return result;
+        })
+      );
 
-    logger.info('drive.folder.search returning', {
-      query,
-      pageSize,
-      resultCount: filteredItems.length,
-      resolvePaths,
-      fields: fields || 'all',
-    });
-
-    const nextPageToken = res.nextPageToken && res.nextPageToken.trim().length > 0 ? res.nextPageToken : undefined;
-
-    // Build result based on shape
-    const result: Output =
-      shape === 'arrays'
-        ? {
-            type: 'success' as const,
-            shape: 'arrays' as const,
-            ...toColumnarFormat(filteredItems, requestedFields, [...DRIVE_FILE_FIELDS, 'path'] as const),
-            count: filteredItems.length,
-            ...(nextPageToken && { nextPageToken }),
-          }
-        : {
-            type: 'success' as const,
-            shape: 'objects' as const,
-            items: filteredItems,
-            count: filteredItems.length,
-            ...(nextPageToken && { nextPageToken }),
-          };
+      const filteredItems = items.map((item) => filterFields(item, requestedFields));
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result),
-        },
-      ],
-      structuredContent: { result },
-    };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    logger.error('drive.folder.search error', { error: message });
+      logger.info('drive.folder.search returning', {
+        query,
+        pageSize,
+        resultCount: filteredItems.length,
+        resolvePaths,
+        fields: fields || 'all',
+      });
 
-    // Check if this is a Drive API validation error (invalid query, invalid pageToken, etc.)
-    // These should return empty results rather than throw
-    const isDriveValidationError = message.includes('Invalid Value') || message.includes('Invalid value') || message.includes('File not found') || message.includes('Bad Request');
+      const nextPageToken = res.nextPageToken && res.nextPageToken.trim().length > 0 ? res.nextPageToken : undefined;
 
-    if (isDriveValidationError) {
-      // Return empty result set for validation errors
+      // Build result based on shape
       const result: Output =
         shape === 'arrays'
           ? {
               type: 'success' as const,
               shape: 'arrays' as const,
-              columns: [],
-              rows: [],
-              count: 0,
+              ...toColumnarFormat(filteredItems, requestedFields, [...DRIVE_FILE_FIELDS, 'path'] as const),
+              count: filteredItems.length,
+              ...(nextPageToken && { nextPageToken }),
             }
           : {
               type: 'success' as const,
               shape: 'objects' as const,
-              items: [],
-              count: 0,
+              items: filteredItems,
+              count: filteredItems.length,
+              ...(nextPageToken && { nextPageToken }),
             };
 
       return {
@@ -374,16 +188,32 @@ async function handler({ query, resolvePaths = false, pageSize = 50, pageToken,
         ],
         structuredContent: { result },
       };
-    }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.folder.search error', { error: message });
+
+      // Drive rejections (bad query or pageToken, no access, rate limits) are returned
+      // as a typed error branch; anything unclassified is thrown
+      const classified = classifyDriveError(error);
+      if (classified.kind !== 'unknown') {
+        const result: Output = toErrorBranch(classified);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(result),
+            },
+          ],
+          structuredContent: { result },
+        };
+      }
 
-    // Throw McpError for other errors
-    throw new McpError(ErrorCode.InternalError, `Error searching folders: ${message}`, {
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+      // Throw McpError for other errors
+      throw toMcpError(error, 'Error searching folders');
+    }
   }
-}
 
-export default function createTool() {
   return {
     name: 'folder-search' as const,
     config,
@@ -1,7 +1,32 @@
+export { default as auditLogQuery } from './audit-log-query.ts';
+export { default as changesList } from './changes-list.ts';
+export { default as changesStartToken } from './changes-start-token.ts';
+export { default as drivesList } from './drives-list.ts';
+export { default as fileCommentCreate } from './file-comment-create.ts';
+export { default as fileCommentReply } from './file-comment-reply.ts';
+export { default as fileCommentResolve } from './file-comment-resolve.ts';
+export { default as fileCommentsList } from './file-comments-list.ts';
+export { default as fileCopy } from './file-copy.ts';
 export { default as fileMove } from './file-move.ts';
 export { default as fileMoveToTrash } from './file-move-to-trash.ts';
+export { default as filePermissionUpdate } from './file-permission-update.ts';
+export { default as filePermissionsList } from './file-permissions-list.ts';
+export { default as fileRead } from './file-read.ts';
+export { default as fileRestore } from './file-restore.ts';
+export { default as fileRevisionGet } from './file-revision-get.ts';
+export { default as fileRevisionPin } from './file-revision-pin.ts';
+export { default as fileRevisionsList } from './file-revisions-list.ts';
+export { default as fileShare } from './file-share.ts';
+export { default as fileUnshare } from './file-unshare.ts';
+export { default as fileUpdateContent } from './file-update-content.ts';
+export { default as fileUpdateMetadata } from './file-update-metadata.ts';
+export { default as fileUpload } from './file-upload.ts';
 export { default as filesSearch } from './files-search.ts';
 export { default as folderContents } from './folder-contents.ts';
 export { default as folderCreate } from './folder-create.ts';
 export { default as folderPath } from './folder-path.ts';
 export { default as folderSearch } from './folder-search.ts';
+export { default as operationUndo } from './operation-undo.ts';
+export { default as trashList } from './trash-list.ts';
+export { default as watchStart } from './watch-start.ts';
+export { default as watchStop } from './watch-stop.ts';
@@ -0,0 +1,211 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { type drive_v3, google } from 'googleapis';
+import { z } from 'zod';
+import { type BatchResponse, batchGetFiles, batchResponseError, executeDriveBatch } from '../../lib/drive-batch.ts';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { FOLDER_MIME_TYPE } from '../../lib/file-content.ts';
+import { OPERATION_KINDS, type OperationItem, planUndoItem, UNDO_CHECK_API_FIELDS, type UndoStep } from '../../lib/operation-journal.ts';
+import type { ToolDeps } from '../../types.ts';
+
+interface UndoConflict {
+  fileId: string;
+  reason: string;
+}
+
+interface FailedUndo {
+  fileId: string;
+  error: string;
+  code?: string;
+}
+
+const inputSchema = z.object({
+  operationId: z.string().min(1).describe('operationId returned by file-move, file-move-to-trash, file-update-metadata (renames) or folder-create'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  operationId: z.string().describe('ID of the undone operation'),
+  kind: z.enum(OPERATION_KINDS).describe('move: moved back; trash: restored; rename: previous name restored; create: trashed'),
+  reverted: z.array(z.string()).describe('IDs of items reverted'),
+  conflicts: z
+    .array(
+      z.object({
+        fileId: z.string().describe('ID of the item left unchanged'),
+        reason: z.string().describe('How the item changed since the operation'),
+      })
+    )
+    .optional()
+    .describe('Items not reverted because they changed since the operation'),
+  failed: z
+    .array(
+      z.object({
+        fileId: z.string().describe('ID of the item that failed to revert'),
+        error: z.string().describe('Error message explaining the failure'),
+        code: z.string().optional().describe('API error code if available'),
+      })
+    )
+    .optional()
+    .describe('Items that failed to revert (call again to retry them)'),
+  totalItems: z.number().describe('Number of items in the operation'),
+  totalReverted: z.number().describe('Number of items reverted'),
+  totalConflicts: z.number().describe('Number of items that changed since the operation'),
+  totalFailed: z.number().describe('Number of items that failed to revert'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Undo Operation',
+  description: 'Reverse a whole move, trash, rename or folder creation by operationId: move items back, restore them from trash, restore names or trash created folders. Items changed since are left alone and reported as conflicts.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+/**
+ * Whether a folder has any untrashed children
+ */
+async function hasChildren(drive: drive_v3.Drive, folderId: string): Promise<boolean> {
+  const response = await drive.files.list({
+    q: `'${folderId}' in parents and trashed = false`,
+    pageSize: 1,
+    fields: 'files(id)',
+    supportsAllDrives: true,
+    includeItemsFromAllDrives: true,
+  });
+  return (response.data.files?.length ?? 0) > 0;
+}
+
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ operationId }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    logger.info('drive.operation.undo called', { operationId });
+
+    const journal = deps?.operationJournal?.forAccount(extra.authContext.accountId);
+    if (!journal) {
+      throw new McpError(ErrorCode.InvalidParams, 'The operation journal is not available in this server configuration');
+    }
+
+    const operation = await journal.get(operationId);
+    if (!operation) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown operation ${operationId}. Operations can be undone for 30 days by the account that made them`);
+    }
+    if (operation.undoneAt) {
+      throw new McpError(ErrorCode.InvalidParams, `Operation ${operationId} was already undone at ${operation.undoneAt}`);
+    }
+
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+      const fileIds = operation.items.map((item) => item.fileId);
+      const current = await batchGetFiles(drive, fileIds, UNDO_CHECK_API_FIELDS, { logger });
+
+      const conflicts: UndoConflict[] = [];
+      const failed: FailedUndo[] = [];
+      const reverted: string[] = [];
+      const recordResponse = (fileId: string, response: BatchResponse) => {
+        if (response.status >= 200 && response.status < 300) {
+          reverted.push(fileId);
+          return;
+        }
+        const error = batchResponseError(response);
+        logger.info('Failed to undo item', { operationId, fileId, error: error.message });
+        failed.push({ fileId, error: error.message, ...(error.code && { code: String(error.code) }) });
+      };
+
+      // Created folders are journaled children first and trashed one at a time,
+      // so each parent is empty again by the time it is checked
+      const sequential = operation.kind === 'create';
+      const steps: Array<{ item: OperationItem; step: Extract<UndoStep, { request: unknown }> }> = [];
+      for (const item of operation.items) {
+        const file = current.get(item.fileId);
+        if (!file) {
+          failed.push({ fileId: item.fileId, error: 'Failed to fetch metadata: no response' });
+          continue;
+        }
+        if (file instanceof Error) {
+          const code = (file as Error & { code?: number | string }).code;
+          failed.push({ fileId: item.fileId, error: `Failed to fetch metadata: ${file.message}`, ...(code && { code: String(code) }) });
+          continue;
+        }
+        const checkChildren = operation.kind === 'create' && file.mimeType === FOLDER_MIME_TYPE && !file.trashed;
+        const step = planUndoItem(operation.kind, item, file, { hasChildren: checkChildren && (await hasChildren(drive, item.fileId)) });
+        if ('conflict' in step) conflicts.push({ fileId: item.fileId, reason: step.conflict });
+        else if (sequential) {
+          const [response] = await executeDriveBatch(drive, [step.request], { logger });
+          if (response) recordResponse(item.fileId, response);
+        } else steps.push({ item, step });
+      }
+
+      const responses = await executeDriveBatch(
+        drive,
+        steps.map(({ step }) => step.request),
+        { logger }
+      );
+      responses.forEach((response, index) => {
+        const fileId = steps[index]?.item.fileId;
+        if (fileId) recordResponse(fileId, response);
+      });
+
+      // Parents, names and trash state of reverted items changed
+      await deps?.metadataCache?.forAccount(extra.authContext.accountId).invalidate(reverted);
+
+      // Keep the operation open while items failed so a second call can retry them;
+      // items already reverted then show up as conflicts
+      if (failed.length === 0) await journal.markUndone(operation);
+
+      logger.info('drive.operation.undo returning', {
+        operationId,
+        kind: operation.kind,
+        totalReverted: reverted.length,
+        totalConflicts: conflicts.length,
+        totalFailed: failed.length,
+      });
+
+      const result: Output = {
+        type: 'success' as const,
+        operationId,
+        kind: operation.kind,
+        reverted,
+        ...(conflicts.length > 0 && { conflicts }),
+        ...(failed.length > 0 && { failed }),
+        totalItems: operation.items.length,
+        totalReverted: reverted.length,
+        totalConflicts: conflicts.length,
+        totalFailed: failed.length,
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.operation.undo error', { error: message });
+
+      // Throw McpError
+      throw toMcpError(error, 'Error undoing operation');
+    }
+  }
+
+  return {
+    name: 'operation-undo' as const,
+    config,
+    handler,
+  };
+}
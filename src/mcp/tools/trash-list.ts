@@ -0,0 +1,162 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { createFieldsSchema, createPaginationSchema, createShapeSchema, filterFields, parseFields, toColumnarFormat } from '@mcp-z/server';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { collectParentIds, DRIVE_FILE_API_FIELDS, fetchParentNames, toDriveFile } from '../../lib/drive-file.ts';
+import { toListScope } from '../../lib/drive-scope.ts';
+import { toDriveQuery } from '../../lib/query-builder.ts';
+import { DRIVE_FILE_COMMON_PATTERNS, DRIVE_FILE_FIELD_DESCRIPTIONS, DRIVE_FILE_FIELDS, DriveFileSchema, DriveQuerySchema, DriveScopeSchema } from '../../schemas/index.ts';
+import type { ToolDeps } from '../../types.ts';
+
+const inputSchema = z.object({
+  query: DriveQuerySchema.optional().describe('Optional Drive query to narrow trashed items (same syntax as files-search). Omit to list everything in trash.'),
+  fields: createFieldsSchema({
+    availableFields: DRIVE_FILE_FIELDS,
+    fieldDescriptions: DRIVE_FILE_FIELD_DESCRIPTIONS,
+    commonPatterns: DRIVE_FILE_COMMON_PATTERNS,
+    resourceName: 'Drive file',
+  }),
+  ...createPaginationSchema({
+    defaultPageSize: 50,
+    maxPageSize: 1000,
+    provider: 'drive',
+  }).shape,
+  ...DriveScopeSchema.shape,
+  shape: createShapeSchema(),
+});
+
+// Success branch schemas for different shapes
+const successObjectsBranchSchema = z.object({
+  type: z.literal('success'),
+  shape: z.literal('objects'),
+  items: z.array(DriveFileSchema).describe('Trashed Drive files'),
+  count: z.number().describe('Number of files in this page'),
+  nextPageToken: z.string().optional().describe('Token for fetching next page of results'),
+});
+
+const successArraysBranchSchema = z.object({
+  type: z.literal('success'),
+  shape: z.literal('arrays'),
+  columns: z.array(z.string()).describe('Column names in canonical order'),
+  rows: z.array(z.array(z.unknown())).describe('Row data matching column order'),
+  count: z.number().describe('Number of files in this page'),
+  nextPageToken: z.string().optional().describe('Token for fetching next page of results'),
+});
+
+// Output schema with auth_required support
+// Using z.union instead of discriminatedUnion since we have two success branches with different shapes
+const outputSchema = z.union([successObjectsBranchSchema, successArraysBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'List Trash',
+  description: 'List files and folders in trash (restorable with file-restore for 30 days after trashing).',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+  annotations: { readOnlyHint: true },
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ query, pageSize = 50, pageToken, fields, driveId, corpora, shape = 'arrays' }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+
+    const requestedFields = parseFields(fields, DRIVE_FILE_FIELDS);
+
+    // Validate and clamp pageSize to Google Drive API limits (1-1000)
+    const validPageSize = Math.max(1, Math.min(1000, Math.floor(pageSize || 50)));
+
+    logger.info('drive.trash-list called', {
+      query,
+      driveId,
+      corpora,
+      pageSize: validPageSize,
+      pageToken: pageToken ? '[provided]' : undefined,
+      fields: fields || 'all',
+    });
+
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+      let qStr = 'trashed = true';
+      if (typeof query === 'string') {
+        qStr = `(${query}) and trashed = true`;
+      } else if (query && 'rawDriveQuery' in query && query.rawDriveQuery) {
+        qStr = `(${query.rawDriveQuery}) and trashed = true`;
+      } else if (query) {
+        const { q } = toDriveQuery(query);
+        if (q) qStr = `(${q}) and trashed = true`;
+      }
+
+      const response = await drive.files.list({
+        ...toListScope({ driveId, corpora }),
+        q: qStr,
+        pageSize: validPageSize,
+        fields: `files(${DRIVE_FILE_API_FIELDS}),nextPageToken`,
+        orderBy: 'modifiedTime desc',
+        ...(pageToken && pageToken.trim().length > 0 && { pageToken }),
+      });
+      const files = response.data.files ?? [];
+
+      const parentNameMap = await fetchParentNames(drive, collectParentIds(files), logger, deps?.metadataCache?.forAccount(extra.authContext.accountId));
+      const filteredItems = files.map((f) => filterFields(toDriveFile(f, parentNameMap), requestedFields));
+
+      logger.info('drive.trash-list returning', {
+        pageSize: validPageSize,
+        resultCount: filteredItems.length,
+        fields: fields || 'all',
+      });
+
+      const nextPageToken = response.data.nextPageToken && response.data.nextPageToken.trim().length > 0 ? response.data.nextPageToken : undefined;
+
+      // Build result based on shape
+      const result: Output =
+        shape === 'arrays'
+          ? {
+              type: 'success' as const,
+              shape: 'arrays' as const,
+              ...toColumnarFormat(filteredItems, requestedFields, DRIVE_FILE_FIELDS),
+              count: filteredItems.length,
+              ...(nextPageToken && { nextPageToken }),
+            }
+          : {
+              type: 'success' as const,
+              shape: 'objects' as const,
+              items: filteredItems,
+              count: filteredItems.length,
+              ...(nextPageToken && { nextPageToken }),
+            };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.trash-list error', { error: message });
+
+      // Throw McpError
+      throw toMcpError(error, 'Error listing trash');
+    }
+  }
+
+  return {
+    name: 'trash-list' as const,
+    config,
+    handler,
+  };
+}
@@ -0,0 +1,113 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { fileResourceUri } from '../../lib/resource-subscriptions.ts';
+import { MAX_WATCH_TTL_SECONDS, openWatchChannel } from '../../lib/watch-channels.ts';
+import type { ToolDeps } from '../../types.ts';
+
+const inputSchema = z.object({
+  fileId: z.string().min(1).optional().describe('File ID or path to watch. Omit to watch the change feed (all files the account can see, or one shared drive with driveId)'),
+  driveId: z.string().min(1).optional().describe('Shared drive whose change feed to watch (ignored when fileId is set)'),
+  ttlSeconds: z.number().int().min(60).max(MAX_WATCH_TTL_SECONDS.changes).optional().describe(`Channel lifetime in seconds (default and max: ${MAX_WATCH_TTL_SECONDS.file} for files, ${MAX_WATCH_TTL_SECONDS.changes} for the change feed)`),
+  autoRenew: z.boolean().optional().describe('Replace the channel before it expires (default: true)'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  channelId: z.string().describe('Channel ID (pass to watch-stop)'),
+  resourceId: z.string().describe('Drive resource ID of the watched item'),
+  kind: z.enum(['file', 'changes']).describe('What the channel watches'),
+  fileId: z.string().optional().describe('Watched file'),
+  driveId: z.string().optional().describe('Watched shared drive'),
+  resourceUri: z.string().optional().describe('Resource URI to subscribe to for update notifications (file channels)'),
+  expiration: z.string().describe('ISO datetime when the channel expires'),
+  autoRenew: z.boolean().describe('Whether the channel is renewed before it expires'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Start Watching Drive',
+  description: 'Open a Drive push notification channel for a file or the change feed. Subscribe to drive://files/{fileId} resources to receive notifications/resources/updated when watched files change. Requires the HTTP transport with a public https baseUrl.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ fileId, driveId, ttlSeconds, autoRenew = true }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    const kind = fileId ? ('file' as const) : ('changes' as const);
+    logger.info('drive.watch.start called', { kind, fileId, driveId, ttlSeconds, autoRenew });
+
+    const { watchChannels, notificationUrl } = deps ?? {};
+    if (!watchChannels || !notificationUrl) {
+      throw new McpError(ErrorCode.InvalidParams, 'Push notifications require the HTTP transport');
+    }
+    if (!notificationUrl.startsWith('https://')) {
+      throw new McpError(ErrorCode.InvalidParams, `Drive only delivers push notifications to https URLs; set a public https baseUrl (current webhook: ${notificationUrl})`);
+    }
+
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+      const channel = await openWatchChannel(drive, {
+        kind,
+        fileId,
+        driveId: fileId ? undefined : driveId,
+        accountId: extra.authContext.accountId,
+        address: notificationUrl,
+        ttlSeconds,
+        autoRenew,
+      });
+      await watchChannels.set(channel);
+
+      logger.info('drive.watch.start success', { channelId: channel.id, kind });
+
+      const result: Output = {
+        type: 'success' as const,
+        channelId: channel.id,
+        resourceId: channel.resourceId,
+        kind,
+        ...(channel.fileId && { fileId: channel.fileId, resourceUri: fileResourceUri(channel.fileId) }),
+        ...(channel.driveId && { driveId: channel.driveId }),
+        expiration: new Date(channel.expiration).toISOString(),
+        autoRenew,
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.watch.start error', { error: message });
+
+      // Throw McpError
+      throw toMcpError(error, 'Error starting watch');
+    }
+  }
+
+  return {
+    name: 'watch-start' as const,
+    config,
+    handler,
+  };
+}
@@ -0,0 +1,133 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { schemas } from '@mcp-z/oauth-google';
+
+const { AuthRequiredBranchSchema } = schemas;
+
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { toMcpError } from '../../lib/drive-errors.ts';
+import { closeWatchChannel } from '../../lib/watch-channels.ts';
+import type { ToolDeps } from '../../types.ts';
+
+interface StopFailure {
+  channelId: string;
+  error: string;
+  code?: string;
+}
+
+const inputSchema = z.object({
+  channelIds: z.union([z.string().min(1), z.array(z.string().min(1)).min(1).max(100)]).describe('Channel ID(s) from watch-start. Single ID or array (max 100 for batch)'),
+});
+
+// Success branch schema
+const successBranchSchema = z.object({
+  type: z.literal('success'),
+  stopped: z.array(z.string()).describe('IDs of stopped channels'),
+  failed: z
+    .array(
+      z.object({
+        channelId: z.string().describe('ID of the channel that failed to stop'),
+        error: z.string().describe('Error message explaining the failure'),
+        code: z.string().optional().describe('API error code if available'),
+      })
+    )
+    .optional()
+    .describe('Channels that failed to stop'),
+  totalRequested: z.number().describe('Total number of channels requested to stop'),
+  totalStopped: z.number().describe('Number of channels stopped'),
+  totalFailed: z.number().describe('Number of channels that failed to stop'),
+});
+
+// Output schema with auth_required support
+const outputSchema = z.discriminatedUnion('type', [successBranchSchema, AuthRequiredBranchSchema]);
+
+const config = {
+  title: 'Stop Watching Drive',
+  description: 'Stop Drive push notification channels opened with watch-start by this account.',
+  inputSchema: inputSchema,
+  outputSchema: z.object({
+    result: outputSchema,
+  }),
+} as const;
+
+export type Input = z.infer<typeof inputSchema>;
+export type Output = z.infer<typeof outputSchema>;
+
+export default function createTool(deps?: Partial<ToolDeps>) {
+  async function handler({ channelIds }: Input, extra: EnrichedExtra): Promise<CallToolResult> {
+    const logger = extra.logger;
+    const channelIdArray = Array.isArray(channelIds) ? channelIds : [channelIds];
+    logger.info('drive.watch.stop called', { channelCount: channelIdArray.length });
+
+    const watchChannels = deps?.watchChannels;
+    if (!watchChannels) {
+      throw new McpError(ErrorCode.InvalidParams, 'Push notifications are not available in this server configuration');
+    }
+
+    try {
+      const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+
+      const results = await Promise.allSettled(
+        channelIdArray.map(async (channelId) => {
+          const channel = await watchChannels.get(channelId);
+          // Channels opened by other accounts are reported as unknown, like the journal and audit log
+          if (!channel || channel.accountId !== extra.authContext.accountId) throw new Error(`Unknown channel: ${channelId}`);
+          await closeWatchChannel(drive, channel);
+          await watchChannels.delete(channelId);
+        })
+      );
+
+      const stopped: string[] = [];
+      const failed: StopFailure[] = [];
+      results.forEach((result, index) => {
+        const channelId = channelIdArray[index];
+        if (!channelId) return;
+        if (result.status === 'fulfilled') {
+          stopped.push(channelId);
+        } else {
+          logger.info('Failed to stop channel', { channelId, error: result.reason });
+          const error = result.reason as { message?: string; code?: number | string } | undefined;
+          failed.push({
+            channelId,
+            error: error?.message ? error.message : String(result.reason),
+            ...(error?.code && { code: String(error.code) }),
+          });
+        }
+      });
+
+      logger.info('drive.watch.stop returning', { totalStopped: stopped.length, totalFailed: failed.length });
+
+      const result: Output = {
+        type: 'success' as const,
+        stopped,
+        ...(failed.length > 0 && { failed }),
+        totalRequested: channelIdArray.length,
+        totalStopped: stopped.length,
+        totalFailed: failed.length,
+      };
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(result),
+          },
+        ],
+        structuredContent: { result },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('drive.watch.stop error', { error: message });
+
+      // Throw McpError
+      throw toMcpError(error, 'Error stopping watch');
+    }
+  }
+
+  return {
+    name: 'watch-stop' as const,
+    config,
+    handler,
+  };
+}
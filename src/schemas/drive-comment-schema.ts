@@ -0,0 +1,72 @@
+import { z } from 'zod';
+
+export const COMMENT_STATUSES = ['all', 'resolved', 'unresolved'] as const;
+
+export const REPLY_ACTIONS = ['resolve', 'reopen'] as const;
+
+const CommentAuthorSchema = z.object({
+  displayName: z.string().optional(),
+  emailAddress: z.string().optional(),
+  me: z.boolean().optional().describe('Whether the author is the current user'),
+});
+
+// Drive comment reply schema
+export const DriveCommentReplySchema = z.object({
+  id: z.string().describe('Reply ID'),
+  content: z.string().optional().describe('Plain text content of the reply'),
+  author: CommentAuthorSchema.optional().describe('Author of the reply'),
+  createdTime: z.string().optional().describe('ISO datetime when the reply was created'),
+  modifiedTime: z.string().optional().describe('ISO datetime when the reply was last modified'),
+  action: z.string().optional().describe('Action the reply performed on the comment: resolve or reopen'),
+  deleted: z.boolean().optional().describe('Whether the reply has been deleted'),
+});
+
+export type DriveCommentReply = z.infer<typeof DriveCommentReplySchema>;
+
+// Drive comment schema
+export const DriveCommentSchema = z.object({
+  id: z.string().optional(),
+  content: z.string().optional().describe('Plain text content of the comment'),
+  author: CommentAuthorSchema.optional().describe('Author of the comment'),
+  createdTime: z.string().optional().describe('ISO datetime when the comment was created'),
+  modifiedTime: z.string().optional().describe('ISO datetime when the comment or any reply was last modified'),
+  resolved: z.boolean().optional().describe('Whether the comment has been resolved'),
+  quotedContent: z.string().optional().describe('Document text the comment is attached to'),
+  anchor: z.string().optional().describe('Region of the document the comment is anchored to (JSON string)'),
+  replies: z.array(DriveCommentReplySchema).optional().describe('Replies in chronological order'),
+});
+
+export type DriveComment = z.infer<typeof DriveCommentSchema>;
+
+// Drive comment field definitions for field selection
+export const DRIVE_COMMENT_FIELDS = ['id', 'content', 'author', 'createdTime', 'modifiedTime', 'resolved', 'quotedContent', 'anchor', 'replies'] as const;
+
+export const DRIVE_COMMENT_FIELD_DESCRIPTIONS: Record<(typeof DRIVE_COMMENT_FIELDS)[number], string> = {
+  id: 'Unique comment identifier',
+  content: 'Plain text content of the comment',
+  author: 'Comment author (displayName, emailAddress, me)',
+  createdTime: 'Creation timestamp',
+  modifiedTime: 'Last modification timestamp (including replies)',
+  resolved: 'Whether the comment is resolved',
+  quotedContent: 'Document text the comment is attached to',
+  anchor: 'Anchor region as JSON string',
+  replies: 'Replies (id, content, author, createdTime, action)',
+};
+
+export const DRIVE_COMMENT_COMMON_PATTERNS = [
+  {
+    name: 'Triage',
+    fields: 'id,content,quotedContent,resolved',
+    tokens: '~40 tokens/comment',
+  },
+  {
+    name: 'Who said what',
+    fields: 'id,content,author,createdTime',
+    tokens: '~50 tokens/comment',
+  },
+  {
+    name: 'Full threads',
+    fields: 'id,content,author,quotedContent,resolved,replies',
+    tokens: '~150+ tokens/comment',
+  },
+] as const;
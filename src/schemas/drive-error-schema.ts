@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+// Drive failure categories agents can act on
+export const DRIVE_ERROR_KINDS = ['invalid_request', 'unauthenticated', 'insufficient_scope', 'permission_denied', 'not_found', 'rate_limited', 'unavailable', 'unknown'] as const;
+
+export type DriveErrorKind = (typeof DRIVE_ERROR_KINDS)[number];
+
+// Error branch for tools that report Drive failures as results instead of throwing
+export const DriveErrorBranchSchema = z.object({
+  type: z.literal('error'),
+  kind: z.enum(DRIVE_ERROR_KINDS).describe('invalid_request: fix the query or arguments; unauthenticated: sign in again; insufficient_scope: the granted OAuth scopes do not cover this call; permission_denied: no access; not_found: item does not exist or is not visible; rate_limited/unavailable: try again later'),
+  message: z.string().describe('Drive error message'),
+  status: z.number().optional().describe('HTTP status of the Drive response'),
+  reason: z.string().optional().describe('Drive error reason, e.g. insufficientFilePermissions'),
+  retryable: z.boolean().describe('Whether the same call may succeed later'),
+});
+
+export type DriveErrorBranch = z.infer<typeof DriveErrorBranchSchema>;
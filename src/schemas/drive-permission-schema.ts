@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+export const PERMISSION_ROLES = ['reader', 'commenter', 'writer', 'owner'] as const;
+
+export const PERMISSION_TYPES = ['user', 'group', 'domain', 'anyone'] as const;
+
+// Drive permission schema
+export const DrivePermissionSchema = z.object({
+  id: z.string().describe('Permission ID (stable per user/group across files)'),
+  type: z.string().describe('Grantee type: user, group, domain or anyone'),
+  role: z.string().describe('Access role: owner, organizer, fileOrganizer, writer, commenter or reader'),
+  emailAddress: z.string().optional().describe('Email address (user and group permissions)'),
+  domain: z.string().optional().describe('Domain name (domain permissions)'),
+  displayName: z.string().optional().describe('Display name of the user, group or domain'),
+  expirationTime: z.string().optional().describe('ISO datetime when the permission expires'),
+  allowFileDiscovery: z.boolean().optional().describe('Whether the file is discoverable via search (domain/anyone permissions)'),
+  deleted: z.boolean().optional().describe('Whether the grantee account has been deleted'),
+});
+
+export type DrivePermission = z.infer<typeof DrivePermissionSchema>;
+
+// Per-file failure entry shared by batch permission tools
+export const PermissionFailureSchema = z.object({
+  fileId: z.string().describe('ID of the file that failed'),
+  error: z.string().describe('Error message explaining the failure'),
+  code: z.string().optional().describe('API error code if available'),
+});
+
+export type PermissionFailure = z.infer<typeof PermissionFailureSchema>;
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+// Drive file revision schema
+export const DriveRevisionSchema = z.object({
+  id: z.string().describe('Revision ID'),
+  mimeType: z.string().optional().describe('MIME type of the revision'),
+  modifiedTime: z.string().optional().describe('ISO datetime when the revision was created'),
+  size: z.string().optional().describe('Revision size in bytes as string (binary files only)'),
+  keepForever: z.boolean().optional().describe('Whether the revision is pinned and never auto-purged (binary files only)'),
+  published: z.boolean().optional().describe('Whether the revision is published (Google Docs Editors files only)'),
+  originalFilename: z.string().optional().describe('Original file name of the uploaded revision'),
+  lastModifyingUser: z
+    .object({
+      displayName: z.string().optional(),
+      emailAddress: z.string().optional(),
+    })
+    .optional()
+    .describe('User who created the revision'),
+});
+
+export type DriveRevision = z.infer<typeof DriveRevisionSchema>;
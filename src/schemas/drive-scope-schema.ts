@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+// Search corpora when no shared drive is targeted (driveId implies the "drive" corpus)
+export const DRIVE_CORPORA = ['user', 'domain', 'allDrives'] as const;
+
+// Shared drive scope options for list/search tools
+export const DriveScopeSchema = z.object({
+  driveId: z.string().min(1).optional().describe('Shared drive ID to restrict results to (from drives-list)'),
+  corpora: z.enum(DRIVE_CORPORA).optional().describe('Items to include when driveId is not set: user (My Drive and shared with me), domain, or allDrives (default, includes shared drives)'),
+});
+
+export type DriveScope = z.infer<typeof DriveScopeSchema>;
@@ -14,6 +14,7 @@ export const DriveFileSchema = z.object({
   shared: z.boolean().optional().describe('Whether the file is shared with others'),
   starred: z.boolean().optional().describe('Whether the file is starred by the user'),
   trashed: z.boolean().optional().describe('Whether the file is in trash'),
+  driveId: z.string().optional().describe('Shared drive containing the file (absent for My Drive items)'),
   parents: z
     .array(
       z.object({
@@ -48,7 +49,7 @@ export const DriveFileSchema = z.object({
 export type DriveFile = z.infer<typeof DriveFileSchema>;
 
 // Drive file field definitions for field selection
-export const DRIVE_FILE_FIELDS = ['id', 'name', 'mimeType', 'webViewLink', 'modifiedTime', 'parents', 'shared', 'starred', 'owners'] as const;
+export const DRIVE_FILE_FIELDS = ['id', 'name', 'mimeType', 'webViewLink', 'modifiedTime', 'parents', 'shared', 'starred', 'owners', 'driveId'] as const;
 
 export const DRIVE_FILE_FIELD_DESCRIPTIONS: Record<(typeof DRIVE_FILE_FIELDS)[number], string> = {
   id: 'Unique file/folder identifier',
@@ -60,6 +61,7 @@ export const DRIVE_FILE_FIELD_DESCRIPTIONS: Record<(typeof DRIVE_FILE_FIELDS)[nu
   shared: 'Whether the file is shared',
   starred: 'Whether the file is starred',
   owners: 'File owner information (displayName, emailAddress, etc.)',
+  driveId: 'Shared drive ID (absent for My Drive items)',
 };
 
 export const DRIVE_FILE_COMMON_PATTERNS = [
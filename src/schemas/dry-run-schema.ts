@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+// One change a dry run would make
+export const PlannedChangeSchema = z.object({
+  fileId: z.string().optional().describe('ID of the item (absent for items that would be created)'),
+  name: z.string().describe('Item name'),
+  currentPath: z.string().optional().describe('Current path of the item'),
+  destinationPath: z.string().optional().describe('Path of the item after the change'),
+  problems: z.array(z.string()).optional().describe('Why the change would fail (missing items, permissions); absent when it would go ahead'),
+});
+
+export type PlannedChange = z.infer<typeof PlannedChangeSchema>;
+
+// Result branch for dryRun calls: nothing was changed
+export const DryRunBranchSchema = z.object({
+  type: z.literal('dry_run'),
+  operationSummary: z.string().describe('Human-readable summary of what would happen'),
+  changes: z.array(PlannedChangeSchema).describe('Planned changes, in request order'),
+  totalRequested: z.number().describe('Number of items requested'),
+  totalBlocked: z.number().describe('Number of changes with problems'),
+});
+
+export type DryRunBranch = z.infer<typeof DryRunBranchSchema>;
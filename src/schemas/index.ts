@@ -1,2 +1,8 @@
+export * from './drive-comment-schema.ts';
+export * from './drive-error-schema.ts';
+export * from './drive-permission-schema.ts';
 export * from './drive-query-schema.ts';
+export * from './drive-revision-schema.ts';
+export * from './drive-scope-schema.ts';
 export * from './drive-validation.ts';
+export * from './dry-run-schema.ts';
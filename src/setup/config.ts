@@ -6,8 +6,8 @@ import { homedir } from 'os';
 import * as path from 'path';
 import * as url from 'url';
 import { parseArgs } from 'util';
-import { GOOGLE_SCOPE } from '../constants.ts';
 import type { ServerConfig } from '../types.ts';
+import { isReadOnlyScopeProfile, parseScopeProfile, resolveScope } from './scope-profiles.ts';
 
 const pkg = JSON.parse(fs.readFileSync(path.join(moduleRoot(url.fileURLToPath(import.meta.url)), 'package.json'), 'utf-8'));
 
@@ -29,6 +29,14 @@ Options:
   --port=<port>          Enable HTTP transport on specified port
   --stdio                Enable stdio transport (default if no port)
   --log-level=<level>    Logging level (default: info)
+  --read-only            Only register read-only tools and request the drive.readonly scope
+  --dry-run              Only plan changes: writers run with dryRun, writers without it are not registered
+  --scope-profile=<name> Drive access to request (default: full, readonly with --read-only)
+                         Profiles: full, readonly, metadata-readonly, file-only
+  --tools=<names>        Comma-separated tool names to register (default: all)
+  --exclude-tools=<names> Comma-separated tool names to leave out
+  --impersonate=<email>  Workspace user a service account acts as (domain-wide delegation)
+  --impersonate-allowlist=<list> Emails/domains tool calls may act as with asUser
 
 Environment Variables:
   GOOGLE_CLIENT_ID       OAuth client ID (REQUIRED)
@@ -40,14 +48,27 @@ Environment Variables:
   DCR_STORE_URI          DCR storage URI (optional, same as --dcr-store-uri)
   PORT                   Default HTTP port (optional)
   LOG_LEVEL              Default logging level (optional)
+  READ_ONLY              Read-only mode (optional, same as --read-only)
+  DRY_RUN                Dry-run mode (optional, same as --dry-run)
+  SCOPE_PROFILE          Drive access to request (optional, same as --scope-profile)
+  TOOLS                  Tools to register (optional, same as --tools)
+  EXCLUDE_TOOLS          Tools to leave out (optional, same as --exclude-tools)
+  IMPERSONATE            Default impersonated user (optional, same as --impersonate)
+  IMPERSONATE_ALLOWLIST  asUser allowlist (optional, same as --impersonate-allowlist)
 
 OAuth Scopes:
   openid https://www.googleapis.com/auth/userinfo.profile https://www.googleapis.com/auth/userinfo.email https://www.googleapis.com/auth/drive
+  drive is replaced by drive.readonly, drive.metadata.readonly or drive.file for the
+  readonly, metadata-readonly and file-only scope profiles
 
 Examples:
   mcp-drive                           # Use default settings
   mcp-drive --auth=service-account    # Use service account auth
   mcp-drive --port=3000               # HTTP transport on port 3000
+  mcp-drive --read-only               # Search and read only, no changes
+  mcp-drive --dry-run                 # Preview moves, trash and folder creation
+  mcp-drive --scope-profile=file-only # Only files created or opened with this app
+  mcp-drive --auth=service-account --impersonate=admin@example.com --impersonate-allowlist=example.com
   GOOGLE_CLIENT_ID=xxx mcp-drive      # Set client ID via env var
 `.trim();
 
@@ -70,6 +91,19 @@ export function handleVersionHelp(args: string[]): { handled: boolean; output?:
   return { handled: false };
 }
 
+function parseBoolean(value: string | undefined): boolean {
+  return value === 'true' || value === '1';
+}
+
+// Comma-separated names; undefined when not set or empty
+function parseList(value: string | undefined): string[] | undefined {
+  const items = value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
 /**
  * Parse Drive server configuration from CLI arguments and environment.
  *
@@ -84,6 +118,14 @@ export function handleVersionHelp(args: string[]): { handled: boolean; output?:
  * - --port=<port>          Enable HTTP transport on specified port
  * - --stdio                Enable stdio transport (default if no port)
  * - --log-level=<level>    Logging level (default: info)
+ * - --read-only            Only register read-only tools and request the drive.readonly scope
+ * - --dry-run              Only plan changes: writers run with dryRun, writers without it are not registered
+ * - --scope-profile=<name> Drive access to request (default: full, readonly with --read-only)
+ *                          Profiles: full, readonly, metadata-readonly, file-only
+ * - --tools=<names>        Comma-separated tool names to register (default: all)
+ * - --exclude-tools=<names> Comma-separated tool names to leave out
+ * - --impersonate=<email>  Workspace user a service account acts as (domain-wide delegation)
+ * - --impersonate-allowlist=<list> Emails/domains tool calls may act as with asUser
  *
  * Environment Variables:
  * - GOOGLE_CLIENT_ID       OAuth client ID (REQUIRED)
@@ -95,27 +137,59 @@ export function handleVersionHelp(args: string[]): { handled: boolean; output?:
  * - DCR_STORE_URI          DCR storage URI (optional, same as --dcr-store-uri)
  * - PORT                   Default HTTP port (optional)
  * - LOG_LEVEL              Default logging level (optional)
+ * - READ_ONLY              Read-only mode (optional, same as --read-only)
+ * - DRY_RUN                Dry-run mode (optional, same as --dry-run)
+ * - SCOPE_PROFILE          Drive access to request (optional, same as --scope-profile)
+ * - TOOLS                  Tools to register (optional, same as --tools)
+ * - EXCLUDE_TOOLS          Tools to leave out (optional, same as --exclude-tools)
+ * - IMPERSONATE            Default impersonated user (optional, same as --impersonate)
+ * - IMPERSONATE_ALLOWLIST  asUser allowlist (optional, same as --impersonate-allowlist)
  *
  * OAuth Scopes (from constants.ts):
  * openid https://www.googleapis.com/auth/userinfo.profile https://www.googleapis.com/auth/userinfo.email https://www.googleapis.com/auth/drive
+ * (GOOGLE_PROFILE_SCOPES narrows drive for the other scope profiles)
  */
 export function parseConfig(args: string[], env: Record<string, string | undefined>): ServerConfig {
   const transportConfig = parseTransportConfig(args, env);
   const oauthConfig = parseOAuthConfig(args, env);
 
-  // Parse DCR configuration if DCR mode is enabled
-  const dcrConfig = oauthConfig.auth === 'dcr' ? parseDcrConfig(args, env, GOOGLE_SCOPE) : undefined;
-
-  // Parse application-level config (LOG_LEVEL)
+  // Parse application-level config (LOG_LEVEL, READ_ONLY, DRY_RUN, SCOPE_PROFILE, TOOLS, EXCLUDE_TOOLS, IMPERSONATE, IMPERSONATE_ALLOWLIST)
   const { values } = parseArgs({
     args,
     options: {
       'log-level': { type: 'string' },
+      'read-only': { type: 'boolean' },
+      'dry-run': { type: 'boolean' },
+      'scope-profile': { type: 'string' },
+      tools: { type: 'string' },
+      'exclude-tools': { type: 'string' },
+      impersonate: { type: 'string' },
+      'impersonate-allowlist': { type: 'string' },
     },
     strict: false, // Allow other arguments
     allowPositionals: true,
   });
 
+  const readOnly = values['read-only'] === true || parseBoolean(env.READ_ONLY);
+  const dryRun = values['dry-run'] === true || parseBoolean(env.DRY_RUN);
+  const cliScopeProfile = typeof values['scope-profile'] === 'string' ? values['scope-profile'] : undefined;
+  const scopeProfile = parseScopeProfile(cliScopeProfile ?? env.SCOPE_PROFILE ?? (readOnly ? 'readonly' : 'full'));
+  if (readOnly && !isReadOnlyScopeProfile(scopeProfile)) {
+    throw new Error(`Read-only mode (--read-only) cannot use --scope-profile=${scopeProfile}, which grants write access. Use readonly or metadata-readonly`);
+  }
+  const scope = resolveScope({ scopeProfile });
+  const tools = parseList(typeof values.tools === 'string' ? values.tools : env.TOOLS);
+  const excludeTools = parseList(typeof values['exclude-tools'] === 'string' ? values['exclude-tools'] : env.EXCLUDE_TOOLS);
+
+  const impersonate = (typeof values.impersonate === 'string' ? values.impersonate : env.IMPERSONATE) || undefined;
+  const impersonateAllowlist = parseList(typeof values['impersonate-allowlist'] === 'string' ? values['impersonate-allowlist'] : env.IMPERSONATE_ALLOWLIST);
+  if ((impersonate || impersonateAllowlist) && oauthConfig.auth !== 'service-account') {
+    throw new Error('Impersonation (--impersonate, --impersonate-allowlist) requires --auth=service-account with domain-wide delegation');
+  }
+
+  // Parse DCR configuration if DCR mode is enabled
+  const dcrConfig = oauthConfig.auth === 'dcr' ? parseDcrConfig(args, env, scope) : undefined;
+
   const name = pkg.name.replace(/^@[^/]+\//, '');
   // Parse repository URL from package.json, stripping git+ prefix and .git suffix
   const rawRepoUrl = typeof pkg.repository === 'object' ? pkg.repository.url : pkg.repository;
@@ -141,6 +215,13 @@ export function parseConfig(args: string[], env: Record<string, string | undefin
     name,
     version: pkg.version,
     repositoryUrl,
+    readOnly,
+    dryRun,
+    scopeProfile,
+    ...(tools && { tools }),
+    ...(excludeTools && { excludeTools }),
+    ...(impersonate && { impersonate }),
+    ...(impersonateAllowlist && { impersonateAllowlist }),
     ...(dcrConfig && { dcrConfig }),
   };
 }
@@ -2,8 +2,11 @@ import { composeMiddleware, connectHttp, registerPrompts, registerResources, reg
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import cors from 'cors';
 import express from 'express';
+import { createResourceSubscriptions } from '../lib/resource-subscriptions.ts';
 import type { RuntimeOverrides, ServerConfig } from '../types.ts';
+import { createNotificationRouter, createWatchRenewer } from './notifications.ts';
 import { createDefaultRuntime } from './runtime.ts';
+import { createSubscriptionPoller, registerResourceSubscriptions } from './subscriptions.ts';
 
 export async function createHTTPServer(config: ServerConfig, overrides?: RuntimeOverrides) {
   const runtime = await createDefaultRuntime(config, overrides);
@@ -22,6 +25,16 @@ export async function createHTTPServer(config: ServerConfig, overrides?: Runtime
   registerResources(mcpServer, composed.resources);
   registerPrompts(mcpServer, prompts);
 
+  const subscriptions = createResourceSubscriptions();
+  const poller = createSubscriptionPoller({
+    subscriptions,
+    resolveAuth: runtime.resourceDeps.resolveAuth,
+    notifyResourceUpdated: (uri) => mcpServer.server.sendResourceUpdated({ uri }),
+    logger,
+  });
+  registerResourceSubscriptions(mcpServer, subscriptions, { onSubscribe: poller.track, onUnsubscribe: poller.untrack });
+  poller.start();
+
   const app = express();
   app.use(cors());
   app.use(express.json({ limit: '10mb' }));
@@ -36,6 +49,22 @@ export async function createHTTPServer(config: ServerConfig, overrides?: Runtime
     logger.info('Mounted DCR router with OAuth endpoints');
   }
 
+  // Drive push notifications (files.watch / changes.watch webhooks)
+  const authForAccount = runtime.authForAccount;
+  const channels = runtime.toolDeps.watchChannels;
+  app.use(
+    '/',
+    createNotificationRouter({
+      channels,
+      subscriptions,
+      notifyResourceUpdated: (uri) => mcpServer.server.sendResourceUpdated({ uri }),
+      authForAccount,
+      logger,
+    })
+  );
+  const renewer = createWatchRenewer({ channels, authForAccount, logger });
+  renewer.start();
+
   logger.info(`Starting ${config.name} MCP server (http)`);
   const { close, httpServer } = await connectHttp(mcpServer, { logger, app, port });
   logger.info('http transport ready');
@@ -44,7 +73,10 @@ export async function createHTTPServer(config: ServerConfig, overrides?: Runtime
     httpServer,
     mcpServer,
     logger,
+    subscriptions,
     close: async () => {
+      poller.stop();
+      renewer.stop();
       await close();
       await runtime.close();
     },
@@ -1,6 +1,11 @@
 export { createConfig, parseConfig } from './config.ts';
 export { createHTTPServer } from './http.ts';
+export { createNotificationRouter, createWatchRenewer, handleDriveNotification, NOTIFICATIONS_PATH } from './notifications.ts';
 export type { AuthMiddleware, OAuthAdapters, OAuthRuntimeDeps } from './oauth-google.ts';
-export { createOAuthAdapters } from './oauth-google.ts';
+export { createAccountAuthResolver, createActiveAuthResolver, createOAuthAdapters } from './oauth-google.ts';
 export * from './runtime.ts';
+export { isToolAllowedForProfile, parseScopeProfile, resolveScope, resolveScopeProfile } from './scope-profiles.ts';
 export { createStdioServer } from './stdio.ts';
+export type { SubscriptionHooks } from './subscriptions.ts';
+export { createSubscriptionPoller, registerResourceSubscriptions } from './subscriptions.ts';
+export { selectToolModules, supportsDryRun } from './tool-selection.ts';
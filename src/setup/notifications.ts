@@ -0,0 +1,183 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import { timingSafeEqual } from 'crypto';
+import { Router } from 'express';
+import { google } from 'googleapis';
+import { fileResourceUri, type ResourceSubscriptions } from '../lib/resource-subscriptions.ts';
+import { closeWatchChannel, type DriveNotification, openWatchChannel, parseNotificationHeaders, type WatchChannelStore } from '../lib/watch-channels.ts';
+import type { Logger } from '../types.ts';
+
+type AuthClient = EnrichedExtra['authContext']['auth'];
+
+/** Route Drive posts push notifications to (relative to baseUrl) */
+export const NOTIFICATIONS_PATH = '/drive/notifications';
+
+export interface NotificationDeps {
+  channels: WatchChannelStore;
+  subscriptions: ResourceSubscriptions;
+  notifyResourceUpdated: (uri: string) => Promise<void>;
+  /** Auth client for an account outside a request; undefined when the auth mode has no stored credentials (DCR) */
+  authForAccount?: ((accountId: string) => AuthClient) | undefined;
+  logger: Logger;
+}
+
+export interface NotificationResult {
+  status: number;
+  updated: string[];
+}
+
+function tokensMatch(expected: string, actual: string | undefined): boolean {
+  if (!actual || actual.length !== expected.length) return false;
+  return timingSafeEqual(Buffer.from(expected), Buffer.from(actual));
+}
+
+// Tail of each channel's notification queue
+const channelQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Handle a Drive push notification: verify the channel, work out which file
+ * resources changed, and emit notifications/resources/updated for subscribed ones.
+ * Notifications for one channel are handled one at a time, so concurrent posts never
+ * read the same change page or save an older pageToken over a newer one.
+ */
+export function handleDriveNotification(notification: DriveNotification, deps: NotificationDeps): Promise<NotificationResult> {
+  const { channelId } = notification;
+  const run = (channelQueues.get(channelId) ?? Promise.resolve()).then(() => processNotification(notification, deps));
+  const tail = run.catch(() => {});
+  channelQueues.set(channelId, tail);
+  tail.then(() => {
+    if (channelQueues.get(channelId) === tail) channelQueues.delete(channelId);
+  });
+  return run;
+}
+
+async function processNotification(notification: DriveNotification, deps: NotificationDeps): Promise<NotificationResult> {
+  const { channels, subscriptions, notifyResourceUpdated, authForAccount, logger } = deps;
+
+  const channel = await channels.get(notification.channelId);
+  if (!channel) {
+    logger.info('Drive notification for unknown channel', { channelId: notification.channelId });
+    return { status: 404, updated: [] };
+  }
+  if (!tokensMatch(channel.token, notification.token)) {
+    logger.warn('Drive notification with invalid channel token', { channelId: channel.id });
+    return { status: 403, updated: [] };
+  }
+
+  // Drive sends a sync message when the channel is created
+  if (notification.resourceState === 'sync') return { status: 200, updated: [] };
+
+  let fileIds: string[] = [];
+  if (channel.kind === 'file' && channel.fileId) {
+    fileIds = [channel.fileId];
+  } else if (channel.kind === 'changes' && channel.pageToken) {
+    if (!authForAccount) {
+      logger.info('Cannot resolve changed files without stored credentials', { channelId: channel.id });
+      return { status: 200, updated: [] };
+    }
+    const drive = google.drive({ version: 'v3', auth: authForAccount(channel.accountId) });
+    let pageToken: string | undefined = channel.pageToken;
+    let newStartPageToken: string | undefined;
+    while (pageToken) {
+      const response = await drive.changes.list({
+        pageToken,
+        pageSize: 1000,
+        fields: 'changes(fileId,changeType),nextPageToken,newStartPageToken',
+        supportsAllDrives: true,
+        includeItemsFromAllDrives: true,
+        ...(channel.driveId && { driveId: channel.driveId }),
+      });
+      for (const change of response.data.changes ?? []) {
+        if (change.fileId && change.changeType !== 'drive') fileIds.push(change.fileId);
+      }
+      pageToken = response.data.nextPageToken ?? undefined;
+      newStartPageToken = response.data.newStartPageToken ?? newStartPageToken;
+    }
+    if (newStartPageToken) await channels.set({ ...channel, pageToken: newStartPageToken });
+  }
+
+  const updated: string[] = [];
+  for (const uri of new Set(fileIds.map(fileResourceUri))) {
+    if (!subscriptions.has(uri)) continue;
+    try {
+      await notifyResourceUpdated(uri);
+      updated.push(uri);
+    } catch (e) {
+      // Stateless HTTP has no open stream between requests; delivery needs a connected client
+      logger.info('Failed to send resource update', { uri, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  logger.info('Drive notification processed', { channelId: channel.id, state: notification.resourceState, changed: fileIds.length, updated: updated.length });
+  return { status: 200, updated };
+}
+
+/**
+ * Express router receiving Drive files.watch / changes.watch webhooks
+ */
+export function createNotificationRouter(deps: NotificationDeps): Router {
+  const router = Router();
+  router.post(NOTIFICATIONS_PATH, async (req, res) => {
+    const notification = parseNotificationHeaders(req.headers);
+    if (!notification) {
+      res.status(400).json({ error: 'Missing X-Goog-Channel-ID header' });
+      return;
+    }
+    try {
+      const result = await handleDriveNotification(notification, deps);
+      res.status(result.status).end();
+    } catch (e) {
+      deps.logger.error('Drive notification handling failed', { error: e instanceof Error ? e.message : String(e) });
+      res.status(500).end();
+    }
+  });
+  return router;
+}
+
+/**
+ * Renew auto-renewing channels before they expire and drop expired ones.
+ * Drive channels cannot be extended, so renewal opens a replacement channel and stops the old one.
+ */
+export function createWatchRenewer(deps: Pick<NotificationDeps, 'channels' | 'authForAccount' | 'logger'> & { renewBeforeMs?: number; intervalMs?: number }) {
+  const { channels, authForAccount, logger, renewBeforeMs = 60 * 60 * 1000, intervalMs = 10 * 60 * 1000 } = deps;
+  let timer: NodeJS.Timeout | undefined;
+
+  async function renewDue(now = Date.now()): Promise<number> {
+    let renewed = 0;
+    for (const channel of await channels.list()) {
+      if (channel.expiration - now > renewBeforeMs) continue;
+
+      if (!channel.autoRenew || !authForAccount) {
+        if (channel.expiration <= now) await channels.delete(channel.id);
+        continue;
+      }
+
+      try {
+        const drive = google.drive({ version: 'v3', auth: authForAccount(channel.accountId) });
+        const replacement = await openWatchChannel(drive, { ...channel, autoRenew: true, ttlSeconds: undefined });
+        await channels.set(replacement);
+        await channels.delete(channel.id);
+        await closeWatchChannel(drive, channel).catch((e) => logger.info('Failed to stop renewed channel', { channelId: channel.id, error: e instanceof Error ? e.message : String(e) }));
+        renewed++;
+        logger.info('Renewed watch channel', { oldChannelId: channel.id, channelId: replacement.id });
+      } catch (e) {
+        logger.warn('Failed to renew watch channel', { channelId: channel.id, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+    return renewed;
+  }
+
+  return {
+    renewDue,
+    start() {
+      if (timer) return;
+      timer = setInterval(() => {
+        renewDue().catch((e) => logger.error('Watch renewal failed', { error: e instanceof Error ? e.message : String(e) }));
+      }, intervalMs);
+      timer.unref();
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = undefined;
+    },
+  };
+}
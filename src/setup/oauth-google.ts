@@ -1,11 +1,12 @@
-import { type AccountAuthProvider, AccountServer } from '@mcp-z/oauth';
-import type { CachedToken } from '@mcp-z/oauth-google';
+import { type AccountAuthProvider, AccountServer, getActiveAccount } from '@mcp-z/oauth';
+import type { CachedToken, EnrichedExtra } from '@mcp-z/oauth-google';
 import { createDcrRouter, createLoopbackCallbackRouter, DcrOAuthProvider, LoopbackOAuthProvider, ServiceAccountProvider } from '@mcp-z/oauth-google';
 import type { Logger, PromptModule, ToolModule } from '@mcp-z/server';
 import type { Router } from 'express';
 import type { Keyv } from 'keyv';
-import { GOOGLE_SCOPE } from '../constants.ts';
+import type { Impersonation } from '../lib/impersonation.ts';
 import type { ServerConfig } from '../types.ts';
+import { resolveScope } from './scope-profiles.ts';
 
 /**
  * Drive OAuth runtime dependencies
@@ -61,7 +62,7 @@ export async function createOAuthAdapters(config: ServerConfig, deps: OAuthRunti
     service: config.name,
     clientId: config.clientId,
     clientSecret: config.clientSecret,
-    scope: GOOGLE_SCOPE,
+    scope: resolveScope(config),
     auth: config.auth,
     headless: config.headless,
     redirectUri: config.transport.type === 'stdio' ? undefined : config.redirectUri,
@@ -187,3 +188,31 @@ export async function createOAuthAdapters(config: ServerConfig, deps: OAuthRunti
 
   return { primary, middleware: middleware as unknown as AuthMiddleware, authAdapter, accountTools, accountPrompts, loopbackRouter };
 }
+
+/** accountId ServiceAccountProvider's middleware gives every call made as the service account */
+const SERVICE_ACCOUNT_ID = 'service-account';
+
+/**
+ * Resolve an auth client for a stored account outside of a request (e.g. background channel renewal).
+ * With impersonation, accounts other than the service account itself are impersonated users
+ * (the impersonation layer makes the user the accountId), so they get delegated credentials.
+ * DCR tokens only arrive with bearer requests, so there is nothing to resolve in that mode.
+ */
+export function createAccountAuthResolver(primary: OAuthAdapters['primary'], impersonation?: Impersonation): ((accountId: string) => EnrichedExtra['authContext']['auth']) | undefined {
+  if (primary instanceof DcrOAuthProvider) return undefined;
+  return (accountId) => (impersonation && accountId !== SERVICE_ACCOUNT_ID ? impersonation.authFor(accountId) : primary.toAuth(accountId));
+}
+
+/**
+ * Resolve an auth client for the active account outside of an authenticated handler
+ * (e.g. resources/list callbacks and subscription polling). Returns undefined when no
+ * account is signed in yet or the auth mode has no stored credentials (DCR).
+ */
+export function createActiveAuthResolver(primary: OAuthAdapters['primary'], tokenStore: Keyv<CachedToken>, service: string): () => Promise<EnrichedExtra['authContext']['auth'] | undefined> {
+  return async () => {
+    if (primary instanceof DcrOAuthProvider) return undefined;
+    if (primary instanceof ServiceAccountProvider) return primary.toAuth();
+    const accountId = await getActiveAccount(tokenStore, { service });
+    return accountId ? primary.toAuth(accountId) : undefined;
+  };
+}
@@ -1,14 +1,30 @@
 import { sanitizeForLoggingFormatter } from '@mcp-z/oauth';
-import type { CachedToken } from '@mcp-z/oauth-google';
+import type { CachedToken, EnrichedExtra } from '@mcp-z/oauth-google';
 import type { Logger, MiddlewareLayer } from '@mcp-z/server';
 import { createLoggingMiddleware } from '@mcp-z/server';
+import { type CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import * as fs from 'fs';
+import { google } from 'googleapis';
+import Keyv from 'keyv';
+import * as os from 'os';
 import * as path from 'path';
 import pino from 'pino';
+import { z } from 'zod';
+import { type AuditEntry, type AuditLog, auditedItemIds, captureParents, createAuditEntryId, createFileAuditLog, createKeyvAuditLog, RELOCATING_TOOLS, sanitizeAuditArguments } from '../lib/audit-log.ts';
+import { createChangeCursorStore } from '../lib/change-cursors.ts';
 import createStore from '../lib/create-store.ts';
+import { hasPathArguments, resolvePathArguments } from '../lib/drive-path.ts';
+import { createImpersonation, type Impersonation } from '../lib/impersonation.ts';
+import { createMetadataCache, DEFAULT_METADATA_TTL_SECONDS } from '../lib/metadata-cache.ts';
+import { createOperationJournal, type OperationJournal } from '../lib/operation-journal.ts';
+import { createDriveRateLimiter, DEFAULT_MAX_CONCURRENCY, DEFAULT_MAX_RETRIES, type DriveRateLimiter } from '../lib/rate-limit.ts';
+import { createWatchChannelStore } from '../lib/watch-channels.ts';
 import * as mcp from '../mcp/index.ts';
-import type { CommonRuntime, RuntimeDeps, RuntimeOverrides, ServerConfig } from '../types.ts';
-import { type AuthMiddleware, createOAuthAdapters } from './oauth-google.ts';
+import type { CommonRuntime, ResourceDeps, RuntimeDeps, RuntimeOverrides, ServerConfig, ToolDeps } from '../types.ts';
+import { NOTIFICATIONS_PATH } from './notifications.ts';
+import { type AuthMiddleware, createAccountAuthResolver, createActiveAuthResolver, createOAuthAdapters } from './oauth-google.ts';
+import { resolveScope } from './scope-profiles.ts';
+import { selectToolModules, supportsDryRun } from './tool-selection.ts';
 
 export function createLogger(config: ServerConfig): Logger {
   const hasStdio = config.transport.type === 'stdio';
@@ -28,6 +44,33 @@ export async function createDcrStore(baseDir: string, required: boolean) {
   return createStore<unknown>(dcrStoreUri);
 }
 
+export async function createWatchStore(baseDir: string) {
+  const watchStoreUri = process.env.WATCH_STORE_URI || `file://${path.join(baseDir, 'watch-channels.json')}`;
+  return createStore<unknown>(watchStoreUri);
+}
+
+export async function createOperationStore(baseDir: string) {
+  const operationJournalUri = process.env.OPERATION_JOURNAL_URI || `file://${path.join(baseDir, 'operations.json')}`;
+  return createStore<unknown>(operationJournalUri);
+}
+
+/**
+ * Metadata cache backend: in-memory unless METADATA_CACHE_URI points at a shared store
+ */
+export async function createMetadataStore() {
+  const metadataCacheUri = process.env.METADATA_CACHE_URI;
+  return metadataCacheUri ? createStore<unknown>(metadataCacheUri) : new Keyv<unknown>();
+}
+
+/**
+ * Audit log sink: JSON lines under baseDir unless AUDIT_LOG_URI names another .jsonl file or a Keyv store
+ */
+export async function createAuditLog(baseDir: string, name: string): Promise<AuditLog> {
+  const auditLogUri = process.env.AUDIT_LOG_URI || `file://${path.join(baseDir, 'audit', `${name}.jsonl`)}`;
+  if (auditLogUri.startsWith('file://') && auditLogUri.endsWith('.jsonl')) return createFileAuditLog(auditLogUri.slice('file://'.length).replace(/^~(?=\/)/, os.homedir()));
+  return createKeyvAuditLog(await createStore<unknown>(auditLogUri));
+}
+
 export function createAuthLayer(authMiddleware: AuthMiddleware): MiddlewareLayer {
   return {
     withTool: authMiddleware.withToolAuth,
@@ -45,6 +88,210 @@ export function createLoggingLayer(logger: Logger): MiddlewareLayer {
   };
 }
 
+/**
+ * Record each call of a tool without readOnlyHint in the audit log: account, arguments,
+ * structured result or error, and for relocating tools the items' parents before and after.
+ * Dry runs change nothing and are not recorded.
+ * Must run inside the path layer so arguments are logged as resolved IDs. Audit failures are
+ * logged and never fail the call.
+ */
+export function createAuditLayer(auditLog: AuditLog, operationJournal?: OperationJournal): MiddlewareLayer {
+  // operation-undo names no items; they are the items of the journaled operation it reverses
+  const relocatedItemIds = async (moduleName: string, args: Record<string, unknown>, accountId: string | undefined, logger: Logger): Promise<string[]> => {
+    if (moduleName !== 'operation-undo') return auditedItemIds(args);
+    if (!operationJournal || !accountId || typeof args.operationId !== 'string') return [];
+    try {
+      const operation = await operationJournal.forAccount(accountId).get(args.operationId);
+      return [...new Set((operation?.items ?? []).map((item) => item.fileId))];
+    } catch (error) {
+      logger.warn('Audit operation lookup failed', { operationId: args.operationId, error: error instanceof Error ? error.message : String(error) });
+      return [];
+    }
+  };
+
+  return {
+    withTool: (module) => {
+      if (module.config.annotations?.readOnlyHint === true) return module;
+      const handler = module.handler as (args: Record<string, unknown>, extra: EnrichedExtra) => Promise<unknown>;
+      return {
+        ...module,
+        handler: async (args: Record<string, unknown>, extra: EnrichedExtra) => {
+          if (args?.dryRun === true) return handler(args, extra);
+          const started = Date.now();
+          const logger = extra.logger;
+          const accountId = extra?.authContext?.accountId;
+          const itemIds = RELOCATING_TOOLS.includes(module.name) && extra?.authContext?.auth ? await relocatedItemIds(module.name, args ?? {}, accountId, logger) : [];
+          const drive = itemIds.length > 0 ? google.drive({ version: 'v3', auth: extra.authContext.auth }) : undefined;
+          const snapshotParents = async () => {
+            if (!drive) return undefined;
+            try {
+              return await captureParents(drive, itemIds, { logger });
+            } catch (error) {
+              logger.warn('Audit parent snapshot failed', { tool: module.name, error: error instanceof Error ? error.message : String(error) });
+              return undefined;
+            }
+          };
+
+          const before = await snapshotParents();
+          const entry: AuditEntry = {
+            id: createAuditEntryId(),
+            timestamp: new Date(started).toISOString(),
+            ...(accountId && { accountId }),
+            tool: module.name,
+            arguments: sanitizeAuditArguments(args ?? {}) as Record<string, unknown>,
+            status: 'success',
+            durationMs: 0,
+          };
+          try {
+            const result = await handler(args, extra);
+            entry.result = (result as CallToolResult | undefined)?.structuredContent?.result;
+            return result;
+          } catch (error) {
+            entry.status = 'error';
+            entry.error = { message: error instanceof Error ? error.message : String(error), ...(error instanceof McpError && { code: error.code }) };
+            throw error;
+          } finally {
+            const after = await snapshotParents();
+            const parents = Object.fromEntries(itemIds.filter((id) => before?.[id] || after?.[id]).map((id) => [id, { ...(before?.[id] && { before: before[id] }), ...(after?.[id] && { after: after[id] }) }]));
+            if (Object.keys(parents).length > 0) entry.parents = parents;
+            entry.durationMs = Date.now() - started;
+            try {
+              await auditLog.record(entry);
+            } catch (error) {
+              logger.error('Failed to write audit log entry', { tool: module.name, auditId: entry.id, error: error instanceof Error ? error.message : String(error) });
+            }
+          }
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Throttle and retry the Drive requests a tool makes: the account's auth client is
+ * swapped for one that shares a per-account concurrency limit and backs off on
+ * rate-limit and 5xx errors. Must run inside the auth layer.
+ */
+export function createRateLimitLayer(rateLimiter: DriveRateLimiter): MiddlewareLayer {
+  return {
+    withTool: (module) => {
+      const handler = module.handler as (args: unknown, extra: EnrichedExtra) => Promise<unknown>;
+      return {
+        ...module,
+        handler: async (args: unknown, extra: EnrichedExtra) => {
+          if (!extra?.authContext?.auth) return handler(args, extra);
+          const auth = rateLimiter.wrapAuth(extra.authContext.accountId, extra.authContext.auth, extra.logger);
+          return handler(args, { ...extra, authContext: { ...extra.authContext, auth } });
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Act as a Workspace user through domain-wide delegation: the service account's auth
+ * client is swapped for one impersonating the call's asUser argument or the default user,
+ * and accountId becomes that user so caches and rate limits are kept per user.
+ * Adds asUser to tool input schemas when an allowlist is configured. Must run inside the auth layer.
+ */
+export function createImpersonationLayer(impersonation: Impersonation): MiddlewareLayer {
+  const actAs = (extra: EnrichedExtra, user: string, perCall: boolean): EnrichedExtra => {
+    let auth: ReturnType<Impersonation['authFor']>;
+    try {
+      auth = impersonation.authFor(user, { perCall });
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+    return { ...extra, authContext: { ...extra.authContext, auth, accountId: user } };
+  };
+
+  return {
+    withTool: (module) => {
+      const handler = module.handler as (args: Record<string, unknown>, extra: EnrichedExtra) => Promise<unknown>;
+      const inputSchema = impersonation.perCall && module.config.inputSchema instanceof z.ZodObject ? module.config.inputSchema.extend({ asUser: z.string().min(1).optional().describe('Workspace user email to act as (domain-wide delegation, must be on the allowlist)') }) : module.config.inputSchema;
+      return {
+        ...module,
+        config: { ...module.config, inputSchema },
+        handler: async (args: Record<string, unknown>, extra: EnrichedExtra) => {
+          const { asUser, ...rest } = args ?? {};
+          const user = typeof asUser === 'string' ? asUser : impersonation.defaultUser;
+          if (!user) return handler(rest, extra);
+          return handler(rest, actAs(extra, user, typeof asUser === 'string'));
+        },
+      };
+    },
+    withResource: (module) => {
+      const defaultUser = impersonation.defaultUser;
+      if (!defaultUser) return module;
+      const handler = module.handler as (uri: URL, variables: unknown, extra: EnrichedExtra) => Promise<unknown>;
+      return {
+        ...module,
+        handler: async (uri: URL, variables: unknown, extra: EnrichedExtra) => handler(uri, variables, actAs(extra, defaultUser, false)),
+      };
+    },
+  };
+}
+
+/**
+ * Global dry-run mode: tools that support dryRun always run with it.
+ */
+export function createDryRunLayer(): MiddlewareLayer {
+  return {
+    withTool: (module) => {
+      if (!supportsDryRun(module)) return module;
+      const handler = module.handler as (args: Record<string, unknown>, extra: EnrichedExtra) => Promise<unknown>;
+      return {
+        ...module,
+        handler: async (args: Record<string, unknown>, extra: EnrichedExtra) => handler({ ...args, dryRun: true }, extra),
+      };
+    },
+  };
+}
+
+/**
+ * Resolve "path:/Folder/Name" ID arguments to Drive IDs before the tool handler runs.
+ * Must run inside the auth layer so the account's credentials are available.
+ * With createParents: true, parentId is left to folder-create, which journals the folders it creates.
+ */
+export function createPathLayer(): MiddlewareLayer {
+  return {
+    withTool: (module) => {
+      const handler = module.handler as (args: Record<string, unknown>, extra: EnrichedExtra) => Promise<unknown>;
+      return {
+        ...module,
+        handler: async (args: Record<string, unknown>, extra: EnrichedExtra) => {
+          if (!args || !hasPathArguments(args)) return handler(args, extra);
+          const deferParent = args.createParents === true;
+          let resolved: Record<string, unknown>;
+          try {
+            const drive = google.drive({ version: 'v3', auth: extra.authContext.auth });
+            resolved = await resolvePathArguments(drive, deferParent ? { ...args, parentId: undefined } : args);
+          } catch (error) {
+            throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+          }
+          return handler(deferParent ? { ...resolved, parentId: args.parentId } : resolved, extra);
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Domain-wide delegation for service-account auth when a default user or allowlist is configured.
+ * Delegated tokens only request the Drive scope, which is what the admin console authorizes.
+ */
+function createRuntimeImpersonation(config: ServerConfig): Impersonation | undefined {
+  if (config.auth !== 'service-account' || !config.serviceAccountKeyFile || !(config.impersonate || config.impersonateAllowlist)) return undefined;
+  return createImpersonation({
+    keyFile: config.serviceAccountKeyFile,
+    scopes: resolveScope(config)
+      .split(' ')
+      .filter((scope) => scope.startsWith('https://www.googleapis.com/auth/drive')),
+    ...(config.impersonate && { defaultUser: config.impersonate }),
+    ...(config.impersonateAllowlist && { allowlist: config.impersonateAllowlist }),
+  });
+}
+
 export async function createDefaultRuntime(config: ServerConfig, overrides?: RuntimeOverrides): Promise<CommonRuntime> {
   if (config.auth === 'dcr' && config.transport.type !== 'http') throw new Error('DCR mode requires an HTTP transport');
 
@@ -53,20 +300,60 @@ export async function createDefaultRuntime(config: ServerConfig, overrides?: Run
   const baseUrl = config.baseUrl ?? (config.transport.type === 'http' && config.transport.port ? `http://localhost:${config.transport.port}` : undefined);
   const dcrStore = await createDcrStore(config.baseDir, config.auth === 'dcr');
   const oauthAdapters = await createOAuthAdapters(config, { logger, tokenStore, dcrStore }, baseUrl);
-  const deps: RuntimeDeps = { config, logger, tokenStore, oauthAdapters, baseUrl };
+  const ttlSeconds = Number(process.env.METADATA_CACHE_TTL_SECONDS) || DEFAULT_METADATA_TTL_SECONDS;
+  const metadataCache = createMetadataCache(await createMetadataStore(), { service: config.name, ttlSeconds });
+  const rateLimiter = createDriveRateLimiter({
+    maxConcurrency: Number(process.env.DRIVE_MAX_CONCURRENCY) || DEFAULT_MAX_CONCURRENCY,
+    maxRetries: process.env.DRIVE_MAX_RETRIES ? Number(process.env.DRIVE_MAX_RETRIES) : DEFAULT_MAX_RETRIES,
+  });
+  const deps: RuntimeDeps = { config, logger, tokenStore, oauthAdapters, metadataCache, rateLimiter, baseUrl };
+  const watchStore = await createWatchStore(config.baseDir);
+  const auditLog = await createAuditLog(config.baseDir, config.name);
+  const operationStore = await createOperationStore(config.baseDir);
+  const notificationUrl = config.transport.type === 'http' && baseUrl ? `${baseUrl.replace(/\/$/, '')}${NOTIFICATIONS_PATH}` : undefined;
+  const toolDeps: ToolDeps = {
+    changeCursors: createChangeCursorStore(tokenStore, config.name),
+    watchChannels: createWatchChannelStore(watchStore),
+    metadataCache,
+    auditLog,
+    operationJournal: createOperationJournal(operationStore, { service: config.name }),
+    ...(notificationUrl && { notificationUrl }),
+  };
+  const impersonation = createRuntimeImpersonation(config);
+  const defaultUser = impersonation?.defaultUser;
+  // Background Drive calls act as the channel's account and share its rate limit with tool calls
+  const accountAuth = createAccountAuthResolver(oauthAdapters.primary, impersonation);
+  const authForAccount = accountAuth && ((accountId: string) => rateLimiter.wrapAuth(accountId, accountAuth(accountId), logger));
+  const resourceDeps: ResourceDeps = {
+    resolveAuth: impersonation && defaultUser ? async () => impersonation.authFor(defaultUser) : createActiveAuthResolver(oauthAdapters.primary, tokenStore, config.name),
+  };
   const createDomainModules =
     overrides?.createDomainModules ??
     (() => ({
-      tools: Object.values(mcp.toolFactories).map((factory) => factory()),
-      resources: Object.values(mcp.resourceFactories).map((factory) => factory()),
+      tools: selectToolModules(
+        Object.values(mcp.toolFactories).map((factory) => factory(toolDeps)),
+        config
+      ),
+      resources: Object.values(mcp.resourceFactories).map((factory) => factory(resourceDeps)),
       prompts: Object.values(mcp.promptFactories).map((factory) => factory()),
     }));
-  const middlewareFactories = overrides?.middlewareFactories ?? [() => createAuthLayer(oauthAdapters.middleware), () => createLoggingLayer(logger)];
+  const middlewareFactories = overrides?.middlewareFactories ?? [
+    () => createAuditLayer(auditLog, toolDeps.operationJournal),
+    () => createPathLayer(),
+    ...(config.dryRun ? [() => createDryRunLayer()] : []),
+    () => createRateLimitLayer(rateLimiter),
+    ...(impersonation ? [() => createImpersonationLayer(impersonation)] : []),
+    () => createAuthLayer(oauthAdapters.middleware),
+    () => createLoggingLayer(logger),
+  ];
 
   return {
     deps,
+    toolDeps,
+    resourceDeps,
     middlewareFactories,
     createDomainModules,
+    authForAccount,
     close: async () => {},
   };
 }
@@ -0,0 +1,59 @@
+import type { ToolModule } from '@mcp-z/server';
+import { GOOGLE_PROFILE_SCOPES, SCOPE_PROFILES, type ScopeProfile } from '../constants.ts';
+import type { ServerConfig } from '../types.ts';
+
+// Read-only tools that need no more than file metadata (drive.metadata.readonly)
+const METADATA_TOOLS = ['audit-log-query', 'changes-list', 'changes-start-token', 'file-permissions-list', 'file-revisions-list', 'files-search', 'folder-contents', 'folder-path', 'folder-search', 'trash-list'];
+
+// Tools Drive only serves with drive or drive.readonly (not drive.file)
+const ALL_FILES_TOOLS = ['drives-list'];
+
+// Profiles whose scopes grant no write access, the only ones allowed in read-only mode
+const READ_ONLY_PROFILES: readonly ScopeProfile[] = ['readonly', 'metadata-readonly'];
+
+/**
+ * Parse a scope profile name, rejecting unknown profiles
+ */
+export function parseScopeProfile(value: string): ScopeProfile {
+  if (!(SCOPE_PROFILES as readonly string[]).includes(value)) throw new Error(`Unknown scope profile "${value}". Expected one of: ${SCOPE_PROFILES.join(', ')}`);
+  return value as ScopeProfile;
+}
+
+/**
+ * Whether a profile's scopes grant no write access
+ */
+export function isReadOnlyScopeProfile(profile: ScopeProfile): boolean {
+  return READ_ONLY_PROFILES.includes(profile);
+}
+
+/**
+ * The configured scope profile; read-only mode defaults to the readonly profile
+ */
+export function resolveScopeProfile({ scopeProfile, readOnly }: Pick<ServerConfig, 'scopeProfile' | 'readOnly'>): ScopeProfile {
+  return scopeProfile ?? (readOnly ? 'readonly' : 'full');
+}
+
+/**
+ * OAuth scopes to request for the configured profile
+ */
+export function resolveScope(config: Pick<ServerConfig, 'scopeProfile' | 'readOnly'>): string {
+  return GOOGLE_PROFILE_SCOPES[resolveScopeProfile(config)];
+}
+
+/**
+ * Whether a tool can work with the scopes a profile grants.
+ * Tools without readOnlyHint are treated as writers.
+ */
+export function isToolAllowedForProfile(tool: ToolModule, profile: ScopeProfile): boolean {
+  const readOnly = tool.config.annotations?.readOnlyHint === true;
+  switch (profile) {
+    case 'full':
+      return true;
+    case 'readonly':
+      return readOnly;
+    case 'metadata-readonly':
+      return readOnly && METADATA_TOOLS.includes(tool.name);
+    case 'file-only':
+      return !ALL_FILES_TOOLS.includes(tool.name);
+  }
+}
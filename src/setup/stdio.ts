@@ -1,7 +1,9 @@
 import { composeMiddleware, connectStdio, registerPrompts, registerResources, registerTools } from '@mcp-z/server';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { createResourceSubscriptions } from '../lib/resource-subscriptions.ts';
 import type { RuntimeOverrides, ServerConfig } from '../types.ts';
 import { createDefaultRuntime } from './runtime.ts';
+import { createSubscriptionPoller, registerResourceSubscriptions } from './subscriptions.ts';
 
 export async function createStdioServer(config: ServerConfig, overrides?: RuntimeOverrides) {
   const runtime = await createDefaultRuntime(config, overrides);
@@ -18,6 +20,16 @@ export async function createStdioServer(config: ServerConfig, overrides?: Runtim
   registerResources(mcpServer, composed.resources);
   registerPrompts(mcpServer, prompts);
 
+  const subscriptions = createResourceSubscriptions();
+  const poller = createSubscriptionPoller({
+    subscriptions,
+    resolveAuth: runtime.resourceDeps.resolveAuth,
+    notifyResourceUpdated: (uri) => mcpServer.server.sendResourceUpdated({ uri }),
+    logger,
+  });
+  registerResourceSubscriptions(mcpServer, subscriptions, { onSubscribe: poller.track, onUnsubscribe: poller.untrack });
+  poller.start();
+
   logger.info(`Starting ${config.name} MCP server (stdio)`);
   const { close } = await connectStdio(mcpServer, { logger });
   logger.info('stdio transport ready');
@@ -25,7 +37,9 @@ export async function createStdioServer(config: ServerConfig, overrides?: Runtim
   return {
     mcpServer,
     logger,
+    subscriptions,
     close: async () => {
+      poller.stop();
       await close();
       await runtime.close();
     },
@@ -0,0 +1,105 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { google } from 'googleapis';
+import { fileIdFromResourceUri, type ResourceSubscriptions } from '../lib/resource-subscriptions.ts';
+import type { Logger, ResourceDeps } from '../types.ts';
+
+export interface SubscriptionHooks {
+  onSubscribe?: (uri: string) => Promise<void>;
+  onUnsubscribe?: (uri: string) => void;
+}
+
+/**
+ * Advertise resources.subscribe and record resources/subscribe and
+ * resources/unsubscribe requests in the subscription registry, per session.
+ * onUnsubscribe runs once the last session unsubscribes from a URI.
+ * Must be called before the server is connected to a transport.
+ */
+export function registerResourceSubscriptions(mcpServer: McpServer, subscriptions: ResourceSubscriptions, hooks: SubscriptionHooks = {}): void {
+  mcpServer.server.registerCapabilities({ resources: { subscribe: true } });
+  mcpServer.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    subscriptions.subscribe(request.params.uri, extra.sessionId);
+    await hooks.onSubscribe?.(request.params.uri);
+    return {};
+  });
+  mcpServer.server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+    subscriptions.unsubscribe(request.params.uri, extra.sessionId);
+    if (!subscriptions.has(request.params.uri)) hooks.onUnsubscribe?.(request.params.uri);
+    return {};
+  });
+}
+
+/**
+ * Poll subscribed drive://files resources and send notifications/resources/updated when
+ * a file's version changes. Works on every transport; Drive push notifications
+ * (watch-start) deliver faster on a public HTTP deployment.
+ */
+export function createSubscriptionPoller(deps: { subscriptions: ResourceSubscriptions; resolveAuth: ResourceDeps['resolveAuth']; notifyResourceUpdated: (uri: string) => Promise<void>; logger: Logger; intervalMs?: number }) {
+  const { subscriptions, resolveAuth, notifyResourceUpdated, logger, intervalMs = 60 * 1000 } = deps;
+  const versions = new Map<string, string>();
+  let timer: NodeJS.Timeout | undefined;
+
+  async function fetchVersion(uri: string): Promise<string | undefined> {
+    const fileId = fileIdFromResourceUri(uri);
+    if (!fileId) return undefined;
+    const auth = await resolveAuth();
+    if (!auth) return undefined;
+    const drive = google.drive({ version: 'v3', auth });
+    const response = await drive.files.get({ fileId, fields: 'version,modifiedTime', supportsAllDrives: true });
+    return response.data.version ?? response.data.modifiedTime ?? undefined;
+  }
+
+  /** Record the current version so the next change is detected */
+  async function track(uri: string): Promise<void> {
+    try {
+      const version = await fetchVersion(uri);
+      if (version) versions.set(uri, version);
+    } catch (e) {
+      logger.info('Failed to read subscribed file version', { uri, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  function untrack(uri: string): void {
+    versions.delete(uri);
+  }
+
+  /** Check every subscribed file once; returns the URIs that changed */
+  async function poll(): Promise<string[]> {
+    const changed: string[] = [];
+    for (const uri of subscriptions.list()) {
+      let version: string | undefined;
+      try {
+        version = await fetchVersion(uri);
+      } catch (e) {
+        logger.info('Failed to poll subscribed file', { uri, error: e instanceof Error ? e.message : String(e) });
+        continue;
+      }
+      if (!version) continue;
+
+      const previous = versions.get(uri);
+      versions.set(uri, version);
+      if (previous === undefined || previous === version) continue;
+
+      changed.push(uri);
+      await notifyResourceUpdated(uri).catch((e) => logger.info('Failed to send resource update', { uri, error: e instanceof Error ? e.message : String(e) }));
+    }
+    return changed;
+  }
+
+  return {
+    track,
+    untrack,
+    poll,
+    start() {
+      if (timer) return;
+      timer = setInterval(() => {
+        poll().catch((e) => logger.error('Subscription polling failed', { error: e instanceof Error ? e.message : String(e) }));
+      }, intervalMs);
+      timer.unref();
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = undefined;
+    },
+  };
+}
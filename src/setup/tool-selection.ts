@@ -0,0 +1,37 @@
+import type { ToolModule } from '@mcp-z/server';
+import { z } from 'zod';
+import type { ServerConfig } from '../types.ts';
+import { isToolAllowedForProfile, resolveScopeProfile } from './scope-profiles.ts';
+
+/**
+ * Whether a tool takes a dryRun argument to plan changes without making them
+ */
+export function supportsDryRun(tool: ToolModule): boolean {
+  const inputSchema = tool.config.inputSchema;
+  return inputSchema instanceof z.ZodObject && 'dryRun' in inputSchema.shape;
+}
+
+/**
+ * Drive tools to register: tools annotated readOnlyHint only in read-only mode,
+ * read-only and dryRun tools only in dry-run mode, tools the scope profile can serve,
+ * then the --tools allowlist and --exclude-tools denylist.
+ * Unknown names, and tools named in --tools that the mode or profile hides, are rejected.
+ */
+export function selectToolModules(tools: ToolModule[], config: Pick<ServerConfig, 'readOnly' | 'dryRun' | 'scopeProfile' | 'tools' | 'excludeTools'>): ToolModule[] {
+  const { readOnly, dryRun, tools: include, excludeTools: exclude } = config;
+  const names = tools.map((tool) => tool.name);
+  const unknown = [...(include ?? []), ...(exclude ?? [])].filter((name) => !names.includes(name));
+  if (unknown.length > 0) throw new Error(`Unknown tool name(s): ${unknown.join(', ')}. Available tools: ${names.join(', ')}`);
+
+  const profile = resolveScopeProfile(config);
+  const isReadOnly = (tool: ToolModule) => tool.config.annotations?.readOnlyHint === true;
+  const isAllowedForMode = (tool: ToolModule) => isReadOnly(tool) || (!readOnly && (!dryRun || supportsDryRun(tool)));
+  if (include) {
+    const writers = tools.filter((tool) => include.includes(tool.name) && !isAllowedForMode(tool)).map((tool) => tool.name);
+    if (writers.length > 0) throw new Error(`Tool(s) not available in ${readOnly ? 'read-only' : 'dry-run'} mode: ${writers.join(', ')}`);
+    const outOfScope = tools.filter((tool) => include.includes(tool.name) && !isToolAllowedForProfile(tool, profile)).map((tool) => tool.name);
+    if (outOfScope.length > 0) throw new Error(`Tool(s) need more access than the "${profile}" scope profile grants: ${outOfScope.join(', ')}`);
+  }
+
+  return tools.filter((tool) => isAllowedForMode(tool) && isToolAllowedForProfile(tool, profile) && (!include || include.includes(tool.name)) && !exclude?.includes(tool.name));
+}
@@ -1,6 +1,13 @@
-import type { CachedToken, DcrConfig, OAuthConfig } from '@mcp-z/oauth-google';
+import type { CachedToken, DcrConfig, EnrichedExtra, OAuthConfig } from '@mcp-z/oauth-google';
 import type { BaseServerConfig, MiddlewareLayer, PromptModule, ResourceModule, Logger as ServerLogger, ToolModule } from '@mcp-z/server';
 import type { Keyv } from 'keyv';
+import type { ScopeProfile } from './constants.ts';
+import type { AuditLog } from './lib/audit-log.ts';
+import type { ChangeCursorStore } from './lib/change-cursors.ts';
+import type { MetadataCache } from './lib/metadata-cache.ts';
+import type { OperationJournal } from './lib/operation-journal.ts';
+import type { DriveRateLimiter } from './lib/rate-limit.ts';
+import type { WatchChannelStore } from './lib/watch-channels.ts';
 import type { OAuthAdapters } from './setup/oauth-google.ts';
 
 export type Logger = Pick<Console, 'info' | 'error' | 'warn' | 'debug'>;
@@ -16,6 +23,22 @@ export interface ServerConfig extends BaseServerConfig, OAuthConfig {
   repositoryUrl: string;
   baseUrl?: string;
 
+  /** Only register tools annotated readOnlyHint and request the drive.readonly scope */
+  readOnly?: boolean;
+  /** Run writers that support it with dryRun and leave the other writers out */
+  dryRun?: boolean;
+  /** Drive access to request (default: readonly in read-only mode, otherwise full) */
+  scopeProfile?: ScopeProfile;
+  /** Tool names to register (default: all) */
+  tools?: string[];
+  /** Tool names to leave out */
+  excludeTools?: string[];
+
+  /** Workspace user a service account acts as by default (domain-wide delegation) */
+  impersonate?: string;
+  /** Emails and domains tool calls may act as with asUser */
+  impersonateAllowlist?: string[];
+
   // DCR configuration (when auth === 'dcr')
   dcrConfig?: DcrConfig;
 }
@@ -26,9 +49,32 @@ export interface RuntimeDeps {
   logger: ServerLogger;
   tokenStore: Keyv<CachedToken>;
   oauthAdapters: OAuthAdapters;
+  /** Folder names and parent chains shared across tool calls */
+  metadataCache: MetadataCache;
+  /** Per-account request throttling and retry for Drive API calls */
+  rateLimiter: DriveRateLimiter;
   baseUrl?: string;
 }
 
+/** Runtime dependencies passed to tool factories that need shared state. */
+export interface ToolDeps {
+  changeCursors: ChangeCursorStore;
+  watchChannels: WatchChannelStore;
+  metadataCache: MetadataCache;
+  /** Record of mutating tool calls, read by audit-log-query */
+  auditLog: AuditLog;
+  /** Reversible moves, trash, renames and folder creations, read by operation-undo */
+  operationJournal: OperationJournal;
+  /** Public webhook URL for Drive push notifications (HTTP transport only) */
+  notificationUrl?: string;
+}
+
+/** Runtime dependencies passed to resource factories. */
+export interface ResourceDeps {
+  /** Auth client for the active account where no auth middleware runs (resources/list callbacks) */
+  resolveAuth: () => Promise<EnrichedExtra['authContext']['auth'] | undefined>;
+}
+
 /** Collections of MCP modules produced by domain factories. */
 export type DomainModules = {
   tools: ToolModule[];
@@ -42,8 +88,12 @@ export type MiddlewareFactory = (deps: RuntimeDeps) => MiddlewareLayer;
 /** Shared runtime configuration returned by `createDefaultRuntime`. */
 export interface CommonRuntime {
   deps: RuntimeDeps;
+  toolDeps: ToolDeps;
+  resourceDeps: ResourceDeps;
   middlewareFactories: MiddlewareFactory[];
   createDomainModules: () => DomainModules;
+  /** Rate-limited auth client for a stored account outside of a request (push notifications, channel renewal) */
+  authForAccount?: ((accountId: string) => EnrichedExtra['authContext']['auth']) | undefined;
   close: () => Promise<void>;
 }
 
@@ -52,4 +102,4 @@ export interface RuntimeOverrides {
   createDomainModules?: () => DomainModules;
 }
 
-export type { DriveFile, DriveQuery, DriveQueryObject, FieldOperator } from './schemas/index.ts';
+export type { DriveComment, DriveCommentReply, DriveFile, DrivePermission, DriveQuery, DriveQueryObject, DriveRevision, FieldOperator } from './schemas/index.ts';
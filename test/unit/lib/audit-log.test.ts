@@ -0,0 +1,132 @@
+import assert from 'assert';
+import * as fs from 'fs';
+import Keyv from 'keyv';
+import * as os from 'os';
+import * as path from 'path';
+import { type AuditEntry, auditedItemIds, createFileAuditLog, createKeyvAuditLog, MAX_AUDIT_STRING_LENGTH, sanitizeAuditArguments } from '../../../src/lib/audit-log.ts';
+
+function entry(id: string, overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return { id, timestamp: `2026-01-0${id}T00:00:00.000Z`, accountId: 'ada@example.com', tool: 'file-move', arguments: { fileIds: ['f1'] }, status: 'success', durationMs: 5, ...overrides };
+}
+
+describe('audit-log - file sink', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-log-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends JSON lines and returns matches newest first', async () => {
+    const filePath = path.join(dir, 'audit', 'mcp-drive.jsonl');
+    const auditLog = createFileAuditLog(filePath);
+    assert.deepStrictEqual(await auditLog.query(), []);
+
+    await Promise.all([auditLog.record(entry('1')), auditLog.record(entry('2', { tool: 'file-move-to-trash' })), auditLog.record(entry('3', { status: 'error', accountId: 'bob@example.com' }))]);
+
+    assert.strictEqual(fs.readFileSync(filePath, 'utf8').trim().split('\n').length, 3);
+    assert.deepStrictEqual(
+      (await auditLog.query()).map((e) => e.id),
+      ['3', '2', '1']
+    );
+    assert.deepStrictEqual(
+      (await auditLog.query({ tool: 'file-move' })).map((e) => e.id),
+      ['3', '1']
+    );
+    assert.deepStrictEqual(
+      (await auditLog.query({ accountId: 'ada@example.com', limit: 1 })).map((e) => e.id),
+      ['2']
+    );
+    assert.deepStrictEqual(
+      (await auditLog.query({ status: 'error' })).map((e) => e.id),
+      ['3']
+    );
+    assert.deepStrictEqual(
+      (await auditLog.query({ since: '2026-01-02T00:00:00Z' })).map((e) => e.id),
+      ['3', '2']
+    );
+  });
+
+  it('reads entries spanning read chunks from the end of the file', async () => {
+    const filePath = path.join(dir, 'audit.jsonl');
+    const auditLog = createFileAuditLog(filePath);
+    const note = 'é'.repeat(MAX_AUDIT_STRING_LENGTH / 2);
+    for (let i = 0; i < 300; i++) await auditLog.record(entry(String(i), { arguments: { note } }));
+    assert.ok(fs.statSync(filePath).size > 128 * 1024);
+
+    const entries = await auditLog.query();
+    assert.strictEqual(entries.length, 300);
+    assert.deepStrictEqual(
+      entries.slice(0, 2).map((e) => e.id),
+      ['299', '298']
+    );
+    assert.ok(entries.every((e) => e.arguments.note === note));
+    assert.deepStrictEqual(
+      (await auditLog.query({ limit: 2 })).map((e) => e.id),
+      ['299', '298']
+    );
+  });
+
+  it('stops scanning at the first entry older than since', async () => {
+    const auditLog = createFileAuditLog(path.join(dir, 'audit.jsonl'));
+    for (const id of ['5', '1', '6']) await auditLog.record(entry(id));
+    assert.deepStrictEqual(
+      (await auditLog.query({ since: '2026-01-04T00:00:00Z' })).map((e) => e.id),
+      ['6']
+    );
+  });
+
+  it('skips lines that are not JSON', async () => {
+    const filePath = path.join(dir, 'audit.jsonl');
+    fs.writeFileSync(filePath, 'not json\n');
+    const auditLog = createFileAuditLog(filePath);
+    await auditLog.record(entry('1'));
+    assert.deepStrictEqual(
+      (await auditLog.query()).map((e) => e.id),
+      ['1']
+    );
+  });
+});
+
+describe('audit-log - Keyv sink', () => {
+  it('keeps the most recent entries', async () => {
+    const store = new Keyv();
+    const auditLog = createKeyvAuditLog(store, { maxEntries: 2 });
+    await Promise.all(['1', '2', '3'].map((id) => auditLog.record(entry(id))));
+
+    assert.deepStrictEqual(
+      (await auditLog.query()).map((e) => e.id),
+      ['3', '2']
+    );
+    assert.strictEqual(await store.get('audit-log:1'), undefined);
+  });
+
+  it('stops scanning at the first entry older than since', async () => {
+    const auditLog = createKeyvAuditLog(new Keyv());
+    for (const id of ['5', '1', '6']) await auditLog.record(entry(id));
+    assert.deepStrictEqual(
+      (await auditLog.query({ since: '2026-01-04T00:00:00Z' })).map((e) => e.id),
+      ['6']
+    );
+  });
+});
+
+describe('audit-log - arguments', () => {
+  it('truncates long strings', () => {
+    const content = 'x'.repeat(MAX_AUDIT_STRING_LENGTH * 4);
+    const sanitized = sanitizeAuditArguments({ fileId: 'f1', content, updates: [{ description: content }] }) as { fileId: string; content: string; updates: { description: string }[] };
+    assert.strictEqual(sanitized.fileId, 'f1');
+    assert.ok(sanitized.content.endsWith(`(${content.length} chars)`));
+    assert.ok((sanitized.updates[0]?.description.length ?? 0) < content.length);
+  });
+
+  it('collects item IDs from fileId, fileIds and ids', () => {
+    assert.deepStrictEqual(auditedItemIds({ fileIds: 'a', destinationFolderId: 'dest' }), ['a']);
+    assert.deepStrictEqual(auditedItemIds({ fileIds: ['a', 'b', 'a'] }), ['a', 'b']);
+    assert.deepStrictEqual(auditedItemIds({ ids: ['c'], fileId: 'd' }), ['d', 'c']);
+    assert.deepStrictEqual(auditedItemIds({ name: 'New folder' }), []);
+  });
+});
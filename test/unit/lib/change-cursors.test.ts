@@ -0,0 +1,26 @@
+import assert from 'assert';
+import Keyv from 'keyv';
+import { changeCursorKey, createChangeCursorStore } from '../../../src/lib/change-cursors.ts';
+
+describe('change-cursors', () => {
+  it('builds keys that do not collide with token keys', () => {
+    assert.strictEqual(changeCursorKey('ada@example.com', 'mcp-drive'), 'ada@example.com:mcp-drive:changes-cursor:all');
+    assert.strictEqual(changeCursorKey('ada@example.com', 'mcp-drive', 'drive-1'), 'ada@example.com:mcp-drive:changes-cursor:drive-1');
+  });
+
+  it('returns undefined when no cursor has been saved', async () => {
+    const cursors = createChangeCursorStore(new Keyv(), 'mcp-drive');
+    assert.strictEqual(await cursors.get('ada@example.com'), undefined);
+  });
+
+  it('saves cursors per account and drive', async () => {
+    const cursors = createChangeCursorStore(new Keyv(), 'mcp-drive');
+    await cursors.set('ada@example.com', 'token-1');
+    await cursors.set('ada@example.com', 'token-2', { driveId: 'drive-1', savedAt: '2024-01-01T00:00:00.000Z' });
+    await cursors.set('bob@example.com', 'token-3');
+
+    assert.strictEqual((await cursors.get('ada@example.com'))?.pageToken, 'token-1');
+    assert.deepStrictEqual(await cursors.get('ada@example.com', 'drive-1'), { pageToken: 'token-2', savedAt: '2024-01-01T00:00:00.000Z' });
+    assert.strictEqual((await cursors.get('bob@example.com'))?.pageToken, 'token-3');
+  });
+});
@@ -0,0 +1,43 @@
+import assert from 'assert';
+import { toDriveComment, toDriveCommentReply } from '../../../src/lib/comments.ts';
+
+describe('comments - toDriveComment', () => {
+  it('maps quoted content, anchor, author and replies', () => {
+    const comment = toDriveComment({
+      id: 'c1',
+      content: 'Please rephrase',
+      author: { displayName: 'Ada', emailAddress: 'ada@example.com', me: false },
+      createdTime: '2024-01-01T00:00:00.000Z',
+      resolved: false,
+      quotedFileContent: { mimeType: 'text/html', value: 'the quick fox' },
+      anchor: '{"r":"head"}',
+      replies: [
+        { id: 'r1', content: 'Done', action: 'resolve' },
+        { id: 'r2', deleted: true },
+      ],
+    });
+
+    assert.deepStrictEqual(comment, {
+      id: 'c1',
+      content: 'Please rephrase',
+      author: { displayName: 'Ada', emailAddress: 'ada@example.com', me: false },
+      createdTime: '2024-01-01T00:00:00.000Z',
+      resolved: false,
+      quotedContent: 'the quick fox',
+      anchor: '{"r":"head"}',
+      replies: [{ id: 'r1', content: 'Done', action: 'resolve' }],
+    });
+  });
+
+  it('defaults resolved to false and omits empty replies', () => {
+    const comment = toDriveComment({ id: 'c2', content: 'Hi', replies: [] });
+    assert.deepStrictEqual(comment, { id: 'c2', content: 'Hi', resolved: false });
+  });
+});
+
+describe('comments - toDriveCommentReply', () => {
+  it('maps reply fields', () => {
+    const reply = toDriveCommentReply({ id: 'r1', content: 'Reopening', action: 'reopen', author: { displayName: 'Bob' } });
+    assert.deepStrictEqual(reply, { id: 'r1', content: 'Reopening', action: 'reopen', author: { displayName: 'Bob' } });
+  });
+});
@@ -1,5 +1,8 @@
 import assert from 'assert';
+import { toolFactories } from '../../../src/mcp/index.ts';
 import { parseConfig } from '../../../src/setup/config.ts';
+import { resolveScope } from '../../../src/setup/scope-profiles.ts';
+import { selectToolModules } from '../../../src/setup/tool-selection.ts';
 
 describe('parseConfig', () => {
   it('defaults to stdio transport with no args or env', () => {
@@ -176,4 +179,146 @@ describe('parseConfig', () => {
 
     assert.strictEqual(config.logLevel, 'warn');
   });
+
+  it('defaults to read-write with all tools', () => {
+    const config = parseConfig([], {
+      GOOGLE_CLIENT_ID: 'test-client-id',
+    });
+
+    assert.strictEqual(config.readOnly, false);
+    assert.strictEqual(config.tools, undefined);
+    assert.strictEqual(config.excludeTools, undefined);
+  });
+
+  it('parses --read-only from CLI and READ_ONLY from env', () => {
+    assert.strictEqual(parseConfig(['--read-only'], { GOOGLE_CLIENT_ID: 'test-client-id' }).readOnly, true);
+    assert.strictEqual(parseConfig([], { GOOGLE_CLIENT_ID: 'test-client-id', READ_ONLY: 'true' }).readOnly, true);
+    assert.strictEqual(parseConfig([], { GOOGLE_CLIENT_ID: 'test-client-id', READ_ONLY: 'false' }).readOnly, false);
+  });
+
+  it('parses --dry-run from CLI and DRY_RUN from env', () => {
+    assert.strictEqual(parseConfig(['--dry-run'], { GOOGLE_CLIENT_ID: 'test-client-id' }).dryRun, true);
+    assert.strictEqual(parseConfig([], { GOOGLE_CLIENT_ID: 'test-client-id', DRY_RUN: 'true' }).dryRun, true);
+    assert.strictEqual(parseConfig([], { GOOGLE_CLIENT_ID: 'test-client-id' }).dryRun, false);
+  });
+
+  it('parses --tools and --exclude-tools lists, CLI overriding env', () => {
+    const config = parseConfig(['--tools=files-search, file-read', '--exclude-tools=file-read'], {
+      GOOGLE_CLIENT_ID: 'test-client-id',
+      TOOLS: 'folder-search',
+      EXCLUDE_TOOLS: 'folder-path',
+    });
+
+    assert.deepStrictEqual(config.tools, ['files-search', 'file-read']);
+    assert.deepStrictEqual(config.excludeTools, ['file-read']);
+    assert.deepStrictEqual(parseConfig([], { GOOGLE_CLIENT_ID: 'test-client-id', TOOLS: 'folder-search' }).tools, ['folder-search']);
+  });
+});
+
+describe('impersonation config', () => {
+  const env = { GOOGLE_CLIENT_ID: 'test-client-id', GOOGLE_SERVICE_ACCOUNT_KEY_FILE: '/tmp/key.json' };
+
+  it('parses --impersonate and --impersonate-allowlist for service accounts', () => {
+    const config = parseConfig(['--auth=service-account', '--impersonate=admin@example.com', '--impersonate-allowlist=example.com, ops@other.com'], env);
+    assert.strictEqual(config.impersonate, 'admin@example.com');
+    assert.deepStrictEqual(config.impersonateAllowlist, ['example.com', 'ops@other.com']);
+  });
+
+  it('reads IMPERSONATE and IMPERSONATE_ALLOWLIST from env', () => {
+    const config = parseConfig(['--auth=service-account'], { ...env, IMPERSONATE: 'admin@example.com', IMPERSONATE_ALLOWLIST: 'example.com' });
+    assert.strictEqual(config.impersonate, 'admin@example.com');
+    assert.deepStrictEqual(config.impersonateAllowlist, ['example.com']);
+  });
+
+  it('rejects impersonation without service-account auth', () => {
+    assert.throws(() => parseConfig(['--impersonate=admin@example.com'], env), /requires --auth=service-account/);
+  });
+});
+
+describe('scope profiles', () => {
+  it('defaults to full, or readonly in read-only mode', () => {
+    assert.strictEqual(parseConfig([], { GOOGLE_CLIENT_ID: 'test-client-id' }).scopeProfile, 'full');
+    assert.strictEqual(parseConfig(['--read-only'], { GOOGLE_CLIENT_ID: 'test-client-id' }).scopeProfile, 'readonly');
+  });
+
+  it('parses --scope-profile from CLI and SCOPE_PROFILE from env', () => {
+    assert.strictEqual(parseConfig(['--scope-profile=file-only'], { GOOGLE_CLIENT_ID: 'test-client-id', SCOPE_PROFILE: 'readonly' }).scopeProfile, 'file-only');
+    assert.strictEqual(parseConfig([], { GOOGLE_CLIENT_ID: 'test-client-id', SCOPE_PROFILE: 'metadata-readonly' }).scopeProfile, 'metadata-readonly');
+    assert.throws(() => parseConfig(['--scope-profile=admin'], { GOOGLE_CLIENT_ID: 'test-client-id' }), /Unknown scope profile "admin"/);
+  });
+
+  it('rejects profiles with write access in read-only mode', () => {
+    assert.throws(() => parseConfig(['--read-only', '--scope-profile=full'], { GOOGLE_CLIENT_ID: 'test-client-id' }), /cannot use --scope-profile=full/);
+    assert.throws(() => parseConfig([], { GOOGLE_CLIENT_ID: 'test-client-id', READ_ONLY: 'true', SCOPE_PROFILE: 'file-only' }), /cannot use --scope-profile=file-only/);
+    assert.strictEqual(parseConfig(['--read-only', '--scope-profile=metadata-readonly'], { GOOGLE_CLIENT_ID: 'test-client-id' }).scopeProfile, 'metadata-readonly');
+  });
+
+  it('requests the Drive scope of the profile', () => {
+    assert.ok(resolveScope({}).endsWith(' https://www.googleapis.com/auth/drive'));
+    assert.ok(resolveScope({ readOnly: true }).endsWith(' https://www.googleapis.com/auth/drive.readonly'));
+    assert.ok(resolveScope({ scopeProfile: 'metadata-readonly' }).endsWith(' https://www.googleapis.com/auth/drive.metadata.readonly'));
+    assert.ok(resolveScope({ scopeProfile: 'file-only' }).endsWith(' https://www.googleapis.com/auth/drive.file'));
+  });
+
+  it('passes the profile scope to DCR config', () => {
+    const config = parseConfig(['--auth=dcr', '--dcr-store-uri=file:///tmp/dcr.json', '--port=3000', '--scope-profile=file-only'], { GOOGLE_CLIENT_ID: 'test-client-id' });
+    assert.ok(config.dcrConfig?.scope.endsWith('/auth/drive.file'));
+  });
+});
+
+describe('selectToolModules', () => {
+  const tools = Object.values(toolFactories).map((factory) => factory());
+  const names = (config: Parameters<typeof selectToolModules>[1]) => selectToolModules(tools, config).map((tool) => tool.name);
+
+  it('keeps every tool by default', () => {
+    assert.strictEqual(names({}).length, tools.length);
+  });
+
+  it('keeps only read-only tools in read-only mode', () => {
+    assert.deepStrictEqual(names({ readOnly: true }).sort(), [
+      'audit-log-query',
+      'changes-list',
+      'changes-start-token',
+      'drives-list',
+      'file-comments-list',
+      'file-permissions-list',
+      'file-read',
+      'file-revision-get',
+      'file-revisions-list',
+      'files-search',
+      'folder-contents',
+      'folder-path',
+      'folder-search',
+      'trash-list',
+    ]);
+  });
+
+  it('keeps read-only and dryRun tools in dry-run mode', () => {
+    const readOnlyNames = names({ readOnly: true });
+    assert.deepStrictEqual(
+      names({ dryRun: true }).filter((name) => !readOnlyNames.includes(name)),
+      ['file-move', 'file-move-to-trash', 'folder-create']
+    );
+    assert.throws(() => names({ dryRun: true, tools: ['file-move', 'file-share'] }), /not available in dry-run mode: file-share/);
+  });
+
+  it('hides tools the scope profile cannot serve', () => {
+    assert.deepStrictEqual(names({ scopeProfile: 'metadata-readonly' }).sort(), ['audit-log-query', 'changes-list', 'changes-start-token', 'file-permissions-list', 'file-revisions-list', 'files-search', 'folder-contents', 'folder-path', 'folder-search', 'trash-list']);
+    assert.deepStrictEqual(names({ scopeProfile: 'readonly' }), names({ readOnly: true }));
+    assert.deepStrictEqual(
+      tools.map((tool) => tool.name).filter((name) => !names({ scopeProfile: 'file-only' }).includes(name)),
+      ['drives-list']
+    );
+    assert.throws(() => names({ scopeProfile: 'metadata-readonly', tools: ['file-read'] }), /"metadata-readonly" scope profile grants: file-read/);
+  });
+
+  it('applies the allowlist then the denylist', () => {
+    assert.deepStrictEqual(names({ tools: ['files-search', 'file-move', 'file-read'], excludeTools: ['file-read'] }), ['file-move', 'files-search']);
+    assert.ok(!names({ excludeTools: ['file-move-to-trash'] }).includes('file-move-to-trash'));
+  });
+
+  it('rejects unknown names and writers allowed in read-only mode', () => {
+    assert.throws(() => names({ tools: ['files-serch'] }), /Unknown tool name\(s\): files-serch/);
+    assert.throws(() => names({ readOnly: true, tools: ['files-search', 'file-move'] }), /not available in read-only mode: file-move/);
+  });
 });
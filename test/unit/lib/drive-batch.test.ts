@@ -0,0 +1,223 @@
+import assert from 'assert';
+import { type drive_v3, google } from 'googleapis';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { type BatchClient, batchGetFiles, decodeBatchBody, encodeBatchBody, executeDriveBatch, getBatchClient, MAX_BATCH_REQUESTS } from '../../../src/lib/drive-batch.ts';
+
+// Auth client stand-in that sends requests with fetch, like OAuth2Client.request minus the token
+const fetchClient: BatchClient = {
+  async request<T>({ url, method, headers, data }: Parameters<BatchClient['request']>[0]) {
+    const response = await fetch(url, { method, headers, body: data });
+    return { data: (await response.text()) as T, headers: response.headers };
+  },
+};
+
+/**
+ * Fake Drive batch endpoint: parses each sub-request line and answers GETs for known
+ * files with JSON, unknown files with a 404 error body, and PATCHes with the file ID.
+ * IDs in rateLimited get one 403 userRateLimitExceeded, and IDs in unavailable one 503,
+ * before succeeding. Responses are written in reverse order to check Content-ID matching.
+ */
+function startFakeBatchServer(files: Record<string, drive_v3.Schema$File>, rateLimited = new Set<string>(), unavailable = new Set<string>()) {
+  const calls: Array<{ path: string; subRequests: string[] }> = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      const boundary = /boundary=(.+)$/.exec(req.headers['content-type'] ?? '')?.[1] as string;
+      const parts = body
+        .split(`--${boundary}`)
+        .slice(1)
+        .filter((p) => !p.startsWith('--'));
+      const subRequests = parts.map((p) => /^(GET|PATCH) (\S+) HTTP\/1\.1$/m.exec(p)?.slice(1).join(' ') ?? '');
+      calls.push({ path: req.url ?? '', subRequests });
+
+      const out = parts
+        .map((part, index) => {
+          const contentId = /Content-ID: <(item-\d+)>/.exec(part)?.[1];
+          const [method, target] = (subRequests[index] ?? '').split(' ');
+          const fileId = decodeURIComponent(/\/files\/([^?]+)/.exec(target ?? '')?.[1] ?? '');
+          const file = files[fileId];
+          if (rateLimited.delete(fileId)) {
+            const json = { error: { code: 403, message: 'User rate limit exceeded.', errors: [{ reason: 'userRateLimitExceeded' }] } };
+            return ['--batch_out', 'Content-Type: application/http', `Content-ID: <response-${contentId}>`, '', 'HTTP/1.1 403 Forbidden', 'Content-Type: application/json; charset=UTF-8', '', JSON.stringify(json), ''].join('\r\n');
+          }
+          if (unavailable.delete(fileId)) {
+            const json = { error: { code: 503, message: 'The service is currently unavailable.' } };
+            return ['--batch_out', 'Content-Type: application/http', `Content-ID: <response-${contentId}>`, '', 'HTTP/1.1 503 Service Unavailable', 'Content-Type: application/json; charset=UTF-8', '', JSON.stringify(json), ''].join('\r\n');
+          }
+          const [status, json] = method === 'PATCH' ? ['200 OK', { id: fileId }] : file ? ['200 OK', file] : ['404 Not Found', { error: { code: 404, message: `File not found: ${fileId}.` } }];
+          return ['--batch_out', 'Content-Type: application/http', `Content-ID: <response-${contentId}>`, '', `HTTP/1.1 ${status}`, 'Content-Type: application/json; charset=UTF-8', '', JSON.stringify(json), ''].join('\r\n');
+        })
+        .reverse();
+      res.writeHead(200, { 'Content-Type': 'multipart/mixed; boundary=batch_out' });
+      res.end(`${out.join('')}--batch_out--\r\n`);
+    });
+  });
+  return new Promise<{ server: http.Server; rootUrl: string; calls: typeof calls }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, rootUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/`, calls }));
+  });
+}
+
+describe('drive-batch - encodeBatchBody', () => {
+  it('encodes sub-requests as application/http parts with Content-IDs', () => {
+    const body = encodeBatchBody(
+      [
+        { method: 'GET', path: '/drive/v3/files/a', query: { fields: 'id,name', supportsAllDrives: true, pageToken: undefined } },
+        { method: 'PATCH', path: '/drive/v3/files/b', query: { addParents: 'x' }, body: { name: 'B' } },
+      ],
+      'BOUNDARY'
+    );
+    assert.strictEqual(
+      body,
+      [
+        '--BOUNDARY',
+        'Content-Type: application/http',
+        'Content-ID: <item-0>',
+        '',
+        'GET /drive/v3/files/a?fields=id%2Cname&supportsAllDrives=true HTTP/1.1',
+        '',
+        '--BOUNDARY',
+        'Content-Type: application/http',
+        'Content-ID: <item-1>',
+        '',
+        'PATCH /drive/v3/files/b?addParents=x HTTP/1.1',
+        'Content-Type: application/json; charset=UTF-8',
+        '',
+        '{"name":"B"}',
+        '--BOUNDARY--',
+        '',
+      ].join('\r\n')
+    );
+  });
+});
+
+describe('drive-batch - decodeBatchBody', () => {
+  it('decodes sub-responses in request order by Content-ID', () => {
+    const body = [
+      '--batch_abc',
+      'Content-Type: application/http',
+      'Content-ID: <response-item-1>',
+      '',
+      'HTTP/1.1 404 Not Found',
+      'Content-Type: application/json; charset=UTF-8',
+      '',
+      '{"error":{"code":404,"message":"File not found"}}',
+      '--batch_abc',
+      'Content-Type: application/http',
+      'Content-ID: <response-item-0>',
+      '',
+      'HTTP/1.1 200 OK',
+      'Content-Type: application/json; charset=UTF-8',
+      '',
+      '{"id":"a","name":"A"}',
+      '--batch_abc--',
+      '',
+    ].join('\r\n');
+
+    assert.deepStrictEqual(decodeBatchBody(body, 'multipart/mixed; boundary=batch_abc'), [
+      { status: 200, body: { id: 'a', name: 'A' } },
+      { status: 404, body: { error: { code: 404, message: 'File not found' } } },
+    ]);
+  });
+
+  it('rejects responses without a boundary', () => {
+    assert.throws(() => decodeBatchBody('', 'application/json'), /no multipart boundary/);
+  });
+});
+
+describe('drive-batch - against a local batch endpoint', () => {
+  let fake: Awaited<ReturnType<typeof startFakeBatchServer>>;
+  let drive: drive_v3.Drive;
+  const rateLimited = new Set<string>();
+  const unavailable = new Set<string>();
+
+  before(async () => {
+    const files: Record<string, drive_v3.Schema$File> = {};
+    for (let i = 0; i < 150; i++) files[`f${i}`] = { id: `f${i}`, name: `File ${i}` };
+    fake = await startFakeBatchServer(files, rateLimited, unavailable);
+    drive = google.drive({ version: 'v3', auth: fetchClient as never, rootUrl: fake.rootUrl });
+  });
+
+  after(async () => {
+    await new Promise((resolve) => fake.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    fake.calls.length = 0;
+  });
+
+  it('finds the auth client and batch URL behind a Drive instance', () => {
+    assert.strictEqual(getBatchClient(drive)?.url, `${fake.rootUrl}batch/drive/v3`);
+    assert.strictEqual(getBatchClient({} as drive_v3.Drive), undefined);
+  });
+
+  it('splits requests into calls of at most MAX_BATCH_REQUESTS', async () => {
+    const ids = Array.from({ length: 150 }, (_, i) => `f${i}`);
+    const results = await batchGetFiles(drive, ids, 'id,name');
+
+    assert.deepStrictEqual(
+      fake.calls.map((c) => c.subRequests.length),
+      [MAX_BATCH_REQUESTS, 50]
+    );
+    assert.strictEqual(fake.calls[0]?.path, '/batch/drive/v3');
+    assert.deepStrictEqual(results.get('f0'), { id: 'f0', name: 'File 0' });
+    assert.deepStrictEqual(results.get('f149'), { id: 'f149', name: 'File 149' });
+  });
+
+  it('returns failed sub-requests as errors with the Drive message and status', async () => {
+    const results = await batchGetFiles(drive, ['f1', 'missing'], 'id,name');
+    const error = results.get('missing') as Error & { code?: number };
+    assert.ok(error instanceof Error);
+    assert.strictEqual(error.message, 'File not found: missing.');
+    assert.strictEqual(error.code, 404);
+    assert.deepStrictEqual(results.get('f1'), { id: 'f1', name: 'File 1' });
+  });
+
+  it('sends PATCH sub-requests with query parameters', async () => {
+    const responses = await executeDriveBatch(drive, [{ method: 'PATCH', path: '/drive/v3/files/f1', query: { addParents: 'dest', removeParents: 'old' }, body: {} }]);
+    assert.deepStrictEqual(responses, [{ status: 200, body: { id: 'f1' } }]);
+    assert.deepStrictEqual(fake.calls[0]?.subRequests, ['PATCH /drive/v3/files/f1?addParents=dest&removeParents=old']);
+  });
+
+  it('re-sends only rate-limited sub-requests with backoff', async () => {
+    rateLimited.add('f2');
+    const delays: number[] = [];
+    const warnings: unknown[] = [];
+    const logger = { info: () => {}, warn: (_message: string, meta: unknown) => warnings.push(meta), error: () => {}, debug: () => {} };
+    const results = await batchGetFiles(drive, ['f1', 'f2', 'f3'], 'id,name', { logger, retry: { random: () => 1, sleep: async (ms) => void delays.push(ms) } });
+
+    assert.deepStrictEqual(
+      fake.calls.map((c) => c.subRequests),
+      [['GET /drive/v3/files/f1?fields=id%2Cname&supportsAllDrives=true', 'GET /drive/v3/files/f2?fields=id%2Cname&supportsAllDrives=true', 'GET /drive/v3/files/f3?fields=id%2Cname&supportsAllDrives=true'], ['GET /drive/v3/files/f2?fields=id%2Cname&supportsAllDrives=true']]
+    );
+    assert.deepStrictEqual(delays, [500]);
+    assert.deepStrictEqual(warnings, [{ count: 1, retry: 1, delayMs: 500 }]);
+    assert.deepStrictEqual(results.get('f2'), { id: 'f2', name: 'File 2' });
+  });
+
+  it('re-sends idempotent sub-requests that fail with 5xx', async () => {
+    unavailable.add('f5');
+    const results = await batchGetFiles(drive, ['f5'], 'id,name', { retry: { sleep: async () => {} } });
+    assert.deepStrictEqual(results.get('f5'), { id: 'f5', name: 'File 5' });
+    assert.strictEqual(fake.calls.length, 2);
+  });
+
+  it('does not re-send a PATCH that fails with 5xx', async () => {
+    unavailable.add('f6');
+    const responses = await executeDriveBatch(drive, [{ method: 'PATCH', path: '/drive/v3/files/f6', query: { addParents: 'dest' }, body: {} }], { retry: { sleep: async () => {} } });
+    assert.strictEqual(responses[0]?.status, 503);
+    assert.strictEqual(fake.calls.length, 1);
+  });
+
+  it('returns the rate-limit error once retries run out', async () => {
+    rateLimited.add('f4');
+    const results = await batchGetFiles(drive, ['f4'], 'id,name', { retry: { maxRetries: 0 } });
+    const error = results.get('f4') as Error & { code?: number };
+    assert.strictEqual(error.message, 'User rate limit exceeded.');
+    assert.strictEqual(error.code, 403);
+    assert.strictEqual(fake.calls.length, 1);
+  });
+});
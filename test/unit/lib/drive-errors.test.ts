@@ -0,0 +1,80 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import assert from 'assert';
+import { classifyDriveError, DriveErrorCode, toErrorBranch, toMcpError } from '../../../src/lib/drive-errors.ts';
+
+function driveError(status: number, reason: string, message = `${reason} error`) {
+  return Object.assign(new Error(message), {
+    status,
+    response: { status, data: { error: { code: status, message, errors: [{ reason, message }] } } },
+  });
+}
+
+describe('drive-errors - classifyDriveError', () => {
+  it('classifies Drive errors by status and reason', () => {
+    const kinds = [driveError(400, 'invalid'), driveError(401, 'authError'), driveError(403, 'insufficientFilePermissions'), driveError(403, 'userRateLimitExceeded'), driveError(404, 'notFound'), driveError(429, 'rateLimitExceeded'), driveError(503, 'backendError'), driveError(409, 'conflict')].map(
+      (error) => classifyDriveError(error).kind
+    );
+    assert.deepStrictEqual(kinds, ['invalid_request', 'unauthenticated', 'permission_denied', 'rate_limited', 'not_found', 'rate_limited', 'unavailable', 'unknown']);
+  });
+
+  it('reports status, reason and whether to retry', () => {
+    assert.deepStrictEqual(classifyDriveError(driveError(403, 'userRateLimitExceeded', 'User rate limit exceeded.')), {
+      kind: 'rate_limited',
+      message: 'User rate limit exceeded.',
+      status: 403,
+      reason: 'userRateLimitExceeded',
+      retryable: true,
+    });
+    assert.strictEqual(classifyDriveError(driveError(404, 'notFound')).retryable, false);
+  });
+
+  it('tells scope problems apart from file permission problems', () => {
+    const scopeError = Object.assign(new Error('Request had insufficient authentication scopes.'), {
+      status: 403,
+      response: { status: 403, data: { error: { code: 403, errors: [{ reason: 'insufficientPermissions' }], details: [{ reason: 'ACCESS_TOKEN_SCOPE_INSUFFICIENT' }] } } },
+    });
+    assert.strictEqual(classifyDriveError(scopeError).kind, 'insufficient_scope');
+    assert.strictEqual(toMcpError(scopeError, 'Error').code, DriveErrorCode.InsufficientScope);
+    assert.strictEqual(classifyDriveError(driveError(403, 'insufficientFilePermissions')).kind, 'permission_denied');
+  });
+
+  it('classifies batch sub-response errors by code alone', () => {
+    const error = Object.assign(new Error('File not found: x.'), { code: 404 });
+    assert.deepStrictEqual(classifyDriveError(error), { kind: 'not_found', message: 'File not found: x.', status: 404, retryable: false });
+  });
+
+  it('leaves errors without a status unknown', () => {
+    assert.deepStrictEqual(classifyDriveError(new Error('socket hang up')), { kind: 'unknown', message: 'socket hang up', retryable: false });
+  });
+});
+
+describe('drive-errors - toMcpError', () => {
+  it('maps kinds to distinct MCP error codes', () => {
+    const codes = [driveError(400, 'invalid'), driveError(401, 'authError'), driveError(403, 'forbidden'), driveError(404, 'notFound'), driveError(429, 'rateLimitExceeded'), driveError(500, 'backendError'), new Error('boom')].map((error) => toMcpError(error, 'Error').code);
+    assert.deepStrictEqual(codes, [ErrorCode.InvalidParams, DriveErrorCode.Unauthenticated, DriveErrorCode.PermissionDenied, DriveErrorCode.NotFound, DriveErrorCode.RateLimited, DriveErrorCode.Unavailable, ErrorCode.InternalError]);
+  });
+
+  it('prefixes the message and carries the classification in data', () => {
+    const error = toMcpError(driveError(404, 'notFound', 'File not found: abc.'), 'Error reading file');
+    assert.ok(error.message.includes('Error reading file: File not found: abc.'));
+    assert.deepStrictEqual({ ...(error.data as object), stack: undefined }, { kind: 'not_found', status: 404, reason: 'notFound', retryable: false, stack: undefined });
+  });
+
+  it('passes McpErrors through unchanged', () => {
+    const original = new McpError(ErrorCode.InvalidParams, 'bad');
+    assert.strictEqual(toMcpError(original, 'Error'), original);
+  });
+});
+
+describe('drive-errors - toErrorBranch', () => {
+  it('builds the typed error output branch', () => {
+    assert.deepStrictEqual(toErrorBranch(classifyDriveError(driveError(400, 'invalid', 'Invalid Value'))), {
+      type: 'error',
+      kind: 'invalid_request',
+      message: 'Invalid Value',
+      status: 400,
+      reason: 'invalid',
+      retryable: false,
+    });
+  });
+});
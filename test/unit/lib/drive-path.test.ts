@@ -0,0 +1,184 @@
+import assert from 'assert';
+import type { drive_v3 } from 'googleapis';
+import { createDrivePath, hasPathArguments, resolveDrivePath, resolvePathArguments, splitDrivePath, walkDrivePath } from '../../../src/lib/drive-path.ts';
+import { FOLDER_MIME_TYPE } from '../../../src/lib/file-content.ts';
+
+type Item = { id: string; name: string; mimeType: string; parent: string; driveId?: string };
+
+// Minimal files.list/drives.list stub that understands the queries resolveDrivePath builds
+function createDrive(items: Item[], sharedDrives: Array<{ id: string; name: string }> = []) {
+  const queries: string[] = [];
+  const created: string[] = [];
+  const drive = {
+    files: {
+      list: async (params: drive_v3.Params$Resource$Files$List) => {
+        const q = params.q as string;
+        queries.push(q);
+        const parent = /^'((?:[^'\\]|\\.)*)' in parents/.exec(q)?.[1];
+        const name = /name = '((?:[^'\\]|\\.)*)'/.exec(q)?.[1]?.replace(/\\(.)/g, '$1');
+        const folderOnly = q.includes(`mimeType = '${FOLDER_MIME_TYPE}'`);
+        const files = items.filter((i) => i.parent === parent && i.name === name && (!folderOnly || i.mimeType === FOLDER_MIME_TYPE));
+        return { data: { files } };
+      },
+      create: async (params: drive_v3.Params$Resource$Files$Create) => {
+        const body = params.requestBody as drive_v3.Schema$File;
+        const item: Item = { id: `new-${body.name}`, name: body.name as string, mimeType: body.mimeType as string, parent: (body.parents as string[])[0] as string };
+        items.push(item);
+        created.push(item.name);
+        return { data: { ...item, parents: [item.parent] } };
+      },
+    },
+    drives: {
+      list: async (params: drive_v3.Params$Resource$Drives$List) => {
+        const name = /name = '(.*)'/.exec(params.q as string)?.[1];
+        return { data: { drives: sharedDrives.filter((d) => d.name === name) } };
+      },
+    },
+  } as unknown as drive_v3.Drive;
+  return { drive, queries, created };
+}
+
+describe('drive-path - splitDrivePath', () => {
+  it('splits names literally and drops empty and My Drive segments', () => {
+    assert.deepStrictEqual(splitDrivePath('/Work//Projects/Plan v2.md/'), ['Work', 'Projects', 'Plan v2.md']);
+    assert.deepStrictEqual(splitDrivePath('/Reports/100%.txt'), ['Reports', '100%.txt']);
+    assert.deepStrictEqual(splitDrivePath('/a%20b'), ['a%20b']);
+    assert.deepStrictEqual(splitDrivePath('My Drive/Work'), ['Work']);
+    assert.deepStrictEqual(splitDrivePath(''), []);
+  });
+});
+
+describe('drive-path - resolveDrivePath', () => {
+  const items = (): Item[] => [
+    { id: 'work', name: 'Work', mimeType: FOLDER_MIME_TYPE, parent: 'root' },
+    { id: 'projects', name: 'Projects', mimeType: FOLDER_MIME_TYPE, parent: 'work' },
+    { id: 'plan', name: "Bob's Plan.md", mimeType: 'text/markdown', parent: 'projects' },
+    { id: 'notes', name: 'Notes', mimeType: 'text/plain', parent: 'work' },
+    { id: 'team-docs', name: 'Docs', mimeType: FOLDER_MIME_TYPE, parent: 'team', driveId: 'team' },
+  ];
+
+  it('walks folder names from My Drive', async () => {
+    const { drive } = createDrive(items());
+    assert.deepStrictEqual(await resolveDrivePath(drive, "Work/Projects/Bob's Plan.md"), { id: 'plan', name: "Bob's Plan.md", mimeType: 'text/markdown' });
+    assert.deepStrictEqual(await resolveDrivePath(drive, 'Work'), { id: 'work', name: 'Work', mimeType: FOLDER_MIME_TYPE });
+  });
+
+  it('resolves the empty path to My Drive', async () => {
+    const { drive, queries } = createDrive(items());
+    assert.deepStrictEqual(await resolveDrivePath(drive, '/'), { id: 'root', name: 'My Drive', mimeType: FOLDER_MIME_TYPE });
+    assert.strictEqual(queries.length, 0);
+  });
+
+  it('only descends through folders', async () => {
+    const { drive } = createDrive(items());
+    assert.strictEqual(await resolveDrivePath(drive, 'Work/Notes/child'), undefined);
+    assert.strictEqual(await resolveDrivePath(drive, 'Work/Missing'), undefined);
+  });
+
+  it('falls back to shared drive names for the first segment', async () => {
+    const { drive } = createDrive(items(), [{ id: 'team', name: 'Team' }]);
+    assert.deepStrictEqual(await resolveDrivePath(drive, 'Team/Docs'), { id: 'team-docs', name: 'Docs', mimeType: FOLDER_MIME_TYPE, driveId: 'team' });
+  });
+});
+
+describe('drive-path - ambiguity and createMissing', () => {
+  it('rejects duplicate names with the matching IDs', async () => {
+    const { drive } = createDrive([
+      { id: 'a', name: 'Work', mimeType: FOLDER_MIME_TYPE, parent: 'root' },
+      { id: 'b', name: 'Work', mimeType: FOLDER_MIME_TYPE, parent: 'root' },
+    ]);
+    await assert.rejects(() => resolveDrivePath(drive, 'Work'), /Ambiguous path "Work": 2 items named "Work" \(a, b\)/);
+  });
+
+  it('creates missing folders like mkdir -p', async () => {
+    const { drive, created } = createDrive([{ id: 'work', name: 'Work', mimeType: FOLDER_MIME_TYPE, parent: 'root' }]);
+    const folder = await resolveDrivePath(drive, 'Work/2024/Q1', { createMissing: true });
+    assert.deepStrictEqual(folder, { id: 'new-Q1', name: 'Q1', mimeType: FOLDER_MIME_TYPE });
+    assert.deepStrictEqual(created, ['2024', 'Q1']);
+  });
+
+  it('reports the folders it created with their parents', async () => {
+    const { drive } = createDrive([{ id: 'work', name: 'Work', mimeType: FOLDER_MIME_TYPE, parent: 'root' }]);
+    const { folder, created } = await createDrivePath(drive, 'Work/2024/Q1');
+    assert.strictEqual(folder.id, 'new-Q1');
+    assert.deepStrictEqual(
+      created.map((f) => [f.id, f.parents]),
+      [
+        ['new-2024', ['work']],
+        ['new-Q1', ['new-2024']],
+      ]
+    );
+    assert.deepStrictEqual((await createDrivePath(drive, 'Work/2024')).created, []);
+  });
+
+  it('collects the folders it created before a failure', async () => {
+    const { drive } = createDrive([{ id: 'work', name: 'Work', mimeType: FOLDER_MIME_TYPE, parent: 'root' }]);
+    const create = drive.files.create.bind(drive.files) as (params: drive_v3.Params$Resource$Files$Create) => Promise<unknown>;
+    (drive.files as unknown as { create: typeof create }).create = async (params) => {
+      if ((params.requestBody as drive_v3.Schema$File).name === 'Q1') throw new Error('Quota exceeded');
+      return create(params);
+    };
+    const created: drive_v3.Schema$File[] = [];
+    await assert.rejects(() => createDrivePath(drive, 'Work/2024/Q1', { created }), /Quota exceeded/);
+    assert.deepStrictEqual(
+      created.map((f) => f.id),
+      ['new-2024']
+    );
+  });
+
+  it('walks as far as the path exists without creating anything', async () => {
+    const { drive, created } = createDrive([
+      { id: 'work', name: 'Work', mimeType: FOLDER_MIME_TYPE, parent: 'root' },
+      { id: 'notes', name: 'Notes', mimeType: 'text/plain', parent: 'work' },
+    ]);
+    assert.deepStrictEqual(await walkDrivePath(drive, 'Work/2024/Q1'), { item: { id: 'work', name: 'Work', mimeType: FOLDER_MIME_TYPE }, missing: ['2024', 'Q1'] });
+    assert.deepStrictEqual((await walkDrivePath(drive, 'Work/Notes')).missing, []);
+    assert.deepStrictEqual((await walkDrivePath(drive, 'Work/Notes', { foldersOnly: true })).missing, ['Notes']);
+    assert.deepStrictEqual(created, []);
+  });
+});
+
+describe('drive-path - resolvePathArguments', () => {
+  const items = (): Item[] => [
+    { id: 'work', name: 'Work', mimeType: FOLDER_MIME_TYPE, parent: 'root' },
+    { id: 'plan', name: 'Plan.md', mimeType: 'text/markdown', parent: 'work' },
+  ];
+
+  it('detects path: references in ID arguments only', () => {
+    assert.ok(hasPathArguments({ folderId: 'path:/Work' }));
+    assert.ok(hasPathArguments({ fileIds: ['abc', 'path:/Work/Plan.md'] }));
+    assert.ok(hasPathArguments({ ids: ['path:/Work/Plan.md'] }));
+    assert.ok(hasPathArguments({ updates: [{ fileId: 'abc' }, { fileId: 'path:/Work/Plan.md' }] }));
+    assert.ok(!hasPathArguments({ fileId: 'abc', name: 'path:/Work' }));
+    assert.ok(!hasPathArguments({ updates: [{ fileId: 'abc', name: 'path:/Work' }] }));
+  });
+
+  it('replaces path references with IDs and leaves IDs alone', async () => {
+    const { drive, queries } = createDrive(items());
+    const args = await resolvePathArguments(drive, { fileIds: ['path:/Work/Plan.md', 'abc', 'path:/Work/Plan.md'], destinationFolderId: 'path:/Work', name: 'path:/kept' });
+    assert.deepStrictEqual(args, { fileIds: ['plan', 'abc', 'plan'], destinationFolderId: 'work', name: 'path:/kept' });
+    assert.strictEqual(queries.length, 3);
+  });
+
+  it('resolves ids arrays and the file IDs of nested updates', async () => {
+    const { drive } = createDrive(items());
+    assert.deepStrictEqual(await resolvePathArguments(drive, { ids: ['path:/Work/Plan.md', 'abc'] }), { ids: ['plan', 'abc'] });
+    const args = await resolvePathArguments(drive, {
+      updates: [
+        { fileId: 'path:/Work/Plan.md', name: 'path:/kept' },
+        { fileId: 'abc', starred: true },
+      ],
+    });
+    assert.deepStrictEqual(args, {
+      updates: [
+        { fileId: 'plan', name: 'path:/kept' },
+        { fileId: 'abc', starred: true },
+      ],
+    });
+  });
+
+  it('throws when a path cannot be found', async () => {
+    const { drive } = createDrive(items());
+    await assert.rejects(() => resolvePathArguments(drive, { folderId: 'path:/Missing' }), /Path not found: \/Missing/);
+  });
+});
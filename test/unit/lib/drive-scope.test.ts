@@ -0,0 +1,16 @@
+import assert from 'assert';
+import { toListScope } from '../../../src/lib/drive-scope.ts';
+
+describe('drive-scope - list scope', () => {
+  it('defaults to all drives', () => {
+    assert.deepStrictEqual(toListScope(), { supportsAllDrives: true, includeItemsFromAllDrives: true, corpora: 'allDrives' });
+  });
+
+  it('uses the requested corpora', () => {
+    assert.strictEqual(toListScope({ corpora: 'user' }).corpora, 'user');
+  });
+
+  it('restricts to a shared drive when driveId is set', () => {
+    assert.deepStrictEqual(toListScope({ driveId: 'drive-1', corpora: 'user' }), { supportsAllDrives: true, includeItemsFromAllDrives: true, corpora: 'drive', driveId: 'drive-1' });
+  });
+});
@@ -0,0 +1,64 @@
+import assert from 'assert';
+import { childPath, createProblems, moveProblems, nestedCreateChanges, toDryRunBranch, trashProblems, unreadableChange } from '../../../src/lib/dry-run.ts';
+import { FOLDER_MIME_TYPE } from '../../../src/lib/file-content.ts';
+
+const folder = { id: 'dest', mimeType: FOLDER_MIME_TYPE, capabilities: { canAddChildren: true } };
+
+describe('dry-run - moveProblems', () => {
+  it('finds nothing wrong with an allowed move', () => {
+    assert.deepStrictEqual(moveProblems({ id: 'f1', capabilities: { canMoveItemWithinDrive: true } }, folder, ['root-id', 'dest']), []);
+  });
+
+  it('reports missing access and invalid destinations', () => {
+    assert.deepStrictEqual(moveProblems({ id: 'f1' }, undefined), ['Destination folder not found or not accessible']);
+    assert.deepStrictEqual(moveProblems({ id: 'f1', capabilities: { canMoveItemWithinDrive: false } }, { ...folder, capabilities: { canAddChildren: false } }), ['No permission to add items to the destination folder', 'No permission to move the item']);
+    assert.deepStrictEqual(moveProblems({ id: 'f1' }, { ...folder, mimeType: 'text/plain' }), ['Destination is not a folder']);
+    assert.deepStrictEqual(moveProblems({ id: 'f1' }, { ...folder, trashed: true }), ['Destination folder is in trash']);
+  });
+
+  it('checks moves out of a shared drive separately', () => {
+    const item = { id: 'f1', driveId: 'drive-1', capabilities: { canMoveItemWithinDrive: true, canMoveItemOutOfDrive: false } };
+    assert.deepStrictEqual(moveProblems(item, folder), ['No permission to move the item out of its drive']);
+    assert.deepStrictEqual(moveProblems(item, { ...folder, driveId: 'drive-1' }), []);
+  });
+
+  it('rejects moving a folder into its own subfolder', () => {
+    assert.deepStrictEqual(moveProblems({ id: 'parent', mimeType: FOLDER_MIME_TYPE }, folder, ['root-id', 'parent', 'dest']), ['Cannot move a folder into itself or one of its subfolders']);
+  });
+});
+
+describe('dry-run - trash and create problems', () => {
+  it('reports items that cannot be trashed', () => {
+    assert.deepStrictEqual(trashProblems({ id: 'f1', capabilities: { canTrash: true } }), []);
+    assert.deepStrictEqual(trashProblems({ id: 'f1', trashed: true, capabilities: { canTrash: false } }), ['Already in trash', 'No permission to trash the item']);
+  });
+
+  it('plans missing parent folders before the folder, blocked together', () => {
+    assert.deepStrictEqual(nestedCreateChanges('/Work', ['2024', 'Q1'], []), [
+      { name: '2024', destinationPath: '/Work/2024' },
+      { name: 'Q1', destinationPath: '/Work/2024/Q1' },
+    ]);
+    assert.deepStrictEqual(nestedCreateChanges(undefined, ['2024', 'Q1'], ['Parent folder not found or not accessible']), [
+      { name: '2024', problems: ['Parent folder not found or not accessible'] },
+      { name: 'Q1', problems: ['Parent folder "2024" would not be created'] },
+    ]);
+  });
+
+  it('reports parents that cannot take new items', () => {
+    assert.deepStrictEqual(createProblems(folder), []);
+    assert.deepStrictEqual(createProblems(undefined), ['Parent folder not found or not accessible']);
+    assert.deepStrictEqual(createProblems({ ...folder, trashed: true, capabilities: { canAddChildren: false } }), ['Parent folder is in trash', 'No permission to add items to the parent folder']);
+  });
+});
+
+describe('dry-run - results', () => {
+  it('joins paths and counts blocked changes', () => {
+    assert.strictEqual(childPath('/', 'Plan.md'), '/Plan.md');
+    assert.strictEqual(childPath('/Work', 'Plan.md'), '/Work/Plan.md');
+
+    const branch = toDryRunBranch('Move 2 items to "/Archive"', [{ fileId: 'f1', name: 'a.txt', currentPath: '/a.txt', destinationPath: '/Archive/a.txt' }, unreadableChange('f2', new Error('File not found: f2.'))]);
+    assert.strictEqual(branch.operationSummary, 'Move 2 items to "/Archive": 1 ready, 1 blocked. Nothing was changed (dry run)');
+    assert.deepStrictEqual(branch.changes[1], { fileId: 'f2', name: 'f2', problems: ['Not found or not accessible: File not found: f2.'] });
+    assert.strictEqual(branch.totalBlocked, 1);
+  });
+});
@@ -0,0 +1,112 @@
+import assert from 'assert';
+import type { drive_v3 } from 'googleapis';
+import { byteRangeSlice, fetchFileContent, isGoogleNativeMimeType, isTextMimeType, resolveExportMimeType, sliceContent, supportedExportFormats } from '../../../src/lib/file-content.ts';
+
+describe('file-content - export resolution', () => {
+  it('defaults Google Docs to markdown', () => {
+    assert.strictEqual(resolveExportMimeType('application/vnd.google-apps.document'), 'text/markdown');
+  });
+
+  it('defaults Google Sheets to csv', () => {
+    assert.strictEqual(resolveExportMimeType('application/vnd.google-apps.spreadsheet'), 'text/csv');
+  });
+
+  it('resolves an explicit format', () => {
+    assert.strictEqual(resolveExportMimeType('application/vnd.google-apps.document', 'text'), 'text/plain');
+  });
+
+  it('returns undefined for unsupported format or type', () => {
+    assert.strictEqual(resolveExportMimeType('application/vnd.google-apps.presentation', 'csv'), undefined);
+    assert.strictEqual(resolveExportMimeType('application/vnd.google-apps.form'), undefined);
+    assert.deepStrictEqual(supportedExportFormats('application/vnd.google-apps.form'), []);
+  });
+
+  it('detects Google-native and text MIME types', () => {
+    assert.ok(isGoogleNativeMimeType('application/vnd.google-apps.document'));
+    assert.ok(!isGoogleNativeMimeType('application/pdf'));
+    assert.ok(isTextMimeType('text/plain; charset=utf-8'));
+    assert.ok(isTextMimeType('application/json'));
+    assert.ok(isTextMimeType('application/ld+json'));
+    assert.ok(!isTextMimeType('image/png'));
+  });
+});
+
+describe('file-content - sliceContent', () => {
+  it('returns full text when under the cap', () => {
+    const slice = sliceContent(Buffer.from('hello world'), 'text/plain', { maxLength: 100 });
+
+    assert.strictEqual(slice.encoding, 'utf8');
+    assert.strictEqual(slice.content, 'hello world');
+    assert.strictEqual(slice.truncated, false);
+    assert.strictEqual(slice.nextOffset, undefined);
+  });
+
+  it('pages through text by characters', () => {
+    const data = Buffer.from('héllo wörld');
+    const first = sliceContent(data, 'text/plain', { maxLength: 5 });
+
+    assert.strictEqual(first.content, 'héllo');
+    assert.strictEqual(first.truncated, true);
+    assert.strictEqual(first.nextOffset, 5);
+    assert.strictEqual(first.totalLength, 11);
+
+    const second = sliceContent(data, 'text/plain', { offset: first.nextOffset, maxLength: 100 });
+    assert.strictEqual(second.content, ' wörld');
+    assert.strictEqual(second.truncated, false);
+  });
+
+  it('returns binary content as base64 measured in bytes', () => {
+    const data = Buffer.from([0, 1, 2, 3, 4, 5]);
+    const slice = sliceContent(data, 'image/png', { offset: 2, maxLength: 2 });
+
+    assert.strictEqual(slice.encoding, 'base64');
+    assert.deepStrictEqual(Buffer.from(slice.content, 'base64'), Buffer.from([2, 3]));
+    assert.strictEqual(slice.nextOffset, 4);
+  });
+
+  it('clamps offset past the end', () => {
+    const slice = sliceContent(Buffer.from('abc'), 'text/plain', { offset: 10, maxLength: 5 });
+
+    assert.strictEqual(slice.content, '');
+    assert.strictEqual(slice.offset, 3);
+    assert.strictEqual(slice.truncated, false);
+  });
+});
+
+describe('file-content - byte ranges', () => {
+  function createDrive(file: Buffer, honorRange: boolean) {
+    const headers: unknown[] = [];
+    const drive = {
+      files: {
+        get: async (_params: unknown, options: { headers?: Record<string, string> }) => {
+          headers.push(options.headers);
+          const range = /bytes=(\d+)-(\d+)/.exec(options.headers?.Range ?? '');
+          if (!range || !honorRange) return { status: 200, data: file };
+          return { status: 206, data: file.subarray(Number(range[1]), Number(range[2]) + 1) };
+        },
+      },
+    } as unknown as drive_v3.Drive;
+    return { drive, headers };
+  }
+
+  it('downloads only the requested bytes of binary files', async () => {
+    const { drive, headers } = createDrive(Buffer.from([0, 1, 2, 3, 4, 5]), true);
+    const { data } = await fetchFileContent(drive, { id: 'f1', mimeType: 'image/png' }, undefined, { range: { start: 2, end: 4 } });
+    assert.deepStrictEqual(data, Buffer.from([2, 3]));
+    assert.deepStrictEqual(headers, [{ Range: 'bytes=2-3' }]);
+  });
+
+  it('slices the whole file when the range is ignored', async () => {
+    const { drive } = createDrive(Buffer.from([0, 1, 2, 3, 4, 5]), false);
+    const { data } = await fetchFileContent(drive, { id: 'f1', mimeType: 'image/png' }, undefined, { range: { start: 2, end: 4 } });
+    assert.deepStrictEqual(data, Buffer.from([2, 3]));
+  });
+
+  it('pages ranged bytes against the file size', () => {
+    const slice = byteRangeSlice(Buffer.from([2, 3]), 2, 6);
+    assert.deepStrictEqual(Buffer.from(slice.content, 'base64'), Buffer.from([2, 3]));
+    assert.strictEqual(slice.totalLength, 6);
+    assert.strictEqual(slice.nextOffset, 4);
+    assert.strictEqual(byteRangeSlice(Buffer.from([4, 5]), 4, 6).truncated, false);
+  });
+});
@@ -0,0 +1,42 @@
+import assert from 'assert';
+import { createImpersonation, isImpersonationAllowed } from '../../../src/lib/impersonation.ts';
+
+describe('impersonation - isImpersonationAllowed', () => {
+  it('matches exact emails and domains, ignoring case', () => {
+    const allowlist = ['Alice@Example.com', 'corp.example.org', '@migrations.example.net'];
+    assert.strictEqual(isImpersonationAllowed('alice@example.com', allowlist), true);
+    assert.strictEqual(isImpersonationAllowed('bob@example.com', allowlist), false);
+    assert.strictEqual(isImpersonationAllowed('bob@CORP.example.org', allowlist), true);
+    assert.strictEqual(isImpersonationAllowed('carol@migrations.example.net', allowlist), true);
+    assert.strictEqual(isImpersonationAllowed('dave@sub.corp.example.org', allowlist), false);
+    assert.strictEqual(isImpersonationAllowed('alice@example.com', []), false);
+  });
+});
+
+describe('impersonation - createImpersonation', () => {
+  const options = { keyFile: '/nonexistent/key.json', scopes: ['https://www.googleapis.com/auth/drive'] };
+
+  it('creates one JWT client per impersonated user', () => {
+    const impersonation = createImpersonation({ ...options, defaultUser: 'admin@example.com', allowlist: ['example.com'] });
+    const client = impersonation.authFor('Alice@example.com', { perCall: true });
+    assert.strictEqual(client.subject, 'alice@example.com');
+    assert.deepStrictEqual(client.scopes, options.scopes);
+    assert.strictEqual(impersonation.authFor('alice@example.com', { perCall: true }), client);
+    assert.notStrictEqual(impersonation.authFor('admin@example.com'), client);
+  });
+
+  it('only lets calls pass users on the allowlist or the default user', () => {
+    const impersonation = createImpersonation({ ...options, defaultUser: 'admin@other.com', allowlist: ['example.com'] });
+    assert.strictEqual(impersonation.perCall, true);
+    assert.throws(() => impersonation.authFor('mallory@evil.com', { perCall: true }), /Impersonating mallory@evil.com is not allowed/);
+    assert.strictEqual(impersonation.authFor('admin@other.com', { perCall: true }).subject, 'admin@other.com');
+    assert.strictEqual(impersonation.authFor('mallory@evil.com').subject, 'mallory@evil.com');
+  });
+
+  it('disables asUser without an allowlist and rejects non-emails', () => {
+    const impersonation = createImpersonation({ ...options, defaultUser: 'admin@example.com' });
+    assert.strictEqual(impersonation.perCall, false);
+    assert.throws(() => impersonation.authFor('admin@example.com@x', { perCall: true }), /not an email address/);
+    assert.throws(() => impersonation.authFor('bob@example.com', { perCall: true }), /Allowed users and domains: none/);
+  });
+});
@@ -0,0 +1,82 @@
+import assert from 'assert';
+import type { drive_v3 } from 'googleapis';
+import Keyv from 'keyv';
+import { fetchParentNames } from '../../../src/lib/drive-file.ts';
+import { createMetadataCache, getItemMetadata, metadataCacheKey } from '../../../src/lib/metadata-cache.ts';
+import type { Logger } from '../../../src/types.ts';
+
+const logger: Logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} };
+
+// files.get stub that counts requests per file ID
+function createDrive(files: Record<string, drive_v3.Schema$File>) {
+  const requests: string[] = [];
+  const drive = {
+    files: {
+      get: async ({ fileId }: { fileId: string }) => {
+        requests.push(fileId);
+        const file = files[fileId];
+        if (!file) throw new Error('File not found');
+        return { data: file };
+      },
+    },
+  } as unknown as drive_v3.Drive;
+  return { drive, requests };
+}
+
+describe('metadata-cache', () => {
+  it('scopes entries by account', async () => {
+    const store = new Keyv();
+    const cache = createMetadataCache(store, { service: 'mcp-drive-test' });
+    await cache.forAccount('ada@example.com').set({ id: 'f1', name: 'Work', parents: ['root'] });
+
+    assert.deepStrictEqual(await cache.forAccount('ada@example.com').get('f1'), { id: 'f1', name: 'Work', parents: ['root'] });
+    assert.strictEqual(await cache.forAccount('bob@example.com').get('f1'), undefined);
+    assert.ok(await store.get(metadataCacheKey('ada@example.com', 'mcp-drive-test', 'f1')));
+  });
+
+  it('expires entries after the TTL', async () => {
+    const cache = createMetadataCache(new Keyv(), { service: 'mcp-drive-test', ttlSeconds: 0.01 }).forAccount('ada@example.com');
+    await cache.set({ id: 'f1', name: 'Work' });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    assert.strictEqual(await cache.get('f1'), undefined);
+  });
+
+  it('invalidates written items', async () => {
+    const cache = createMetadataCache(new Keyv(), { service: 'mcp-drive-test' }).forAccount('ada@example.com');
+    await cache.set({ id: 'f1', name: 'Work' });
+    await cache.set({ id: 'f2', name: 'Home' });
+    await cache.invalidate(['f1']);
+    assert.strictEqual(await cache.get('f1'), undefined);
+    assert.deepStrictEqual(await cache.get('f2'), { id: 'f2', name: 'Home' });
+  });
+});
+
+describe('metadata-cache - getItemMetadata', () => {
+  it('fetches once and then serves from the cache', async () => {
+    const { drive, requests } = createDrive({ f1: { id: 'f1', name: 'Work', parents: ['root'], driveId: 'd1' } });
+    const cache = createMetadataCache(new Keyv(), { service: 'mcp-drive-test' }).forAccount('ada@example.com');
+
+    const first = await getItemMetadata(drive, 'f1', cache);
+    const second = await getItemMetadata(drive, 'f1', cache);
+    assert.deepStrictEqual(first, { id: 'f1', name: 'Work', parents: ['root'], driveId: 'd1' });
+    assert.deepStrictEqual(second, first);
+    assert.deepStrictEqual(requests, ['f1']);
+  });
+
+  it('always fetches without a cache', async () => {
+    const { drive, requests } = createDrive({ f1: { id: 'f1', name: 'Work' } });
+    await getItemMetadata(drive, 'f1');
+    await getItemMetadata(drive, 'f1');
+    assert.deepStrictEqual(requests, ['f1', 'f1']);
+  });
+
+  it('lets fetchParentNames reuse cached names across calls', async () => {
+    const { drive, requests } = createDrive({ p1: { id: 'p1', name: 'Projects' } });
+    const cache = createMetadataCache(new Keyv(), { service: 'mcp-drive-test' }).forAccount('ada@example.com');
+
+    await fetchParentNames(drive, ['p1', 'missing'], logger, cache);
+    const names = await fetchParentNames(drive, ['p1'], logger, cache);
+    assert.deepStrictEqual(Array.from(names), [['p1', 'Projects']]);
+    assert.deepStrictEqual(requests, ['p1', 'missing']);
+  });
+});
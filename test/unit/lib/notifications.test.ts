@@ -0,0 +1,140 @@
+import assert from 'assert';
+import express from 'express';
+import type * as http from 'http';
+import Keyv from 'keyv';
+import type { AddressInfo } from 'net';
+import { createResourceSubscriptions } from '../../../src/lib/resource-subscriptions.ts';
+import { createWatchChannelStore, type WatchChannel } from '../../../src/lib/watch-channels.ts';
+import { createNotificationRouter, createWatchRenewer, handleDriveNotification, NOTIFICATIONS_PATH, type NotificationDeps } from '../../../src/setup/notifications.ts';
+import type { Logger } from '../../../src/types.ts';
+
+const logger: Logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} };
+
+function fileChannel(overrides: Partial<WatchChannel> = {}): WatchChannel {
+  return { id: 'chan-1', resourceId: 'res-1', kind: 'file', fileId: 'file-1', accountId: 'ada@example.com', token: 'secret', address: 'https://example.com/drive/notifications', expiration: Date.now() + 3600000, autoRenew: true, ...overrides };
+}
+
+function createDeps(): NotificationDeps & { sent: string[] } {
+  const sent: string[] = [];
+  return {
+    sent,
+    channels: createWatchChannelStore(new Keyv()),
+    subscriptions: createResourceSubscriptions(),
+    notifyResourceUpdated: async (uri) => {
+      sent.push(uri);
+    },
+    logger,
+  };
+}
+
+describe('notifications - handleDriveNotification', () => {
+  it('emits resource updates for subscribed file channels', async () => {
+    const deps = createDeps();
+    await deps.channels.set(fileChannel());
+    deps.subscriptions.subscribe('drive://files/file-1');
+
+    const result = await handleDriveNotification({ channelId: 'chan-1', token: 'secret', resourceState: 'update' }, deps);
+    assert.deepStrictEqual(result, { status: 200, updated: ['drive://files/file-1'] });
+    assert.deepStrictEqual(deps.sent, ['drive://files/file-1']);
+  });
+
+  it('does not emit for unsubscribed resources or sync messages', async () => {
+    const deps = createDeps();
+    await deps.channels.set(fileChannel());
+
+    assert.deepStrictEqual(await handleDriveNotification({ channelId: 'chan-1', token: 'secret', resourceState: 'update' }, deps), { status: 200, updated: [] });
+    deps.subscriptions.subscribe('drive://files/file-1');
+    assert.deepStrictEqual(await handleDriveNotification({ channelId: 'chan-1', token: 'secret', resourceState: 'sync' }, deps), { status: 200, updated: [] });
+    assert.deepStrictEqual(deps.sent, []);
+  });
+
+  it('rejects unknown channels and bad tokens', async () => {
+    const deps = createDeps();
+    await deps.channels.set(fileChannel());
+
+    assert.strictEqual((await handleDriveNotification({ channelId: 'other', token: 'secret' }, deps)).status, 404);
+    assert.strictEqual((await handleDriveNotification({ channelId: 'chan-1', token: 'wrong!' }, deps)).status, 403);
+    assert.strictEqual((await handleDriveNotification({ channelId: 'chan-1' }, deps)).status, 403);
+  });
+
+  it('handles concurrent notifications for a changes channel one at a time', async () => {
+    const deps = createDeps();
+    const pageTokens: string[] = [];
+    let latest = 1;
+    deps.authForAccount = () =>
+      ({
+        request: async (options: { params?: { pageToken?: string } }) => {
+          pageTokens.push(options.params?.pageToken ?? '');
+          await new Promise((resolve) => setImmediate(resolve));
+          latest++;
+          return { data: { changes: [{ fileId: `file-${latest}`, changeType: 'file' }], newStartPageToken: String(latest) } };
+        },
+      }) as unknown as ReturnType<NonNullable<NotificationDeps['authForAccount']>>;
+    await deps.channels.set(fileChannel({ kind: 'changes', fileId: undefined, pageToken: '1' }));
+
+    await Promise.all([1, 2, 3].map(() => handleDriveNotification({ channelId: 'chan-1', token: 'secret', resourceState: 'change' }, deps)));
+    assert.deepStrictEqual(pageTokens, ['1', '2', '3']);
+    assert.strictEqual((await deps.channels.get('chan-1'))?.pageToken, '4');
+  });
+
+  it('keeps going when a client cannot be notified', async () => {
+    const deps = createDeps();
+    deps.notifyResourceUpdated = async () => {
+      throw new Error('Not connected');
+    };
+    await deps.channels.set(fileChannel());
+    deps.subscriptions.subscribe('drive://files/file-1');
+
+    assert.deepStrictEqual(await handleDriveNotification({ channelId: 'chan-1', token: 'secret', resourceState: 'update' }, deps), { status: 200, updated: [] });
+  });
+});
+
+describe('notifications - router', () => {
+  let server: http.Server;
+  let url: string;
+  const deps = createDeps();
+
+  before(async () => {
+    await deps.channels.set(fileChannel());
+    deps.subscriptions.subscribe('drive://files/file-1');
+    const app = express();
+    app.use('/', createNotificationRouter(deps));
+    server = await new Promise<http.Server>((resolve) => {
+      const s = app.listen(0, '127.0.0.1', () => resolve(s));
+    });
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}${NOTIFICATIONS_PATH}`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('accepts a stand-in Drive notification', async () => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'X-Goog-Channel-ID': 'chan-1', 'X-Goog-Channel-Token': 'secret', 'X-Goog-Resource-ID': 'res-1', 'X-Goog-Resource-State': 'update', 'X-Goog-Message-Number': '2' },
+    });
+    assert.strictEqual(res.status, 200);
+    assert.deepStrictEqual(deps.sent, ['drive://files/file-1']);
+  });
+
+  it('rejects requests without channel headers', async () => {
+    const res = await fetch(url, { method: 'POST' });
+    assert.strictEqual(res.status, 400);
+  });
+});
+
+describe('notifications - createWatchRenewer', () => {
+  it('drops expired channels that cannot be renewed', async () => {
+    const channels = createWatchChannelStore(new Keyv());
+    await channels.set(fileChannel({ id: 'expired', expiration: Date.now() - 1000, autoRenew: false }));
+    await channels.set(fileChannel({ id: 'live', expiration: Date.now() + 24 * 3600000 }));
+
+    const renewer = createWatchRenewer({ channels, logger });
+    assert.strictEqual(await renewer.renewDue(), 0);
+    assert.deepStrictEqual(
+      (await channels.list()).map((c) => c.id),
+      ['live']
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import assert from 'assert';
+import Keyv from 'keyv';
+import { createOperationJournal, planUndoItem, recordOperation } from '../../../src/lib/operation-journal.ts';
+
+const logger = { info: () => {}, error: () => {}, warn: () => {}, debug: () => {} };
+
+describe('operation-journal - store', () => {
+  it('keeps operations per account until undone', async () => {
+    const journal = createOperationJournal(new Keyv(), { service: 'drive' });
+    const ada = journal.forAccount('ada@example.com');
+    const operation = await ada.record('trash', 'file-move-to-trash', [{ fileId: 'f1' }, { fileId: 'f2' }]);
+
+    assert.deepStrictEqual((await ada.get(operation.id))?.items, [{ fileId: 'f1' }, { fileId: 'f2' }]);
+    assert.strictEqual(await journal.forAccount('bob@example.com').get(operation.id), undefined);
+
+    await ada.markUndone(operation);
+    assert.ok((await ada.get(operation.id))?.undoneAt);
+  });
+
+  it('records nothing without items and survives journal failures', async () => {
+    const journal = createOperationJournal(new Keyv(), { service: 'drive' }).forAccount('ada@example.com');
+    assert.strictEqual(await recordOperation(journal, 'move', 'file-move', [], logger), undefined);
+    assert.strictEqual(await recordOperation(undefined, 'move', 'file-move', [{ fileId: 'f1' }], logger), undefined);
+
+    const failing = { ...journal, record: () => Promise.reject(new Error('disk full')) };
+    assert.strictEqual(await recordOperation(failing, 'move', 'file-move', [{ fileId: 'f1' }], logger), undefined);
+    assert.ok(await recordOperation(journal, 'move', 'file-move', [{ fileId: 'f1' }], logger));
+  });
+});
+
+describe('operation-journal - planUndoItem', () => {
+  it('moves items back while they are still where the move left them', () => {
+    const item = { fileId: 'f1', oldParents: ['a'], newParents: ['b'] };
+    const step = planUndoItem('move', item, { id: 'f1', parents: ['b'] });
+    assert.ok('request' in step);
+    assert.deepStrictEqual(step.request.query, { addParents: 'a', removeParents: 'b', fields: 'id', supportsAllDrives: true });
+    assert.deepStrictEqual(planUndoItem('move', item, { id: 'f1', parents: ['c'] }), { fileId: 'f1', conflict: 'Moved since the move (now in c)' });
+    assert.deepStrictEqual(planUndoItem('move', item, { id: 'f1', parents: ['b'], trashed: true }), { fileId: 'f1', conflict: 'Trashed since the move' });
+  });
+
+  it('restores trashed items that are still in trash', () => {
+    const step = planUndoItem('trash', { fileId: 'f1' }, { id: 'f1', trashed: true });
+    assert.ok('request' in step);
+    assert.deepStrictEqual(step.request.body, { trashed: false });
+    assert.deepStrictEqual(planUndoItem('trash', { fileId: 'f1' }, { id: 'f1', trashed: false }), { fileId: 'f1', conflict: 'Restored since it was trashed' });
+  });
+
+  it('restores names that were not changed again', () => {
+    const item = { fileId: 'f1', oldName: 'Draft', newName: 'Final' };
+    const step = planUndoItem('rename', item, { id: 'f1', name: 'Final' });
+    assert.ok('request' in step);
+    assert.deepStrictEqual(step.request.body, { name: 'Draft' });
+    assert.deepStrictEqual(planUndoItem('rename', item, { id: 'f1', name: 'Final v2' }), { fileId: 'f1', conflict: 'Renamed since the rename (now "Final v2")' });
+  });
+
+  it('trashes created folders only while empty and in place', () => {
+    const item = { fileId: 'd1', newParents: ['root-id'] };
+    const step = planUndoItem('create', item, { id: 'd1', parents: ['root-id'] });
+    assert.ok('request' in step);
+    assert.deepStrictEqual(step.request.body, { trashed: true });
+    assert.deepStrictEqual(planUndoItem('create', item, { id: 'd1', parents: ['root-id'] }, { hasChildren: true }), { fileId: 'd1', conflict: 'No longer empty' });
+    assert.deepStrictEqual(planUndoItem('create', item, { id: 'd1', parents: ['other'] }), { fileId: 'd1', conflict: 'Moved since it was created' });
+  });
+});
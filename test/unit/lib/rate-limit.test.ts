@@ -0,0 +1,199 @@
+import assert from 'assert';
+import { backoffDelay, createConcurrencyLimiter, createDriveRateLimiter, DEFAULT_RETRY_OPTIONS, isIdempotentRequest, isRetryableError, isRetryableResponse, parseRetryAfter, withRetry } from '../../../src/lib/rate-limit.ts';
+
+function driveError(status: number, reason?: string, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`status ${status}`), {
+    status,
+    response: { status, headers: new Headers(headers), data: { error: { code: status, errors: reason ? [{ reason }] : [] } } },
+  });
+}
+
+function createLogger() {
+  const entries: Array<{ level: string; message: string; meta: unknown }> = [];
+  const log = (level: string) => (message: string, meta?: unknown) => entries.push({ level, message, meta });
+  return { logger: { info: log('info'), warn: log('warn'), error: log('error'), debug: log('debug') }, entries };
+}
+
+describe('rate-limit - retry classification', () => {
+  it('treats only reads and deletes as safe to repeat after a server error', () => {
+    assert.deepStrictEqual(['GET', 'get', undefined, 'DELETE', 'POST', 'PATCH', 'PUT'].map(isIdempotentRequest), [true, true, true, true, false, false, false]);
+  });
+
+  it('retries 429, 5xx and 403 rate-limit reasons only', () => {
+    assert.strictEqual(isRetryableResponse(429), true);
+    assert.strictEqual(isRetryableResponse(503), true);
+    assert.strictEqual(isRetryableResponse(403, { error: { errors: [{ reason: 'userRateLimitExceeded' }] } }), true);
+    assert.strictEqual(isRetryableResponse(403, { error: { errors: [{ reason: 'insufficientFilePermissions' }] } }), false);
+    assert.strictEqual(isRetryableResponse(404), false);
+  });
+
+  it('reads status and reason from thrown gaxios errors', () => {
+    assert.strictEqual(isRetryableError(driveError(403, 'rateLimitExceeded')), true);
+    assert.strictEqual(isRetryableError(driveError(403, 'forbidden')), false);
+    assert.strictEqual(isRetryableError(new Error('socket hang up')), false);
+  });
+
+  it('parses Retry-After seconds and HTTP dates', () => {
+    assert.strictEqual(parseRetryAfter('3'), 3000);
+    assert.strictEqual(parseRetryAfter('Wed, 21 Oct 2026 07:28:10 GMT', Date.parse('Wed, 21 Oct 2026 07:28:00 GMT')), 10000);
+    assert.strictEqual(parseRetryAfter('soon'), undefined);
+    assert.strictEqual(parseRetryAfter(null), undefined);
+  });
+
+  it('backs off exponentially with jitter up to the maximum delay', () => {
+    const options = { ...DEFAULT_RETRY_OPTIONS, random: () => 1 };
+    assert.deepStrictEqual(
+      [0, 1, 2, 10].map((attempt) => backoffDelay(attempt, options)),
+      [500, 1000, 2000, 32000]
+    );
+    assert.strictEqual(backoffDelay(1, { ...options, random: () => 0.5 }), 500);
+    assert.strictEqual(backoffDelay(3, options, 1500), 1500);
+  });
+});
+
+describe('rate-limit - withRetry', () => {
+  it('retries retryable errors and honors Retry-After', async () => {
+    const delays: number[] = [];
+    let calls = 0;
+    const { value, retries } = await withRetry(
+      async () => {
+        calls++;
+        if (calls === 1) throw driveError(429, undefined, { 'Retry-After': '2' });
+        if (calls === 2) throw driveError(500);
+        return 'ok';
+      },
+      { ...DEFAULT_RETRY_OPTIONS, random: () => 1, sleep: async (ms) => void delays.push(ms) }
+    );
+    assert.strictEqual(value, 'ok');
+    assert.strictEqual(retries, 2);
+    assert.deepStrictEqual(delays, [2000, 1000]);
+  });
+
+  it('does not retry permission errors', async () => {
+    let calls = 0;
+    await assert.rejects(
+      withRetry(
+        async () => {
+          calls++;
+          throw driveError(403, 'insufficientFilePermissions');
+        },
+        { ...DEFAULT_RETRY_OPTIONS, sleep: async () => {} }
+      ),
+      /status 403/
+    );
+    assert.strictEqual(calls, 1);
+  });
+
+  it('gives up after maxRetries or on a Retry-After that is too long', async () => {
+    let calls = 0;
+    await assert.rejects(
+      withRetry(
+        async () => {
+          calls++;
+          throw driveError(503);
+        },
+        { ...DEFAULT_RETRY_OPTIONS, maxRetries: 2, sleep: async () => {} }
+      )
+    );
+    assert.strictEqual(calls, 3);
+
+    await assert.rejects(withRetry(() => Promise.reject(driveError(429, undefined, { 'Retry-After': '3600' })), { ...DEFAULT_RETRY_OPTIONS, sleep: async () => assert.fail('should not wait') }));
+  });
+});
+
+describe('rate-limit - createConcurrencyLimiter', () => {
+  it('keeps at most maxConcurrency calls in flight', async () => {
+    const limiter = createConcurrencyLimiter(2);
+    let inFlight = 0;
+    let peak = 0;
+    const task = async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setImmediate(resolve));
+      inFlight--;
+    };
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(task)));
+    assert.strictEqual(peak, 2);
+    assert.strictEqual(limiter.active, 0);
+    assert.strictEqual(limiter.pending, 0);
+  });
+});
+
+describe('rate-limit - createDriveRateLimiter', () => {
+  it('retries the wrapped request with gaxios retry disabled and logs the retry count', async () => {
+    const seen: unknown[] = [];
+    const auth = {
+      secret: 'token',
+      async request(options: Record<string, unknown>) {
+        seen.push(options);
+        if (seen.length === 1) throw driveError(403, 'userRateLimitExceeded');
+        return { data: 'ok' };
+      },
+      getSecret() {
+        return this.secret;
+      },
+    };
+    const { logger, entries } = createLogger();
+    const wrapped = createDriveRateLimiter({ sleep: async () => {}, random: () => 0 }).wrapAuth('user@example.com', auth, logger);
+
+    assert.deepStrictEqual(await wrapped.request({ url: 'https://drive/files', method: 'GET' }), { data: 'ok' });
+    assert.deepStrictEqual(seen, [
+      { url: 'https://drive/files', method: 'GET', retry: false },
+      { url: 'https://drive/files', method: 'GET', retry: false },
+    ]);
+    assert.strictEqual(wrapped.getSecret(), 'token');
+    assert.deepStrictEqual(
+      entries.map((e) => [e.level, e.message]),
+      [
+        ['warn', 'Drive request rate limited, retrying'],
+        ['info', 'Drive request succeeded after retries'],
+      ]
+    );
+    assert.deepStrictEqual(entries[1]?.meta, { url: 'https://drive/files', method: 'GET', retries: 1 });
+  });
+
+  it('retries POST and PATCH on rate limits but not on server errors', async () => {
+    const seen: string[] = [];
+    const auth = {
+      async request(options: Record<string, unknown>) {
+        seen.push(String(options.method));
+        if (seen.length === 1) throw driveError(429);
+        throw driveError(503);
+      },
+    };
+    const { logger } = createLogger();
+    const wrapped = createDriveRateLimiter({ sleep: async () => {}, random: () => 0 }).wrapAuth('user@example.com', auth, logger);
+
+    await assert.rejects(wrapped.request({ url: 'https://drive/files', method: 'POST' }), /status 503/);
+    assert.deepStrictEqual(seen, ['POST', 'POST']);
+
+    seen.length = 1;
+    await assert.rejects(wrapped.request({ url: 'https://drive/files/f1', method: 'GET' }), /status 503/);
+    assert.strictEqual(seen.length, 1 + 1 + DEFAULT_RETRY_OPTIONS.maxRetries);
+  });
+
+  it('shares the concurrency limit between wrappers of the same account', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const auth = {
+      async request() {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setImmediate(resolve));
+        inFlight--;
+        return {};
+      },
+    };
+    const { logger } = createLogger();
+    const rateLimiter = createDriveRateLimiter({ maxConcurrency: 3 });
+    const first = rateLimiter.wrapAuth('a@example.com', auth, logger);
+    const second = rateLimiter.wrapAuth('a@example.com', auth, logger);
+    await Promise.all(Array.from({ length: 10 }, (_, i) => (i % 2 ? first : second).request()));
+    assert.strictEqual(peak, 3);
+
+    peak = 0;
+    const other = rateLimiter.wrapAuth('b@example.com', auth, logger);
+    await Promise.all([...Array.from({ length: 3 }, () => first.request()), ...Array.from({ length: 3 }, () => other.request())]);
+    assert.strictEqual(peak, 6);
+  });
+});
@@ -0,0 +1,73 @@
+import assert from 'assert';
+import { createResourceSubscriptions, fileIdFromResourceUri, fileResourceUri } from '../../../src/lib/resource-subscriptions.ts';
+import { createSubscriptionPoller } from '../../../src/setup/subscriptions.ts';
+import type { Logger } from '../../../src/types.ts';
+
+const logger: Logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} };
+
+describe('resource-subscriptions', () => {
+  it('round-trips file IDs through resource URIs', () => {
+    assert.strictEqual(fileResourceUri('abc123'), 'drive://files/abc123');
+    assert.strictEqual(fileIdFromResourceUri('drive://files/abc123'), 'abc123');
+    assert.strictEqual(fileIdFromResourceUri('drive://files/a%2Fb'), 'a/b');
+  });
+
+  it('rejects URIs that are not drive://files/{fileId}', () => {
+    assert.strictEqual(fileIdFromResourceUri('drive://files/'), undefined);
+    assert.strictEqual(fileIdFromResourceUri('drive://folders/abc'), undefined);
+    assert.strictEqual(fileIdFromResourceUri('drive://files/abc/children'), undefined);
+  });
+
+  it('tracks subscribed URIs', () => {
+    const subscriptions = createResourceSubscriptions();
+    subscriptions.subscribe('drive://files/a');
+    subscriptions.subscribe('drive://files/b');
+    subscriptions.subscribe('drive://files/a');
+    subscriptions.unsubscribe('drive://files/b');
+
+    assert.ok(subscriptions.has('drive://files/a'));
+    assert.ok(!subscriptions.has('drive://files/b'));
+    assert.deepStrictEqual(subscriptions.list(), ['drive://files/a']);
+  });
+
+  it('keeps a URI subscribed until every session unsubscribes', () => {
+    const subscriptions = createResourceSubscriptions();
+    subscriptions.subscribe('drive://files/a', 'session-1');
+    subscriptions.subscribe('drive://files/a', 'session-2');
+    subscriptions.unsubscribe('drive://files/a', 'session-1');
+    subscriptions.unsubscribe('drive://files/a', 'session-3');
+
+    assert.ok(subscriptions.has('drive://files/a'));
+    subscriptions.unsubscribe('drive://files/a', 'session-2');
+    assert.ok(!subscriptions.has('drive://files/a'));
+    assert.deepStrictEqual(subscriptions.list(), []);
+  });
+});
+
+describe('resource-subscriptions - createSubscriptionPoller', () => {
+  it('skips polling when no account is signed in', async () => {
+    const subscriptions = createResourceSubscriptions();
+    subscriptions.subscribe('drive://files/a');
+    const sent: string[] = [];
+    const poller = createSubscriptionPoller({
+      subscriptions,
+      resolveAuth: async () => undefined,
+      notifyResourceUpdated: async (uri) => {
+        sent.push(uri);
+      },
+      logger,
+    });
+
+    await poller.track('drive://files/a');
+    assert.deepStrictEqual(await poller.poll(), []);
+    assert.deepStrictEqual(sent, []);
+  });
+
+  it('starts and stops without keeping the process alive', () => {
+    const poller = createSubscriptionPoller({ subscriptions: createResourceSubscriptions(), resolveAuth: async () => undefined, notifyResourceUpdated: async () => {}, logger, intervalMs: 10 });
+    poller.start();
+    poller.start();
+    poller.stop();
+    poller.stop();
+  });
+});
@@ -0,0 +1,75 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import assert from 'assert';
+import type { drive_v3 } from 'googleapis';
+import { fetchRevisionContent, toDriveRevision } from '../../../src/lib/revisions.ts';
+
+type AuthClient = EnrichedExtra['authContext']['auth'];
+
+describe('revisions - toDriveRevision', () => {
+  it('maps revision metadata and omits missing fields', () => {
+    const revision = toDriveRevision({
+      id: 'rev-1',
+      modifiedTime: '2024-01-01T00:00:00.000Z',
+      size: '42',
+      keepForever: false,
+      lastModifyingUser: { displayName: 'Ada', emailAddress: 'ada@example.com' },
+    });
+    assert.deepStrictEqual(revision, {
+      id: 'rev-1',
+      modifiedTime: '2024-01-01T00:00:00.000Z',
+      size: '42',
+      keepForever: false,
+      lastModifyingUser: { displayName: 'Ada', emailAddress: 'ada@example.com' },
+    });
+  });
+});
+
+describe('revisions - fetchRevisionContent', () => {
+  it('downloads binary revisions with alt=media', async () => {
+    let getArgs: drive_v3.Params$Resource$Revisions$Get | undefined;
+    const drive = {
+      revisions: {
+        get: async (args: drive_v3.Params$Resource$Revisions$Get) => {
+          getArgs = args;
+          return { data: new TextEncoder().encode('old text').buffer };
+        },
+      },
+    } as unknown as drive_v3.Drive;
+
+    const result = await fetchRevisionContent(drive, {} as AuthClient, { id: 'file-1', mimeType: 'text/plain', revisionId: 'rev-1' });
+    assert.strictEqual(getArgs?.alt, 'media');
+    assert.strictEqual(result.data.toString('utf8'), 'old text');
+    assert.strictEqual(result.exported, false);
+  });
+
+  it('downloads Google-native revisions from their export link', async () => {
+    const requested: string[] = [];
+    const drive = {
+      revisions: {
+        get: async () => ({ data: { id: 'rev-1', exportLinks: { 'text/markdown': 'https://export.test/rev-1.md' } } }),
+      },
+    } as unknown as drive_v3.Drive;
+    const auth = {
+      request: async (opts: { url: string }) => {
+        requested.push(opts.url);
+        return { data: new TextEncoder().encode('# Old heading').buffer };
+      },
+    } as unknown as AuthClient;
+
+    const result = await fetchRevisionContent(drive, auth, { id: 'doc-1', mimeType: 'application/vnd.google-apps.document', revisionId: 'rev-1' });
+    assert.deepStrictEqual(requested, ['https://export.test/rev-1.md']);
+    assert.strictEqual(result.mimeType, 'text/markdown');
+    assert.strictEqual(result.data.toString('utf8'), '# Old heading');
+    assert.strictEqual(result.exported, true);
+  });
+
+  it('throws when the revision has no export link for the format', async () => {
+    const drive = {
+      revisions: {
+        get: async () => ({ data: { id: 'rev-1', exportLinks: {} } }),
+      },
+    } as unknown as drive_v3.Drive;
+
+    await assert.rejects(fetchRevisionContent(drive, {} as AuthClient, { id: 'doc-1', mimeType: 'application/vnd.google-apps.document', revisionId: 'rev-1' }, 'text'), /cannot be exported as text\/plain/);
+  });
+});
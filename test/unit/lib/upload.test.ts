@@ -0,0 +1,127 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import assert from 'assert';
+import type { drive_v3 } from 'googleapis';
+import { decodeContent, isValidBase64, RESUMABLE_THRESHOLD, uploadFile } from '../../../src/lib/upload.ts';
+
+type AuthClient = EnrichedExtra['authContext']['auth'];
+
+interface RecordedRequest {
+  url: string;
+  method?: string;
+  headers: Record<string, string>;
+  params?: Record<string, unknown>;
+  size: number;
+}
+
+/**
+ * Stub auth client that emulates the Drive resumable upload protocol:
+ * session POST returns a Location, chunk PUTs return 308 until the last byte arrives.
+ */
+function createResumableStub(totalSize: number, options: { failChunks?: number[] } = {}) {
+  const requests: RecordedRequest[] = [];
+  let received = 0;
+  let chunks = 0;
+  const auth = {
+    request: async (opts: { url: string; method?: string; headers?: Record<string, string>; params?: Record<string, unknown>; data?: unknown }) => {
+      const size = Buffer.isBuffer(opts.data) ? opts.data.length : 0;
+      requests.push({ url: opts.url, method: opts.method, headers: opts.headers ?? {}, params: opts.params, size });
+      if (opts.method !== 'PUT') {
+        return { status: 200, headers: new Headers({ location: 'https://upload.test/session-1' }), data: {} };
+      }
+      if (size > 0) {
+        // Failing chunks are stored, but the response is lost to a 503
+        received += size;
+        if (options.failChunks?.includes(chunks++)) throw Object.assign(new Error('backend error'), { status: 503, response: { status: 503 } });
+      }
+      if (received < totalSize) {
+        return { status: 308, headers: new Headers({ range: `bytes=0-${received - 1}` }), data: {} };
+      }
+      return { status: 200, headers: new Headers(), data: { id: 'uploaded-id', name: 'big.bin' } };
+    },
+  };
+  return { auth: auth as unknown as AuthClient, requests };
+}
+
+describe('upload - content decoding', () => {
+  it('decodes utf8 and base64 content', () => {
+    assert.strictEqual(decodeContent('hello', 'utf8').toString('utf8'), 'hello');
+    assert.strictEqual(decodeContent(Buffer.from('hello').toString('base64'), 'base64').toString('utf8'), 'hello');
+  });
+
+  it('validates base64 content', () => {
+    assert.ok(isValidBase64('aGVsbG8='));
+    assert.ok(!isValidBase64('not base64!'));
+  });
+});
+
+describe('upload - uploadFile', () => {
+  it('uses a single multipart request for small payloads', async () => {
+    let createArgs: drive_v3.Params$Resource$Files$Create | undefined;
+    const drive = {
+      files: {
+        create: async (args: drive_v3.Params$Resource$Files$Create) => {
+          createArgs = args;
+          return { data: { id: 'small-id' } };
+        },
+      },
+    } as unknown as drive_v3.Drive;
+    const { auth, requests } = createResumableStub(0);
+
+    const result = await uploadFile(drive, auth, { metadata: { name: 'a.txt' }, mimeType: 'text/plain', data: Buffer.from('hi'), fields: 'id' });
+
+    assert.strictEqual(result.uploadType, 'multipart');
+    assert.strictEqual(result.file.id, 'small-id');
+    assert.strictEqual(createArgs?.media?.mimeType, 'text/plain');
+    assert.strictEqual(requests.length, 0, 'should not open a resumable session');
+  });
+
+  it('uploads large payloads in resumable chunks', async () => {
+    const data = Buffer.alloc(RESUMABLE_THRESHOLD + 1024, 1);
+    const { auth, requests } = createResumableStub(data.length);
+
+    const result = await uploadFile({} as drive_v3.Drive, auth, { metadata: { name: 'big.bin' }, mimeType: 'application/octet-stream', data, fields: 'id,name' });
+
+    assert.strictEqual(result.uploadType, 'resumable');
+    assert.strictEqual(result.file.id, 'uploaded-id');
+
+    const [session, ...chunks] = requests;
+    assert.strictEqual(session?.method, 'POST');
+    assert.strictEqual(session?.params?.uploadType, 'resumable');
+    assert.strictEqual(session?.headers['X-Upload-Content-Length'], String(data.length));
+    assert.ok(chunks.length > 0, 'should PUT at least one chunk');
+    assert.strictEqual(
+      chunks.reduce((sum, chunk) => sum + chunk.size, 0),
+      data.length,
+      'chunks should cover the whole payload'
+    );
+    assert.strictEqual(chunks[0]?.headers['Content-Range'], `bytes 0-${(chunks[0]?.size ?? 0) - 1}/${data.length}`);
+  });
+
+  it('queries the upload status after a failed chunk instead of re-sending it', async () => {
+    const data = Buffer.alloc(RESUMABLE_THRESHOLD * 4, 1);
+    const { auth, requests } = createResumableStub(data.length, { failChunks: [0] });
+
+    const result = await uploadFile({} as drive_v3.Drive, auth, { metadata: { name: 'big.bin' }, mimeType: 'application/octet-stream', data, fields: 'id' });
+
+    assert.strictEqual(result.file.id, 'uploaded-id');
+    const [, first, status, second] = requests;
+    assert.strictEqual(status?.headers['Content-Range'], `bytes */${data.length}`);
+    assert.strictEqual(status?.size, 0);
+    assert.strictEqual(second?.headers['Content-Range']?.split('-')[0], `bytes ${first?.size}`, 'should resume after the stored chunk');
+    assert.strictEqual(
+      requests.reduce((sum, request) => sum + request.size, 0),
+      data.length,
+      'no bytes should be sent twice'
+    );
+  });
+
+  it('targets the existing file when fileId is provided', async () => {
+    const data = Buffer.alloc(RESUMABLE_THRESHOLD + 1, 1);
+    const { auth, requests } = createResumableStub(data.length);
+
+    await uploadFile({} as drive_v3.Drive, auth, { fileId: 'existing-id', metadata: {}, mimeType: 'text/plain', data, fields: 'id' });
+
+    assert.strictEqual(requests[0]?.method, 'PATCH');
+    assert.ok(requests[0]?.url.endsWith('/existing-id'), 'session URL should include fileId');
+  });
+});
@@ -0,0 +1,87 @@
+import assert from 'assert';
+import type { drive_v3 } from 'googleapis';
+import Keyv from 'keyv';
+import { createWatchChannelStore, MAX_WATCH_TTL_SECONDS, openWatchChannel, parseNotificationHeaders, type WatchChannel } from '../../../src/lib/watch-channels.ts';
+
+function channel(id: string): WatchChannel {
+  return { id, resourceId: `res-${id}`, kind: 'file', fileId: 'file-1', accountId: 'ada@example.com', token: 'secret', address: 'https://example.com/drive/notifications', expiration: Date.now() + 60000, autoRenew: true };
+}
+
+describe('watch-channels - store', () => {
+  it('saves, lists and deletes channels', async () => {
+    const channels = createWatchChannelStore(new Keyv());
+    await channels.set(channel('a'));
+    await channels.set(channel('b'));
+    await channels.set({ ...channel('a'), autoRenew: false });
+
+    assert.deepStrictEqual((await channels.list()).map((c) => c.id).sort(), ['a', 'b']);
+    assert.strictEqual((await channels.get('a'))?.autoRenew, false);
+
+    await channels.delete('a');
+    assert.strictEqual(await channels.get('a'), undefined);
+    assert.deepStrictEqual(
+      (await channels.list()).map((c) => c.id),
+      ['b']
+    );
+  });
+});
+
+describe('watch-channels - openWatchChannel', () => {
+  it('watches a file with a random id and token', async () => {
+    let request: drive_v3.Params$Resource$Files$Watch | undefined;
+    const drive = {
+      files: {
+        watch: async (params: drive_v3.Params$Resource$Files$Watch) => {
+          request = params;
+          return { data: { resourceId: 'res-1', expiration: params.requestBody?.expiration } };
+        },
+      },
+    } as unknown as drive_v3.Drive;
+
+    const before = Date.now();
+    const result = await openWatchChannel(drive, { kind: 'file', fileId: 'file-1', accountId: 'ada@example.com', address: 'https://example.com/hook', autoRenew: true });
+
+    assert.strictEqual(request?.fileId, 'file-1');
+    assert.strictEqual(request?.requestBody?.type, 'web_hook');
+    assert.strictEqual(result.resourceId, 'res-1');
+    assert.strictEqual(result.id, request?.requestBody?.id);
+    assert.strictEqual(result.token, request?.requestBody?.token);
+    assert.ok(result.expiration >= before + MAX_WATCH_TTL_SECONDS.file * 1000);
+  });
+
+  it('starts the change feed from a fresh token', async () => {
+    let watchedToken: string | undefined;
+    const drive = {
+      changes: {
+        getStartPageToken: async () => ({ data: { startPageToken: 'start-1' } }),
+        watch: async (params: drive_v3.Params$Resource$Changes$Watch) => {
+          watchedToken = params.pageToken;
+          return { data: { resourceId: 'res-2', expiration: '1700000000000' } };
+        },
+      },
+    } as unknown as drive_v3.Drive;
+
+    const result = await openWatchChannel(drive, { kind: 'changes', accountId: 'ada@example.com', address: 'https://example.com/hook', ttlSeconds: 3600, autoRenew: false });
+    assert.strictEqual(watchedToken, 'start-1');
+    assert.strictEqual(result.pageToken, 'start-1');
+    assert.strictEqual(result.expiration, 1700000000000);
+  });
+});
+
+describe('watch-channels - parseNotificationHeaders', () => {
+  it('parses X-Goog headers', () => {
+    const parsed = parseNotificationHeaders({
+      'x-goog-channel-id': 'chan-1',
+      'x-goog-channel-token': 'secret',
+      'x-goog-resource-id': 'res-1',
+      'x-goog-resource-state': 'update',
+      'x-goog-message-number': '3',
+      'x-goog-changed': 'content, properties',
+    });
+    assert.deepStrictEqual(parsed, { channelId: 'chan-1', token: 'secret', resourceId: 'res-1', resourceState: 'update', messageNumber: '3', changed: ['content', 'properties'] });
+  });
+
+  it('returns undefined without a channel id', () => {
+    assert.strictEqual(parseNotificationHeaders({ 'content-type': 'application/json' }), undefined);
+  });
+});
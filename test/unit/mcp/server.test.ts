@@ -58,7 +58,40 @@ describe('Drive MCP Server Component Tests', () => {
       const toolNames = result.tools.map((tool) => tool.name);
 
       // Expected Drive tools based on servers/mcp-drive/src/mcp/tools/index.ts
-      const expectedTools = ['file-move', 'file-move-to-trash', 'folder-contents', 'folder-create', 'folder-path', 'folder-search', 'files-search'];
+      const expectedTools = [
+        'audit-log-query',
+        'changes-list',
+        'changes-start-token',
+        'drives-list',
+        'file-comment-create',
+        'file-comment-reply',
+        'file-comment-resolve',
+        'file-comments-list',
+        'file-copy',
+        'file-move',
+        'file-move-to-trash',
+        'file-permission-update',
+        'file-permissions-list',
+        'file-read',
+        'file-restore',
+        'file-revision-get',
+        'file-revision-pin',
+        'file-revisions-list',
+        'file-share',
+        'file-unshare',
+        'file-update-content',
+        'file-update-metadata',
+        'file-upload',
+        'folder-contents',
+        'folder-create',
+        'folder-path',
+        'folder-search',
+        'files-search',
+        'operation-undo',
+        'trash-list',
+        'watch-start',
+        'watch-stop',
+      ];
 
       // Verify each expected tool is registered
       for (const expectedTool of expectedTools) {
@@ -0,0 +1,92 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import Keyv from 'keyv';
+import { createChangeCursorStore } from '../../../../src/lib/change-cursors.ts';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/changes-list.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive changes-list tool
+ *
+ * Takes a start token, creates a file, and checks the change feed reports it.
+ */
+describe('changes-list tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let changesListHandler: ToolHandler<Input, EnrichedExtra>;
+  const changeCursors = createChangeCursorStore(new Keyv(), 'mcp-drive-test');
+  const createdIds: string[] = [];
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool({ changeCursors });
+    const wrappedTool = middleware.withToolAuth(tool);
+    changesListHandler = wrappedTool.handler;
+  });
+
+  after(async () => {
+    const drive = google.drive({ version: 'v3', auth });
+    for (const id of createdIds) {
+      await deleteTestFolder(drive, id, logger);
+    }
+  });
+
+  async function createFile(name: string): Promise<string> {
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({ requestBody: { name, mimeType: 'text/plain' }, media: { mimeType: 'text/plain', body: 'hello' }, fields: 'id' });
+    const id = created.data.id as string;
+    createdIds.push(id);
+    return id;
+  }
+
+  it('reports files added after an explicit token', async () => {
+    const drive = google.drive({ version: 'v3', auth });
+    const issuedAt = new Date().toISOString();
+    const start = await drive.changes.getStartPageToken({ supportsAllDrives: true });
+    const fileId = await createFile(`Test Changes ${Date.now()}.txt`);
+
+    const res = await changesListHandler({ pageToken: start.data.startPageToken as string, since: issuedAt, pageSize: 100 }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.ok(
+        branch.added.some((f) => f.id === fileId),
+        'new file should be reported as added'
+      );
+      assert.ok(branch.nextPageToken || branch.newStartPageToken, 'should return a token to continue from');
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('initializes and then resumes from the saved cursor', async () => {
+    const first = await changesListHandler({ sinceLastCheck: true, pageSize: 100 }, createExtra());
+    const firstBranch = first.structuredContent?.result as Output | undefined;
+    if (firstBranch?.type !== 'success') return;
+    assert.equal(firstBranch.cursorInitialized, true);
+    assert.equal(firstBranch.count, 0);
+
+    const fileId = await createFile(`Test Changes Cursor ${Date.now()}.txt`);
+
+    const second = await changesListHandler({ sinceLastCheck: true, pageSize: 100 }, createExtra());
+    const secondBranch = second.structuredContent?.result as Output | undefined;
+    if (secondBranch?.type === 'success') {
+      assert.equal(secondBranch.cursorSaved, true);
+      assert.ok(
+        [...secondBranch.added, ...secondBranch.modified].some((f) => f.id === fileId),
+        'new file should be reported since the last check'
+      );
+    }
+  });
+
+  it('requires a pageToken or sinceLastCheck', async () => {
+    await assert.rejects(changesListHandler({ pageSize: 100 }, createExtra()), /Provide pageToken/);
+  });
+});
@@ -0,0 +1,58 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import Keyv from 'keyv';
+import { createChangeCursorStore } from '../../../../src/lib/change-cursors.ts';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/changes-start-token.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+
+/**
+ * Tests for Drive changes-start-token tool
+ */
+describe('changes-start-token tool', () => {
+  const changeCursors = createChangeCursorStore(new Keyv(), 'mcp-drive-test');
+  let accountId: string;
+  let changesStartTokenHandler: ToolHandler<Input, EnrichedExtra>;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    accountId = middlewareContext.accountId;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool({ changeCursors });
+    const wrappedTool = middleware.withToolAuth(tool);
+    changesStartTokenHandler = wrappedTool.handler;
+  });
+
+  it('returns a start token without saving it', async () => {
+    const res = await changesStartTokenHandler({}, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.ok(branch.startPageToken, 'should return a start token');
+      assert.ok(branch.issuedAt, 'should return issuedAt');
+      assert.equal(branch.saved, false);
+      assert.equal(await changeCursors.get(accountId), undefined);
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('saves the token as the account cursor when persist is set', async () => {
+    const res = await changesStartTokenHandler({ persist: true }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.saved, true);
+      const cursor = await changeCursors.get(accountId);
+      assert.equal(cursor?.pageToken, branch.startPageToken);
+      assert.equal(cursor?.savedAt, branch.issuedAt);
+    }
+  });
+
+  it('rejects persist when no cursor store is configured', async () => {
+    const middlewareContext = await createMiddlewareContext();
+    const handler = middlewareContext.middleware.withToolAuth(createTool()).handler;
+    await assert.rejects(handler({ persist: true }, createExtra()), /Cursor persistence is not available/);
+  });
+});
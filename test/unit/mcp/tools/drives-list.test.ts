@@ -0,0 +1,50 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/drives-list.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+
+/**
+ * Tests for Drive drives-list tool
+ *
+ * The test account may not belong to any shared drive, so assertions
+ * focus on result structure.
+ */
+describe('drives-list tool', () => {
+  let drivesListHandler: ToolHandler<Input, EnrichedExtra>;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    drivesListHandler = wrappedTool.handler;
+  });
+
+  it('returns shared drives with id and name', async () => {
+    const res = await drivesListHandler({ pageSize: 10 }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.ok(Array.isArray(branch.items), 'items should be array');
+      assert.equal(branch.count, branch.items.length);
+      assert.ok(branch.count <= 10, 'should respect pageSize');
+      for (const item of branch.items) {
+        assert.ok(item.id, 'shared drive should have id');
+        assert.ok(item.name, 'shared drive should have name');
+      }
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('filters shared drives by query', async () => {
+    const res = await drivesListHandler({ query: "name contains 'zz-no-such-drive-zz'", pageSize: 10 }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.count, 0, 'should match no shared drives');
+    }
+  });
+});
@@ -0,0 +1,61 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-comment-create.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-comment-create tool
+ */
+describe('file-comment-create tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileCommentCreateHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileCommentCreateHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: `Test Comment Create ${Date.now()}`, mimeType: 'application/vnd.google-apps.document' },
+      fields: 'id',
+    });
+    testFileId = created.data.id ?? undefined;
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('creates a comment with quoted content', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await fileCommentCreateHandler({ fileId: testFileId, content: 'Needs a source', quotedContent: 'sales doubled' }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.ok(branch.comment.id, 'comment should have id');
+      assert.equal(branch.comment.content, 'Needs a source');
+      assert.equal(branch.comment.quotedContent, 'sales doubled');
+      assert.equal(branch.comment.resolved, false);
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('throws for a nonexistent file', async () => {
+    await assert.rejects(fileCommentCreateHandler({ fileId: 'nonexistent-file-id', content: 'Hello' }, createExtra()), /Error creating comment/);
+  });
+});
@@ -0,0 +1,72 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-comment-reply.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-comment-reply tool
+ */
+describe('file-comment-reply tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileCommentReplyHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+  let commentId: string | undefined;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileCommentReplyHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: `Test Comment Reply ${Date.now()}`, mimeType: 'application/vnd.google-apps.document' },
+      fields: 'id',
+    });
+    testFileId = created.data.id ?? undefined;
+    if (testFileId) {
+      const comment = await drive.comments.create({ fileId: testFileId, fields: 'id', requestBody: { content: 'Question?' } });
+      commentId = comment.data.id ?? undefined;
+    }
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('replies to a comment', async () => {
+    if (!testFileId || !commentId) throw new Error('Expected test file and comment');
+    const res = await fileCommentReplyHandler({ fileId: testFileId, commentId, content: 'Answer' }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.commentId, commentId);
+      assert.ok(branch.reply.id, 'reply should have id');
+      assert.equal(branch.reply.content, 'Answer');
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('resolves and reopens the thread with an action', async () => {
+    if (!testFileId || !commentId) throw new Error('Expected test file and comment');
+    const resolveRes = await fileCommentReplyHandler({ fileId: testFileId, commentId, content: 'Closing', action: 'resolve' }, createExtra());
+    const resolveBranch = resolveRes.structuredContent?.result as Output | undefined;
+    if (resolveBranch?.type === 'success') assert.equal(resolveBranch.reply.action, 'resolve');
+
+    const reopenRes = await fileCommentReplyHandler({ fileId: testFileId, commentId, content: 'Reopening', action: 'reopen' }, createExtra());
+    const reopenBranch = reopenRes.structuredContent?.result as Output | undefined;
+    if (reopenBranch?.type === 'success') assert.equal(reopenBranch.reply.action, 'reopen');
+  });
+});
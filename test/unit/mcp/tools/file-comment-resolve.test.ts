@@ -0,0 +1,70 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-comment-resolve.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-comment-resolve tool
+ */
+describe('file-comment-resolve tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileCommentResolveHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+  const commentIds: string[] = [];
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileCommentResolveHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: `Test Comment Resolve ${Date.now()}`, mimeType: 'application/vnd.google-apps.document' },
+      fields: 'id',
+    });
+    testFileId = created.data.id ?? undefined;
+    if (!testFileId) return;
+    for (const content of ['First', 'Second']) {
+      const comment = await drive.comments.create({ fileId: testFileId, fields: 'id', requestBody: { content } });
+      if (comment.data.id) commentIds.push(comment.data.id);
+    }
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('resolves a batch of comments and reports failures', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await fileCommentResolveHandler({ fileId: testFileId, commentIds: [...commentIds, 'nonexistent-comment'], content: 'Addressed' }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.totalRequested, commentIds.length + 1);
+      assert.equal(branch.totalResolved, commentIds.length);
+      assert.equal(branch.totalFailed, 1);
+      assert.equal(branch.failed?.[0]?.commentId, 'nonexistent-comment');
+      for (const entry of branch.resolved) {
+        assert.equal(entry.reply.action, 'resolve');
+      }
+
+      const drive = google.drive({ version: 'v3', auth });
+      const check = await drive.comments.get({ fileId: testFileId, commentId: commentIds[0] as string, fields: 'resolved' });
+      assert.equal(check.data.resolved, true);
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+});
@@ -0,0 +1,85 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-comments-list.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-comments-list tool
+ *
+ * Creates a Google Doc with one open and one resolved comment and lists them.
+ */
+describe('file-comments-list tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileCommentsListHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+  let openCommentId: string | undefined;
+  let resolvedCommentId: string | undefined;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileCommentsListHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: `Test Comments ${Date.now()}`, mimeType: 'application/vnd.google-apps.document' },
+      fields: 'id',
+    });
+    testFileId = created.data.id ?? undefined;
+    if (!testFileId) return;
+
+    const open = await drive.comments.create({ fileId: testFileId, fields: 'id', requestBody: { content: 'Open comment', quotedFileContent: { mimeType: 'text/plain', value: 'intro' } } });
+    openCommentId = open.data.id ?? undefined;
+    const resolved = await drive.comments.create({ fileId: testFileId, fields: 'id', requestBody: { content: 'Resolved comment' } });
+    resolvedCommentId = resolved.data.id ?? undefined;
+    if (resolvedCommentId) {
+      await drive.replies.create({ fileId: testFileId, commentId: resolvedCommentId, fields: 'id', requestBody: { action: 'resolve', content: 'Fixed' } });
+    }
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('lists all comments as objects with quoted content and replies', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await fileCommentsListHandler({ fileId: testFileId, pageSize: 20, shape: 'objects' }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success' && branch.shape === 'objects') {
+      assert.equal(branch.count, 2);
+      const open = branch.items.find((c) => c.id === openCommentId);
+      assert.equal(open?.quotedContent, 'intro');
+      assert.equal(open?.resolved, false);
+      const resolved = branch.items.find((c) => c.id === resolvedCommentId);
+      assert.equal(resolved?.resolved, true);
+      assert.equal(resolved?.replies?.[0]?.action, 'resolve');
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('filters unresolved comments in arrays shape', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await fileCommentsListHandler({ fileId: testFileId, status: 'unresolved', fields: 'id,content', pageSize: 20, shape: 'arrays' }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success' && branch.shape === 'arrays') {
+      assert.deepEqual(branch.columns, ['id', 'content']);
+      assert.equal(branch.count, 1);
+      assert.equal(branch.rows[0]?.[0], openCommentId);
+    }
+  });
+});
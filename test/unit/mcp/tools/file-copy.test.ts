@@ -0,0 +1,96 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-copy.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-copy tool
+ *
+ * Builds a small template tree (folder/sub-folder/file) and copies
+ * a single file and the whole tree.
+ */
+describe('file-copy tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileCopyHandler: ToolHandler<Input, EnrichedExtra>;
+  let templateFolderId: string | undefined;
+  let subFolderId: string | undefined;
+  let testFileId: string | undefined;
+  const createdIds: string[] = [];
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileCopyHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const folder = await drive.files.create({
+      requestBody: { name: `Test Copy Template ${Date.now()}`, mimeType: 'application/vnd.google-apps.folder' },
+      fields: 'id',
+    });
+    templateFolderId = folder.data.id ?? undefined;
+    const sub = await drive.files.create({
+      requestBody: { name: 'Sub', mimeType: 'application/vnd.google-apps.folder', parents: [templateFolderId ?? ''] },
+      fields: 'id',
+    });
+    subFolderId = sub.data.id ?? undefined;
+    const file = await drive.files.create({
+      requestBody: { name: 'kickoff.txt', mimeType: 'text/plain', parents: [subFolderId ?? ''] },
+      media: { mimeType: 'text/plain', body: 'agenda' },
+      fields: 'id',
+    });
+    testFileId = file.data.id ?? undefined;
+  });
+
+  after(async () => {
+    const drive = google.drive({ version: 'v3', auth });
+    for (const id of [...createdIds, templateFolderId]) {
+      if (id) await deleteTestFolder(drive, id, logger);
+    }
+  });
+
+  it('copies a single file with a new name', async () => {
+    if (!testFileId || !templateFolderId) throw new Error('Expected test file');
+    const res = await fileCopyHandler({ fileId: testFileId, name: 'kickoff-copy.txt', parentId: templateFolderId }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.item.name, 'kickoff-copy.txt');
+      assert.notEqual(branch.item.id, testFileId, 'copy should have a new ID');
+      assert.equal(branch.idMap[testFileId], branch.item.id);
+      assert.equal(branch.totalCopied, 1);
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('rejects folders without recursive', async () => {
+    if (!templateFolderId) throw new Error('Expected template folder');
+    await assert.rejects(fileCopyHandler({ fileId: templateFolderId }, createExtra()), /recursive=true/);
+  });
+
+  it('deep-copies a folder tree and returns an ID map', async () => {
+    if (!templateFolderId || !subFolderId || !testFileId) throw new Error('Expected template tree');
+    const res = await fileCopyHandler({ fileId: templateFolderId, name: `Test Copy Result ${Date.now()}`, parentId: 'root', recursive: true }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      if (branch.item.id) createdIds.push(branch.item.id);
+      assert.equal(branch.totalFailed, 0);
+      assert.ok(branch.idMap[templateFolderId], 'should map the top-level folder');
+      assert.ok(branch.idMap[subFolderId], 'should map the sub-folder');
+      assert.ok(branch.idMap[testFileId], 'should map the nested file');
+      assert.equal(branch.truncated, undefined);
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+});
@@ -0,0 +1,87 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-permission-update.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-permission-update tool
+ *
+ * Shares a test file with anyone with the link as reader, then upgrades
+ * the permission to commenter and verifies previousRole.
+ */
+describe('file-permission-update tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let filePermissionUpdateHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+  let permissionId: string | undefined;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    filePermissionUpdateHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: `Test Permission Update ${Date.now()}.txt`, mimeType: 'text/plain' },
+      media: { mimeType: 'text/plain', body: 'update me' },
+      fields: 'id',
+    });
+    testFileId = created.data.id ?? undefined;
+    if (testFileId) {
+      const permission = await drive.permissions.create({
+        fileId: testFileId,
+        requestBody: { type: 'anyone', role: 'reader' },
+        fields: 'id',
+      });
+      permissionId = permission.data.id ?? undefined;
+    }
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('changes the role and reports the previous role', async () => {
+    if (!testFileId || !permissionId) throw new Error('Expected test file and permission');
+    const res = await filePermissionUpdateHandler({ fileIds: testFileId, permissionId, role: 'commenter' }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.totalUpdated, 1);
+      const updated = branch.updated[0];
+      assert.ok(updated, 'should have updated entry');
+      assert.equal(updated.permissionId, permissionId);
+      assert.equal(updated.role, 'commenter');
+      assert.equal(updated.previousRole, 'reader');
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('reports per-file failures for invalid IDs', async () => {
+    if (!permissionId) throw new Error('Expected test permission');
+    const res = await filePermissionUpdateHandler({ fileIds: ['nonexistent-file-id'], permissionId, role: 'reader' }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.totalFailed, 1);
+      assert.equal(branch.failed?.[0]?.fileId, 'nonexistent-file-id');
+    }
+  });
+
+  it('requires permissionId or emailAddress', async () => {
+    await assert.rejects(filePermissionUpdateHandler({ fileIds: 'any-id', role: 'reader' }, createExtra()), /permissionId or emailAddress is required/);
+  });
+});
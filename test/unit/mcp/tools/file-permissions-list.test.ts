@@ -0,0 +1,64 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-permissions-list.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-permissions-list tool
+ */
+describe('file-permissions-list tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let filePermissionsListHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    filePermissionsListHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: `Test Permissions ${Date.now()}.txt`, mimeType: 'text/plain' },
+      media: { mimeType: 'text/plain', body: 'permissions' },
+      fields: 'id',
+    });
+    testFileId = created.data.id ?? undefined;
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('lists the owner permission of a new file', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await filePermissionsListHandler({ fileId: testFileId }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.fileId, testFileId);
+      assert.equal(branch.count, branch.items.length);
+      assert.ok(
+        branch.items.some((p) => p.role === 'owner'),
+        'should include the owner permission'
+      );
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('throws for a nonexistent file', async () => {
+    await assert.rejects(filePermissionsListHandler({ fileId: 'nonexistent-file-id' }, createExtra()), /Error listing permissions/);
+  });
+});
@@ -0,0 +1,87 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-read.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-read tool
+ *
+ * Creates a plain text file, reads it back (including paging),
+ * and cleans it up afterwards.
+ */
+describe('file-read tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileReadHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+  const testContent = 'line one\nline two\nline three\n';
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileReadHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: `Test Read ${Date.now()}.txt`, mimeType: 'text/plain' },
+      media: { mimeType: 'text/plain', body: testContent },
+      fields: 'id',
+    });
+    testFileId = created.data.id ?? undefined;
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('reads text file content', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await fileReadHandler({ fileId: testFileId }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.encoding, 'utf8', 'text file should be utf8');
+      assert.equal(branch.content, testContent, 'content should match');
+      assert.equal(branch.truncated, false, 'should not be truncated');
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('pages through content with offset and maxLength', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await fileReadHandler({ fileId: testFileId, maxLength: 9 }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.content, 'line one\n');
+      assert.equal(branch.truncated, true);
+      assert.equal(branch.nextOffset, 9);
+
+      const next = await fileReadHandler({ fileId: testFileId, offset: branch.nextOffset, maxLength: 9 }, createExtra());
+      const nextBranch = next.structuredContent?.result as Output | undefined;
+      if (nextBranch?.type === 'success') {
+        assert.equal(nextBranch.content, 'line two\n');
+      }
+    }
+  });
+
+  it('rejects folders', async () => {
+    await assert.rejects(() => fileReadHandler({ fileId: 'root' }, createExtra()), 'should throw for folders');
+  });
+
+  it('throws for non-existent file', async () => {
+    await assert.rejects(() => fileReadHandler({ fileId: 'non-existent-file-id-12345' }, createExtra()), 'should throw for missing file');
+  });
+});
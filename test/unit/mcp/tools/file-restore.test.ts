@@ -0,0 +1,73 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-restore.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-restore tool
+ *
+ * Restores a trashed test file and verifies per-ID failures for invalid IDs.
+ */
+describe('file-restore tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileRestoreHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileRestoreHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: `Test Restore ${Date.now()}.txt`, mimeType: 'text/plain', trashed: true },
+      media: { mimeType: 'text/plain', body: 'restore me' },
+      fields: 'id',
+    });
+    testFileId = created.data.id ?? undefined;
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('restores a trashed file', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await fileRestoreHandler({ ids: [testFileId] }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.totalCount, 1);
+      assert.equal(branch.successCount, 1);
+      assert.equal(branch.failures, undefined, 'failures should be omitted when all succeed');
+
+      const drive = google.drive({ version: 'v3', auth });
+      const file = await drive.files.get({ fileId: testFileId, fields: 'trashed' });
+      assert.equal(file.data.trashed, false, 'file should no longer be trashed');
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('reports failures for invalid IDs', async () => {
+    const res = await fileRestoreHandler({ ids: ['nonexistent-file-id'] }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.failureCount, 1);
+      assert.equal(branch.failures?.[0]?.id, 'nonexistent-file-id');
+    }
+  });
+});
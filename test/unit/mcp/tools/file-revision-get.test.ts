@@ -0,0 +1,70 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-revision-get.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-revision-get tool
+ *
+ * Creates a text file, replaces its content, and downloads the first revision.
+ */
+describe('file-revision-get tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileRevisionGetHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+  let firstRevisionId: string | undefined;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileRevisionGetHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: `Test Revision Get ${Date.now()}.txt`, mimeType: 'text/plain' },
+      media: { mimeType: 'text/plain', body: 'original content' },
+      fields: 'id,headRevisionId',
+    });
+    testFileId = created.data.id ?? undefined;
+    firstRevisionId = created.data.headRevisionId ?? undefined;
+    if (testFileId) {
+      await drive.files.update({ fileId: testFileId, media: { mimeType: 'text/plain', body: 'new content' } });
+    }
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('downloads the content of an earlier revision', async () => {
+    if (!testFileId || !firstRevisionId) throw new Error('Expected test file and revision');
+    const res = await fileRevisionGetHandler({ fileId: testFileId, revisionId: firstRevisionId }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.revision.id, firstRevisionId);
+      assert.equal(branch.encoding, 'utf8');
+      assert.equal(branch.content, 'original content');
+      assert.equal(branch.truncated, false);
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('throws for a nonexistent revision', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    await assert.rejects(fileRevisionGetHandler({ fileId: testFileId, revisionId: 'nonexistent-revision' }, createExtra()), /Error getting revision/);
+  });
+});
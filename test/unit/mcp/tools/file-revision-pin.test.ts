@@ -0,0 +1,71 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-revision-pin.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-revision-pin tool
+ *
+ * Pins and unpins the head revision of a binary (non-Google) file.
+ */
+describe('file-revision-pin tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileRevisionPinHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+  let revisionId: string | undefined;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileRevisionPinHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: `Test Revision Pin ${Date.now()}.txt`, mimeType: 'text/plain' },
+      media: { mimeType: 'text/plain', body: 'pin me' },
+      fields: 'id,headRevisionId',
+    });
+    testFileId = created.data.id ?? undefined;
+    revisionId = created.data.headRevisionId ?? undefined;
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('pins a revision and reports the previous value', async () => {
+    if (!testFileId || !revisionId) throw new Error('Expected test file and revision');
+    const res = await fileRevisionPinHandler({ fileId: testFileId, revisionId }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.revision.keepForever, true);
+      assert.equal(branch.previousKeepForever, false);
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('unpins a revision', async () => {
+    if (!testFileId || !revisionId) throw new Error('Expected test file and revision');
+    const res = await fileRevisionPinHandler({ fileId: testFileId, revisionId, keepForever: false }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.revision.keepForever, false);
+      assert.equal(branch.previousKeepForever, true);
+    }
+  });
+});
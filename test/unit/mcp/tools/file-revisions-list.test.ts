@@ -0,0 +1,69 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-revisions-list.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-revisions-list tool
+ *
+ * Creates a text file with two revisions and lists them.
+ */
+describe('file-revisions-list tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileRevisionsListHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileRevisionsListHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: `Test Revisions ${Date.now()}.txt`, mimeType: 'text/plain' },
+      media: { mimeType: 'text/plain', body: 'v1' },
+      fields: 'id',
+    });
+    testFileId = created.data.id ?? undefined;
+    if (testFileId) {
+      await drive.files.update({ fileId: testFileId, media: { mimeType: 'text/plain', body: 'v2' } });
+    }
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('lists revisions with metadata', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await fileRevisionsListHandler({ fileId: testFileId, pageSize: 100 }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.fileId, testFileId);
+      assert.ok(branch.count >= 1, 'should have at least one revision');
+      const latest = branch.items[branch.items.length - 1];
+      assert.ok(latest?.id, 'revision should have id');
+      assert.ok(latest?.modifiedTime, 'revision should have modifiedTime');
+      assert.equal(typeof latest?.keepForever, 'boolean');
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('throws for a nonexistent file', async () => {
+    await assert.rejects(fileRevisionsListHandler({ fileId: 'nonexistent-file-id', pageSize: 10 }, createExtra()), /Error listing revisions/);
+  });
+});
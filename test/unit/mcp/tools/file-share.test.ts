@@ -0,0 +1,87 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-share.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-share tool
+ *
+ * Shares a test file with "anyone with the link" (no notification emails)
+ * and verifies per-file failures for invalid IDs.
+ */
+describe('file-share tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileShareHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileShareHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: `Test Share ${Date.now()}.txt`, mimeType: 'text/plain' },
+      media: { mimeType: 'text/plain', body: 'share me' },
+      fields: 'id',
+    });
+    testFileId = created.data.id ?? undefined;
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('shares a file with anyone with the link', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await fileShareHandler({ fileIds: testFileId, type: 'anyone', role: 'reader' }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.totalRequested, 1);
+      assert.equal(branch.totalShared, 1);
+      assert.equal(branch.failed, undefined, 'failed should be omitted when all succeed');
+      const shared = branch.shared[0];
+      assert.ok(shared, 'should have shared entry');
+      assert.equal(shared.fileId, testFileId);
+      assert.equal(shared.type, 'anyone');
+      assert.equal(shared.role, 'reader');
+      assert.ok(shared.permissionId, 'should return permissionId');
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('reports per-file failures for invalid IDs', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await fileShareHandler({ fileIds: [testFileId, 'nonexistent-file-id'], type: 'anyone', role: 'reader' }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.totalRequested, 2);
+      assert.equal(branch.totalFailed, 1);
+      assert.equal(branch.failed?.[0]?.fileId, 'nonexistent-file-id');
+    }
+  });
+
+  it('requires emailAddress for user grants', async () => {
+    await assert.rejects(fileShareHandler({ fileIds: 'any-id', type: 'user', role: 'reader' }, createExtra()), /emailAddress is required/);
+  });
+
+  it('rejects emailAddress for anyone and domain grants', async () => {
+    await assert.rejects(fileShareHandler({ fileIds: 'any-id', type: 'anyone', role: 'reader', emailAddress: 'ada@example.com' }, createExtra()), /emailAddress cannot be used/);
+    await assert.rejects(fileShareHandler({ fileIds: 'any-id', type: 'domain', role: 'reader', domain: 'example.com', emailAddress: 'ada@example.com' }, createExtra()), /emailAddress cannot be used/);
+  });
+});
@@ -0,0 +1,87 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-unshare.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-unshare tool
+ *
+ * Shares a test file with anyone with the link, removes the permission
+ * and verifies it no longer appears in the permission list.
+ */
+describe('file-unshare tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileUnshareHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+  let permissionId: string | undefined;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileUnshareHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: `Test Unshare ${Date.now()}.txt`, mimeType: 'text/plain' },
+      media: { mimeType: 'text/plain', body: 'unshare me' },
+      fields: 'id',
+    });
+    testFileId = created.data.id ?? undefined;
+    if (testFileId) {
+      const permission = await drive.permissions.create({
+        fileId: testFileId,
+        requestBody: { type: 'anyone', role: 'reader' },
+        fields: 'id',
+      });
+      permissionId = permission.data.id ?? undefined;
+    }
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('removes a permission and returns its role', async () => {
+    if (!testFileId || !permissionId) throw new Error('Expected test file and permission');
+    const res = await fileUnshareHandler({ fileIds: testFileId, permissionId }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.totalRemoved, 1);
+      const removed = branch.removed[0];
+      assert.ok(removed, 'should have removed entry');
+      assert.equal(removed.permissionId, permissionId);
+      assert.equal(removed.type, 'anyone');
+      assert.equal(removed.role, 'reader');
+
+      const drive = google.drive({ version: 'v3', auth });
+      const list = await drive.permissions.list({ fileId: testFileId, fields: 'permissions(id)' });
+      assert.ok(!(list.data.permissions ?? []).some((p) => p.id === permissionId), 'permission should be gone');
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('reports a failure when the email has no permission', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await fileUnshareHandler({ fileIds: testFileId, emailAddress: 'nobody@example.com' }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.totalFailed, 1);
+      assert.ok(branch.failed?.[0]?.error.includes('nobody@example.com'));
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-update-content.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-update-content tool
+ *
+ * Creates a text file, replaces and appends to it, and verifies
+ * preconditions reject stale modifiedTime values.
+ */
+describe('file-update-content tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileUpdateContentHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileUpdateContentHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: `Test Update ${Date.now()}.txt`, mimeType: 'text/plain' },
+      media: { mimeType: 'text/plain', body: 'first\n' },
+      fields: 'id',
+    });
+    testFileId = created.data.id ?? undefined;
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  async function readContent(fileId: string): Promise<string> {
+    const drive = google.drive({ version: 'v3', auth });
+    const res = await drive.files.get({ fileId, alt: 'media' }, { responseType: 'text' });
+    return String(res.data);
+  }
+
+  it('replaces file content keeping the same ID', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await fileUpdateContentHandler({ fileId: testFileId, content: 'replaced\n' }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.item.id, testFileId, 'should keep the file ID');
+      assert.equal(branch.mode, 'replace');
+      assert.equal(await readContent(testFileId), 'replaced\n');
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('appends to a text file', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await fileUpdateContentHandler({ fileId: testFileId, content: 'appended\n', mode: 'append' }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.mode, 'append');
+      assert.ok((await readContent(testFileId)).endsWith('appended\n'), 'content should end with appended text');
+    }
+  });
+
+  it('rejects a stale ifMatchModifiedTime', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const fileId = testFileId;
+    await assert.rejects(() => fileUpdateContentHandler({ fileId, content: 'clobber', ifMatchModifiedTime: '2000-01-01T00:00:00.000Z' }, createExtra()), /Precondition failed/);
+  });
+
+  it('rejects a stale ifMatchVersion', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const fileId = testFileId;
+    await assert.rejects(() => fileUpdateContentHandler({ fileId, content: 'clobber', ifMatchVersion: '0' }, createExtra()), /Precondition failed/);
+  });
+});
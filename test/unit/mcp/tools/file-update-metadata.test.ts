@@ -0,0 +1,86 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-update-metadata.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-update-metadata tool
+ *
+ * Renames and stars a test file, then applies the returned previous
+ * values to verify undo.
+ */
+describe('file-update-metadata tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileUpdateMetadataHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+  const originalName = `Test Metadata ${Date.now()}.txt`;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileUpdateMetadataHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: originalName, mimeType: 'text/plain', properties: { stage: 'draft' } },
+      media: { mimeType: 'text/plain', body: 'metadata' },
+      fields: 'id',
+    });
+    testFileId = created.data.id ?? undefined;
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('updates metadata and returns previous values', async () => {
+    if (!testFileId) throw new Error('Expected test file');
+    const res = await fileUpdateMetadataHandler({ updates: [{ fileId: testFileId, name: 'renamed.txt', starred: true, properties: { stage: 'final', owner: 'ops' } }] }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.totalUpdated, 1);
+      const updated = branch.updated[0];
+      assert.ok(updated, 'should have updated entry');
+      assert.equal(updated.name, 'renamed.txt');
+      assert.deepEqual(updated.previous, { name: originalName, starred: false, properties: { stage: 'draft', owner: null } });
+
+      // Undo using the previous values
+      const undo = await fileUpdateMetadataHandler({ updates: [{ fileId: testFileId, ...updated.previous }] }, createExtra());
+      const undoBranch = undo.structuredContent?.result as Output | undefined;
+      if (undoBranch?.type === 'success') assert.equal(undoBranch.updated[0]?.name, originalName);
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('reports per-file failures for invalid IDs', async () => {
+    const res = await fileUpdateMetadataHandler({ updates: [{ fileId: 'nonexistent-file-id', starred: true }] }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.totalFailed, 1);
+      assert.equal(branch.failed?.[0]?.fileId, 'nonexistent-file-id');
+    }
+  });
+
+  it('rejects updates without changes', async () => {
+    await assert.rejects(fileUpdateMetadataHandler({ updates: [{ fileId: 'any-id' }] }, createExtra()), /No metadata changes/);
+  });
+
+  it('rejects updates with only empty properties', async () => {
+    await assert.rejects(fileUpdateMetadataHandler({ updates: [{ fileId: 'any-id', properties: {}, appProperties: {} }] }, createExtra()), /No metadata changes/);
+  });
+});
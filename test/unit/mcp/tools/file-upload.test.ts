@@ -0,0 +1,91 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/file-upload.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+/**
+ * Tests for Drive file-upload tool
+ *
+ * Uploads text, base64 and converted content, cleaning up each created file.
+ */
+describe('file-upload tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let fileUploadHandler: ToolHandler<Input, EnrichedExtra>;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    fileUploadHandler = wrappedTool.handler;
+  });
+
+  async function cleanup(id: string | undefined) {
+    if (!id) return;
+    const drive = google.drive({ version: 'v3', auth });
+    await deleteTestFolder(drive, id, logger);
+  }
+
+  it('uploads UTF-8 text content', async () => {
+    let createdId: string | undefined;
+    try {
+      const name = `Test Upload ${Date.now()}.md`;
+      const res = await fileUploadHandler({ name, content: '# Report\n\nHello', mimeType: 'text/markdown' }, createExtra());
+      const branch = res.structuredContent?.result as Output | undefined;
+
+      if (branch?.type === 'success') {
+        createdId = branch.item.id;
+        assert.equal(branch.item.name, name, 'should have requested name');
+        assert.equal(branch.item.mimeType, 'text/markdown', 'should keep source MIME type');
+        assert.equal(branch.uploadType, 'multipart', 'small uploads should be multipart');
+        assert.ok(Array.isArray(branch.item.parents), 'should include parents like files-search');
+      } else if (branch?.type === 'auth_required') {
+        assert.ok(branch.provider, 'auth_required result should have provider');
+      }
+    } finally {
+      await cleanup(createdId);
+    }
+  });
+
+  it('uploads base64 content', async () => {
+    let createdId: string | undefined;
+    try {
+      const res = await fileUploadHandler({ name: `Test Upload ${Date.now()}.bin`, content: Buffer.from([1, 2, 3]).toString('base64'), encoding: 'base64' }, createExtra());
+      const branch = res.structuredContent?.result as Output | undefined;
+
+      if (branch?.type === 'success') {
+        createdId = branch.item.id;
+        assert.equal(branch.bytesUploaded, 3, 'should report decoded byte count');
+        assert.equal(branch.item.mimeType, 'application/octet-stream');
+      }
+    } finally {
+      await cleanup(createdId);
+    }
+  });
+
+  it('converts CSV to a Google Sheet', async () => {
+    let createdId: string | undefined;
+    try {
+      const res = await fileUploadHandler({ name: `Test Upload Sheet ${Date.now()}`, content: 'a,b\n1,2\n', mimeType: 'text/csv', convertTo: 'spreadsheet' }, createExtra());
+      const branch = res.structuredContent?.result as Output | undefined;
+
+      if (branch?.type === 'success') {
+        createdId = branch.item.id;
+        assert.equal(branch.item.mimeType, 'application/vnd.google-apps.spreadsheet', 'should be converted to a Sheet');
+      }
+    } finally {
+      await cleanup(createdId);
+    }
+  });
+
+  it('rejects invalid base64 content', async () => {
+    await assert.rejects(() => fileUploadHandler({ name: 'bad.bin', content: 'not base64!', encoding: 'base64' }, createExtra()), 'should throw for invalid base64');
+  });
+});
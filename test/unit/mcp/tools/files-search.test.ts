@@ -225,8 +225,8 @@ describe('drive-file-search comprehensive pagination tests', () => {
       );
 
       const branch = result.structuredContent?.result as Output | undefined;
-      // Should either succeed with empty results or return specific error
-      assert.ok(branch?.type === 'success' || branch?.type === 'auth_required', 'should handle invalid token gracefully');
+      // Drive rejects the token with 400, reported as an invalid_request error branch
+      assert.ok(branch?.type === 'auth_required' || (branch?.type === 'error' && branch.kind === 'invalid_request'), 'should handle invalid token gracefully');
     });
 
     it('expired pageToken handling', async () => {
@@ -246,7 +246,7 @@ describe('drive-file-search comprehensive pagination tests', () => {
 
       const branch = result.structuredContent?.result as Output | undefined;
       // Should handle expired tokens gracefully
-      assert.ok(branch?.type === 'success' || branch?.type === 'auth_required', 'should handle expired token gracefully');
+      assert.ok(branch?.type === 'auth_required' || (branch?.type === 'error' && branch.kind === 'invalid_request'), 'should handle expired token gracefully');
     });
 
     it('maximum page size handling', async () => {
@@ -429,7 +429,7 @@ describe('drive-file-search comprehensive pagination tests', () => {
 
       const branch = result.structuredContent?.result as Output | undefined;
       // Should handle Drive API errors gracefully
-      assert.ok(branch?.type === 'success' || branch?.type === 'auth_required', 'should handle Drive API errors');
+      assert.ok(branch?.type === 'auth_required' || (branch?.type === 'error' && branch.kind === 'invalid_request'), 'should handle Drive API errors');
     });
 
     it('malformed query handling', async () => {
@@ -447,7 +447,7 @@ describe('drive-file-search comprehensive pagination tests', () => {
 
       const branch = result.structuredContent?.result as Output | undefined;
       // Should handle malformed queries gracefully
-      assert.ok(branch?.type === 'success' || branch?.type === 'auth_required', 'should handle malformed queries');
+      assert.ok(branch?.type === 'auth_required' || (branch?.type === 'error' && branch.kind === 'invalid_request'), 'should handle malformed queries');
     });
   });
 
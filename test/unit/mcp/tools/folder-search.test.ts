@@ -394,7 +394,7 @@ describe('drive-folder-search comprehensive tests', () => {
         createExtra()
       );
       const branch = result.structuredContent?.result as Output | undefined;
-      assert.ok(branch?.type === 'success' || branch?.type === 'auth_required', 'should handle invalid queries');
+      assert.ok(branch?.type === 'auth_required' || (branch?.type === 'error' && branch.kind === 'invalid_request'), 'should handle invalid queries');
     });
 
     it('handles invalid pageToken gracefully', async () => {
@@ -410,7 +410,7 @@ describe('drive-folder-search comprehensive tests', () => {
         createExtra()
       );
       const branch = result.structuredContent?.result as Output | undefined;
-      assert.ok(branch?.type === 'success' || branch?.type === 'auth_required', 'should handle invalid pageToken');
+      assert.ok(branch?.type === 'auth_required' || (branch?.type === 'error' && branch.kind === 'invalid_request'), 'should handle invalid pageToken');
     });
   });
 
@@ -0,0 +1,76 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import { google } from 'googleapis';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/trash-list.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+import { deleteTestFolder } from '../../../lib/folder-helpers.ts';
+
+// Type guard for objects shape output
+function isObjectsShape(branch: Output | undefined): branch is Extract<Output, { shape: 'objects' }> {
+  return branch?.type === 'success' && branch.shape === 'objects';
+}
+
+/**
+ * Tests for Drive trash-list tool
+ *
+ * Trashes a uniquely named test file and verifies it is listed.
+ */
+describe('trash-list tool', () => {
+  let auth: Awaited<ReturnType<typeof createMiddlewareContext>>['auth'];
+  let logger: Awaited<ReturnType<typeof createMiddlewareContext>>['logger'];
+  let trashListHandler: ToolHandler<Input, EnrichedExtra>;
+  let testFileId: string | undefined;
+  const testFileName = `Test Trash List ${Date.now()}.txt`;
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    auth = middlewareContext.auth;
+    logger = middlewareContext.logger;
+    const middleware = middlewareContext.middleware;
+    const tool = createTool();
+    const wrappedTool = middleware.withToolAuth(tool);
+    trashListHandler = wrappedTool.handler;
+
+    const drive = google.drive({ version: 'v3', auth });
+    const created = await drive.files.create({
+      requestBody: { name: testFileName, mimeType: 'text/plain', trashed: true },
+      media: { mimeType: 'text/plain', body: 'trashed' },
+      fields: 'id',
+    });
+    testFileId = created.data.id ?? undefined;
+  });
+
+  after(async () => {
+    if (testFileId) {
+      const drive = google.drive({ version: 'v3', auth });
+      await deleteTestFolder(drive, testFileId, logger);
+    }
+  });
+
+  it('lists trashed files matching a query', async () => {
+    const res = await trashListHandler({ query: { name: testFileName }, pageSize: 50, shape: 'objects' }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (isObjectsShape(branch)) {
+      assert.ok(
+        branch.items.some((item) => item.id === testFileId),
+        'should include the trashed test file'
+      );
+      assert.equal(branch.count, branch.items.length);
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it('returns columnar format with selected fields', async () => {
+    const res = await trashListHandler({ pageSize: 5, fields: 'id,name', shape: 'arrays' }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success' && branch.shape === 'arrays') {
+      assert.deepEqual(branch.columns, ['id', 'name']);
+      assert.ok(branch.count <= 5, 'should respect pageSize');
+    }
+  });
+});
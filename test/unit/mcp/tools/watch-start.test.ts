@@ -0,0 +1,37 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import Keyv from 'keyv';
+import { createWatchChannelStore } from '../../../../src/lib/watch-channels.ts';
+import createTool, { type Input } from '../../../../src/mcp/tools/watch-start.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+
+/**
+ * Tests for Drive watch-start tool
+ *
+ * Drive only delivers to public https endpoints, so these tests cover the
+ * transport checks; webhook delivery is covered by the notifications tests.
+ */
+describe('watch-start tool', () => {
+  let middleware: Awaited<ReturnType<typeof createMiddlewareContext>>['middleware'];
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    middleware = middlewareContext.middleware;
+  });
+
+  function handlerWith(deps: Parameters<typeof createTool>[0]): ToolHandler<Input, EnrichedExtra> {
+    return middleware.withToolAuth(createTool(deps)).handler;
+  }
+
+  it('requires the HTTP transport', async () => {
+    const handler = handlerWith({ watchChannels: createWatchChannelStore(new Keyv()) });
+    await assert.rejects(handler({ fileId: 'file-1' }, createExtra()), /require the HTTP transport/);
+  });
+
+  it('requires an https webhook URL', async () => {
+    const handler = handlerWith({ watchChannels: createWatchChannelStore(new Keyv()), notificationUrl: 'http://localhost:3000/drive/notifications' });
+    await assert.rejects(handler({ fileId: 'file-1' }, createExtra()), /https/);
+  });
+});
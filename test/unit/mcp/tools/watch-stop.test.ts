@@ -0,0 +1,51 @@
+import type { EnrichedExtra } from '@mcp-z/oauth-google';
+import type { ToolHandler } from '@mcp-z/server';
+import assert from 'assert';
+import Keyv from 'keyv';
+import { createWatchChannelStore } from '../../../../src/lib/watch-channels.ts';
+import createTool, { type Input, type Output } from '../../../../src/mcp/tools/watch-stop.ts';
+import { createExtra } from '../../../lib/create-extra.ts';
+import createMiddlewareContext from '../../../lib/create-middleware-context.ts';
+
+/**
+ * Tests for Drive watch-stop tool
+ */
+describe('watch-stop tool', () => {
+  let watchStopHandler: ToolHandler<Input, EnrichedExtra>;
+  const watchChannels = createWatchChannelStore(new Keyv());
+
+  before(async () => {
+    const middlewareContext = await createMiddlewareContext();
+    const middleware = middlewareContext.middleware;
+    const tool = createTool({ watchChannels });
+    const wrappedTool = middleware.withToolAuth(tool);
+    watchStopHandler = wrappedTool.handler;
+  });
+
+  it('reports unknown channels as failures', async () => {
+    const res = await watchStopHandler({ channelIds: ['unknown-channel'] }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.totalStopped, 0);
+      assert.equal(branch.totalFailed, 1);
+      assert.match(branch.failed?.[0]?.error ?? '', /Unknown channel/);
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+
+  it("does not stop another account's channels", async () => {
+    await watchChannels.set({ id: 'other-channel', resourceId: 'res-1', kind: 'changes', pageToken: '1', accountId: 'someone-else@example.com', token: 'secret', address: 'https://example.com/drive/notifications', expiration: Date.now() + 3600000, autoRenew: true });
+    const res = await watchStopHandler({ channelIds: ['other-channel'] }, createExtra());
+    const branch = res.structuredContent?.result as Output | undefined;
+
+    if (branch?.type === 'success') {
+      assert.equal(branch.totalStopped, 0);
+      assert.match(branch.failed?.[0]?.error ?? '', /Unknown channel/);
+      assert.ok(await watchChannels.get('other-channel'), 'channel should still be stored');
+    } else if (branch?.type === 'auth_required') {
+      assert.ok(branch.provider, 'auth_required result should have provider');
+    }
+  });
+});